@@ -0,0 +1,324 @@
+// @vitest-environment jsdom
+import { Blob as NodeBlob } from 'node:buffer';
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it, vi } from 'vitest';
+
+// index.tsx mounts the app when it is loaded; the tests only need its services.
+vi.mock('react-dom/client', () => ({ default: { createRoot: () => ({ render: () => {} }) } }));
+document.body.innerHTML = '<div id="root"></div>';
+const {
+  buildSyntaxRetryPrompt,
+  checkCodeBlockSyntax,
+  checkSyntax,
+  collectRepoSnapshot,
+  createCustomMode,
+  createMockGitHubClient,
+  decodeSessionFragment,
+  encodeSessionFragment,
+  findCodeBlockProblems,
+  formatCode,
+  formatShortcut,
+  fuzzyScore,
+  importFromZip,
+  importModeDefinitions,
+  mergePreScanFindings,
+  normalizeShortcut,
+  openShareLink,
+  preScanCode,
+  rebindShortcut,
+  renderPromptTemplate,
+  searchCommands,
+  shareExpiryOptions,
+  shortcutFromEvent,
+  validateModeDefinition,
+} = await import('./index.tsx');
+
+describe('repository analysis', () => {
+  const sourceFile = (lines: number) => Array.from({ length: lines }, (_, i) => `export const value${i} = ${i};`).join('\n');
+
+  it('samples the manifest, README and entry point of the offline sample repository', async () => {
+    const client = createMockGitHubClient();
+    const snapshot = await collectRepoSnapshot(client, 'octo', 'sample', '');
+    expect(snapshot.ref).toBe('main');
+    expect(snapshot.totalFiles).toBe(4);
+    expect(snapshot.pathsTruncated).toBe(false);
+    expect(snapshot.sampledFiles.map(file => file.path)).toEqual(['package.json', 'README.md', 'src/index.js', 'src/tasks.js']);
+  });
+
+  it('reads the requested branch', async () => {
+    const client = createMockGitHubClient();
+    expect(await client.listBranches('octo', 'sample')).toEqual(['main', 'develop']);
+    expect((await collectRepoSnapshot(client, 'octo', 'sample', 'develop')).ref).toBe('develop');
+  });
+
+  it('skips files that do not fit the token budget and truncates large ones', async () => {
+    const client = createMockGitHubClient({
+      defaultBranch: 'main',
+      branches: ['main'],
+      files: { 'package.json': '{}', 'src/index.ts': sourceFile(2000), 'src/util.ts': sourceFile(200) },
+    });
+    const snapshot = await collectRepoSnapshot(client, 'octo', 'big', '', { tokenBudget: 7000 });
+    const index = snapshot.sampledFiles.find(file => file.path === 'src/index.ts');
+    expect(index?.truncated).toBe(true);
+    expect(index?.content.length).toBe(24000);
+    expect(snapshot.sampledFiles.map(file => file.path)).not.toContain('src/util.ts');
+    expect(snapshot.estimatedTokens).toBeLessThanOrEqual(7000);
+  });
+
+  it('caps the file listing and reports it as truncated', async () => {
+    const files = Object.fromEntries(Array.from({ length: 500 }, (_, i) => [`src/module${i}/file${i}.ts`, 'x']));
+    const client = createMockGitHubClient({ defaultBranch: 'main', branches: ['main'], files });
+    const snapshot = await collectRepoSnapshot(client, 'octo', 'wide', '', { tokenBudget: 2000 });
+    expect(snapshot.totalFiles).toBe(500);
+    expect(snapshot.paths.length).toBeGreaterThan(0);
+    expect(snapshot.paths.length).toBeLessThan(500);
+    expect(snapshot.pathsTruncated).toBe(true);
+    expect(snapshot.estimatedTokens).toBeLessThanOrEqual(2000);
+  });
+});
+
+describe('prompt templates', () => {
+  it('fills in variables, allowing spaces inside the braces', () => {
+    expect(renderPromptTemplate('Explain this {{language}} code:\n{{ code }}', { language: 'Go', code: 'package main' }))
+      .toBe('Explain this Go code:\npackage main');
+  });
+
+  it('leaves unknown names in place, including names of Object.prototype members', () => {
+    expect(renderPromptTemplate('{{missing}} {{constructor}} {{toString}}', {})).toBe('{{missing}} {{constructor}} {{toString}}');
+  });
+
+  it('does not substitute variables into already substituted values', () => {
+    expect(renderPromptTemplate('{{input}}', { input: '{{code}}', code: 'secret' })).toBe('{{code}}');
+  });
+});
+
+describe('mode definitions', () => {
+  const withFields = (...fields: { name: string; type?: 'text' | 'select'; options?: string[] }[]) => ({
+    ...createCustomMode(),
+    fields: fields.map(({ name, type = 'text', options }) => ({ name, label: name, type, options, required: false })),
+  });
+
+  it('accepts a new custom mode', () => {
+    expect(validateModeDefinition(createCustomMode())).toBeNull();
+    expect(validateModeDefinition(withFields({ name: 'target' }, { name: 'style', type: 'select', options: ['terse'] }))).toBeNull();
+  });
+
+  it('requires a name and a template', () => {
+    expect(validateModeDefinition({ ...createCustomMode(), label: ' ' })).toMatch(/name/);
+    expect(validateModeDefinition({ ...createCustomMode(), template: '' })).toMatch(/template/);
+  });
+
+  it('rejects invalid, reserved and duplicate field names', () => {
+    expect(validateModeDefinition(withFields({ name: 'two words' }))).toMatch(/single word/);
+    expect(validateModeDefinition(withFields({ name: 'code' }))).toMatch(/built-in variable/);
+    expect(validateModeDefinition(withFields({ name: 'target' }, { name: 'target' }))).toMatch(/two fields/);
+  });
+
+  it('requires options for a select field', () => {
+    expect(validateModeDefinition(withFields({ name: 'style', type: 'select' }))).toMatch(/at least one option/);
+  });
+
+  it('rejects ids that are neither built-in nor custom', () => {
+    expect(validateModeDefinition({ ...createCustomMode(), id: 'OTHER' as never })).toMatch(/Unknown mode id/);
+  });
+
+  it('imports an export, replacing the mode with the same id', () => {
+    const mode = createCustomMode();
+    const { definitions } = importModeDefinitions(JSON.stringify({ version: 1, modes: [mode] }), []);
+    const { definitions: reimported, imported } = importModeDefinitions(JSON.stringify({ version: 1, modes: [{ ...mode, label: 'Renamed' }] }), definitions);
+    expect(imported).toBe(1);
+    expect(reimported.filter(definition => definition.id === mode.id).map(definition => definition.label)).toEqual(['Renamed']);
+  });
+
+  it('refuses an import with an invalid mode', () => {
+    expect(() => importModeDefinitions('not json', [])).toThrow(/valid JSON/);
+    expect(() => importModeDefinitions(JSON.stringify({ version: 1, modes: [{ ...createCustomMode(), label: '' }] }), [])).toThrow(/needs a name/);
+  });
+});
+
+describe('security pre-scan', () => {
+  it('flags one finding per rule and line', () => {
+    const findings = preScanCode([
+      'const x = 1;',
+      'eval(userInput);',
+      'db.query("SELECT * FROM users WHERE id = " + id);',
+    ].join('\n'));
+    expect(findings.map(finding => [finding.startLine, finding.cwe])).toEqual([[2, 'CWE-95'], [3, 'CWE-89']]);
+    expect(findings.every(finding => finding.source === 'pre-scan')).toBe(true);
+  });
+
+  it('ignores code patterns in comments but not secrets', () => {
+    const findings = preScanCode('// eval(userInput);\n# api_key = "sk-live-1234567890abcdefghij"');
+    expect(findings.map(finding => finding.cwe)).toEqual(['CWE-798']);
+  });
+
+  it('skips placeholder secrets', () => {
+    expect(preScanCode('const password = "changeme";\nconst apiKey = "${API_KEY}";')).toEqual([]);
+  });
+});
+
+describe('merging pre-scan matches into the audit', () => {
+  const preScan = preScanCode('eval(a);\neval(b);\neval(c);');
+  const modelFinding = { ...preScan[0], title: 'Code injection', source: 'model' as const };
+
+  it('keeps matches the model neither reported nor dismissed', () => {
+    const merged = mergePreScanFindings({ summary: '', findings: [modelFinding], dismissedPreScanMatches: [2] }, preScan);
+    expect(merged.findings.map(finding => [finding.startLine, finding.source])).toEqual([[1, 'model'], [3, 'pre-scan']]);
+    expect(merged.dismissedPreScanMatches).toBeUndefined();
+  });
+
+  it('drops every match the model dismissed', () => {
+    expect(mergePreScanFindings({ summary: '', findings: [], dismissedPreScanMatches: [1, 2, 3] }, preScan).findings).toEqual([]);
+  });
+
+  it('does not count a finding of another category as covering a match', () => {
+    const other = { ...modelFinding, cwe: 'CWE-79', owasp: 'A02:2021 Cryptographic Failures' as const };
+    expect(mergePreScanFindings({ summary: '', findings: [other] }, preScan.slice(0, 1)).findings).toHaveLength(2);
+  });
+});
+
+describe('syntax checks', () => {
+  it('reports the line, column and token of the first error', () => {
+    expect(checkSyntax('const a = 1;\nconst b = ;', 'JavaScript')).toEqual({ line: 2, column: 11, message: 'Unexpected ";"' });
+    expect(checkSyntax('def f(:\n    pass', 'Python')).toMatchObject({ line: 1 });
+  });
+
+  it('accepts valid code and languages without a trusted grammar', () => {
+    expect(checkSyntax('const a = <div>{1}</div>;', 'JavaScript')).toBeNull();
+    expect(checkSyntax('record Point(int x, int y) {}', 'Java')).toBeNull();
+  });
+
+  it('does not check fences only highlighted like another language', () => {
+    expect(checkCodeBlockSyntax('xml', '<a><b></a>')).toBeNull();
+    expect(checkCodeBlockSyntax('csharp', 'var x = ;')).toBeNull();
+    expect(checkCodeBlockSyntax('js', 'var x = ;')).toMatchObject({ language: 'JavaScript' });
+  });
+
+  it('numbers problems by code block and skips unclosed ones', () => {
+    const response = ['```js', 'ok();', '```', '```py', 'def f(:', '```', '```js', 'broken(', ''].join('\n');
+    const problems = findCodeBlockProblems(response);
+    expect(problems.map(problem => [problem.block, problem.language])).toEqual([[2, 'Python']]);
+    expect(buildSyntaxRetryPrompt(problems)).toMatch(/^Some code in your answer does not parse:\n- Code block 2 \(Python\), line 1, column \d+: .+\nPlease answer again in full/);
+  });
+});
+
+describe('formatting', () => {
+  it('keeps whether the code ends with a newline', async () => {
+    expect(await formatCode('const a  =  1', 'JavaScript')).toBe('const a = 1;');
+    expect(await formatCode('const a  =  1\n\n\n', 'JavaScript')).toBe('const a = 1;\n');
+  });
+
+  it('names the language when the formatter cannot parse the code', async () => {
+    await expect(formatCode('const = ;', 'JavaScript')).rejects.toThrow(/^Could not format the JavaScript code: /);
+  });
+});
+
+describe('command palette search', () => {
+  it('matches characters in order, ignoring case and spaces', () => {
+    expect(fuzzyScore('gen tests', 'Generate Tests')).not.toBeNull();
+    expect(fuzzyScore('tg', 'Generate Tests')).toBeNull();
+    expect(fuzzyScore('', 'anything')).toBe(0);
+  });
+
+  it('ranks word starts and runs above scattered matches', () => {
+    expect(fuzzyScore('gt', 'Generate Tests')!).toBeGreaterThan(fuzzyScore('gt', 'Getting started')!);
+    expect(fuzzyScore('ner', 'Generate')!).toBeGreaterThan(fuzzyScore('ner', 'Banker')!);
+  });
+
+  it('ranks matches in the detail below the same match in the label', () => {
+    const run = () => {};
+    const commands = [
+      { id: 'a', group: 'History' as const, label: 'Old session', detail: 'Review', run },
+      { id: 'b', group: 'Modes' as const, label: 'Review', run },
+      { id: 'c', group: 'Actions' as const, label: 'Copy response', run },
+    ];
+    expect(searchCommands(commands, 'review').map(command => command.id)).toEqual(['b', 'a']);
+    expect(searchCommands(commands, ' ').map(command => command.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('keyboard shortcuts', () => {
+  const definitions = [
+    { id: 'submit', label: 'Submit', defaultKey: 'Mod-Enter', scope: 'global' as const },
+    { id: 'stop', label: 'Stop', defaultKey: 'Escape', scope: 'global' as const },
+  ];
+
+  it('resolves Mod and orders the modifiers', () => {
+    expect(normalizeShortcut('Shift-Mod-K')).toBe('Ctrl-Shift-k');
+    expect(normalizeShortcut('Cmd-Control-Alt-p')).toBe('Ctrl-Alt-Meta-p');
+    expect(normalizeShortcut('Ctrl--')).toBe('Ctrl--');
+  });
+
+  it('reads key presses by their physical key while modifiers are held', () => {
+    expect(shortcutFromEvent(new KeyboardEvent('keydown', { key: '¡', code: 'Digit1', altKey: true }))).toBe('Alt-1');
+    expect(shortcutFromEvent(new KeyboardEvent('keydown', { key: 'K', code: 'KeyK', ctrlKey: true, shiftKey: true }))).toBe('Ctrl-Shift-k');
+    expect(shortcutFromEvent(new KeyboardEvent('keydown', { key: ' ', code: 'Space' }))).toBe('Space');
+    expect(shortcutFromEvent(new KeyboardEvent('keydown', { key: 'Shift', code: 'ShiftLeft', shiftKey: true }))).toBeNull();
+  });
+
+  it('shows shortcuts the way the platform does', () => {
+    expect(formatShortcut('Mod-Shift-ArrowUp')).toBe('Ctrl+Shift+Up');
+  });
+
+  it('unbinds the shortcut that had the key and does not store defaults', () => {
+    expect(rebindShortcut(definitions, {}, 'stop', 'Ctrl-Enter')).toEqual({ submit: null, stop: 'Ctrl-Enter' });
+    expect(rebindShortcut(definitions, { stop: 'Alt-s' }, 'stop', 'Escape')).toEqual({});
+  });
+});
+
+describe('share links', () => {
+  const session = {
+    mode: 'ASSIST' as const,
+    modeLabel: 'Assist',
+    language: 'Python' as const,
+    path: 'src/app.py',
+    prompt: 'Explain this',
+    model: 'gemini-2.5-flash',
+    timestamp: 1700000000000,
+    turns: [{ id: 't1', prompt: 'Explain this', displayPrompt: 'Explain this', response: 'It prints ünïcode ✓', code: 'print(1)\n', originalCode: 'print(1)\n' }],
+  };
+
+  it('carries the session in the fragment', async () => {
+    const fragment = encodeSessionFragment(session);
+    expect(fragment).toMatch(/^session=1\.[\w-]+$/);
+    expect(decodeSessionFragment(fragment.slice('session='.length))).toEqual(session);
+    expect(await openShareLink(`#${fragment}`)).toEqual({ session, expiresAt: null });
+  });
+
+  it('offers only lifetimes the share service accepts', () => {
+    expect(shareExpiryOptions(null)).toEqual([1, 7, 30]);
+    expect(shareExpiryOptions(90)).toEqual([1, 7, 30]);
+    expect(shareExpiryOptions(7)).toEqual([1, 7]);
+    expect(shareExpiryOptions(3)).toEqual([1, 3]);
+  });
+
+  it('ignores fragments that are not share links', async () => {
+    expect(await openShareLink('#section-2')).toBeNull();
+  });
+
+  it('refuses links of another version, cut-off links and damaged sessions', () => {
+    const data = encodeSessionFragment(session).slice('session='.length);
+    expect(() => decodeSessionFragment(`2${data.slice(1)}`)).toThrow(/different version/);
+    expect(() => decodeSessionFragment(data.slice(0, data.length / 2))).toThrow(/copied in full/);
+    const damaged = encodeSessionFragment({ ...session, turns: [] }).slice('session='.length);
+    expect(() => decodeSessionFragment(damaged)).toThrow(/damaged/);
+  });
+});
+
+describe('zip import', () => {
+  // jsdom's Blob has no arrayBuffer(), and its TextEncoder returns arrays fflate doesn't take for file contents.
+  const zipOf = (files: Record<string, string>) => {
+    const zip = zipSync(Object.fromEntries(Object.entries(files).map(([path, content]) => [path, Uint8Array.from(strToU8(content))])));
+    return new NodeBlob([zip]) as unknown as Blob;
+  };
+
+  it('imports the source files under the given prefix, skipping ignored directories', async () => {
+    const imported = await importFromZip(zipOf({ 'src/a.ts': 'export {};', 'node_modules/x/index.js': '', 'notes.bin': '' }), 'project/');
+    expect(imported).toEqual([{ path: 'project/src/a.ts', content: 'export {};' }]);
+  });
+
+  it('refuses zips with too many source files', async () => {
+    const files = Object.fromEntries(Array.from({ length: 2001 }, (_, i) => [`f${i}.js`, '']));
+    await expect(importFromZip(zipOf(files))).rejects.toThrow(/more than 2000 source files/);
+  });
+});
@@ -1,39 +1,293 @@
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, GoogleGenAI } from "@google/genai";
 
 // Codemirror Imports (handled by importmap)
-import { EditorState, StateEffect } from '@codemirror/state';
-import { EditorView, keymap, lineNumbers } from '@codemirror/view';
-import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { EditorState, Extension, Prec, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, Tooltip, ViewPlugin, ViewUpdate, WidgetType, keymap, lineNumbers, showTooltip } from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, isolateHistory } from '@codemirror/commands';
 import { oneDark } from '@codemirror/theme-one-dark';
-import { MergeView } from '@codemirror/merge';
-import { javascript } from '@codemirror/lang-javascript';
-import { python } from '@codemirror/lang-python';
-import { java from '@codemirror/lang-java';
-import { cpp } from '@codemirror/lang-cpp';
-import { html } from '@codemirror/lang-html';
-import { css } from '@codemirror/lang-css';
+import { MergeView, Chunk } from '@codemirror/merge';
+import { Diagnostic, forEachDiagnostic, lintGutter, linter, setDiagnostics } from '@codemirror/lint';
+import { LRLanguage, StreamLanguage } from '@codemirror/language';
+import { javascript, jsxLanguage, tsxLanguage, typescriptLanguage } from '@codemirror/lang-javascript';
+import { python, pythonLanguage } from '@codemirror/lang-python';
+import { java } from '@codemirror/lang-java';
+import { cpp, cppLanguage } from '@codemirror/lang-cpp';
+import { html, htmlLanguage } from '@codemirror/lang-html';
+import { css, cssLanguage } from '@codemirror/lang-css';
 import { sql } from '@codemirror/lang-sql';
+import { go } from '@codemirror/legacy-modes/mode/go';
+import { rust } from '@codemirror/legacy-modes/mode/rust';
+import { shell } from '@codemirror/legacy-modes/mode/shell';
+import { deflateSync, inflateSync, unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import { marked, Token, Tokens, TokensList } from 'marked';
+import DOMPurify from 'dompurify';
+import type { PluginObj, types as BabelTypes } from '@babel/core';
 
-// --- BUNDLED: types.ts ---
-const LANGUAGES = [
-  'JavaScript',
-  'TypeScript',
-  'Python',
-  'Java',
-  'C++',
-  'Go',
-  'Rust',
-  'HTML',
-  'CSS',
-  'SQL',
-  'Shell',
-] as const;
+// --- BUNDLED: services/formatters.ts ---
+// Formatters are large, so each one is loaded the first time code in one of its languages is formatted.
+
+type PrettierParser = 'babel' | 'typescript' | 'html' | 'css';
+
+let prettierLoader: Promise<(code: string, parser: PrettierParser) => Promise<string>> | null = null;
+
+// HTML needs the script and style plugins as well, for embedded <script> and <style> elements.
+const formatWithPrettier = async (code: string, parser: PrettierParser): Promise<string> => {
+    prettierLoader ??= Promise.all([
+        import('prettier/standalone'),
+        import('prettier/plugins/babel'),
+        import('prettier/plugins/estree'),
+        import('prettier/plugins/typescript'),
+        import('prettier/plugins/html'),
+        import('prettier/plugins/postcss'),
+    ]).then(([prettier, ...plugins]) => (source, parser) => prettier.format(source, { parser, plugins }));
+    return (await prettierLoader)(code, parser);
+};
+
+// The WebAssembly formatters fetch and compile their .wasm file in the module's default export.
+const wasmFormatterLoader = <T extends { default: () => Promise<unknown> },>(load: () => Promise<T>): () => Promise<T> => {
+    let loader: Promise<T> | null = null;
+    return () => loader ??= load().then(async module => {
+        await module.default();
+        return module;
+    });
+};
+
+const loadRuff = wasmFormatterLoader(() => import('@wasm-fmt/ruff_fmt/web'));
+const loadGofmt = wasmFormatterLoader(() => import('@wasm-fmt/gofmt/web'));
+const loadClangFormat = wasmFormatterLoader(() => import('@wasm-fmt/clang-format/web'));
+
+const formatWithRuff = async (code: string): Promise<string> => (await loadRuff()).format(code);
+
+const formatWithGofmt = async (code: string): Promise<string> => (await loadGofmt()).format(code);
+
+// clang-format picks the language from the file name.
+const formatWithClangFormat = async (code: string, filename: 'main.cpp' | 'main.java'): Promise<string> => {
+    return (await loadClangFormat()).format(code, filename, 'Google');
+};
+
+const formatWithSqlFormatter = async (code: string): Promise<string> => (await import('sql-formatter')).format(code);
+
+// --- BUNDLED: services/languageRegistry.ts ---
+interface LanguageDefinition {
+    /** CodeMirror highlighting and indentation for the editor. */
+    support: () => Extension;
+    /** File extensions, without the dot. */
+    extensions: string[];
+    /** Other names used for the language in Markdown code fences. */
+    aliases: string[];
+    /** Patterns typical of the language, with how strongly each one points to it. */
+    signals: [pattern: RegExp, weight: number][];
+    /** Formats code in the language; absent where no in-browser formatter exists. */
+    format?: (code: string) => Promise<string>;
+    /**
+     * Lezer grammars that check the syntax; code is valid if any of them parses it without errors.
+     * Absent where the grammar is too lenient or lags behind the language to be trusted.
+     */
+    grammars?: () => LRLanguage[];
+}
+
+// Keeps the literal keys for the Language type while checking every entry against LanguageDefinition.
+const defineLanguages = <T extends Record<string, LanguageDefinition>,>(definitions: T): Record<keyof T, LanguageDefinition> => definitions;
+
+// The single list of supported languages: the language select, file import, code fences, language
+// detection, formatting and syntax checks are all driven by these entries.
+const LANGUAGE_REGISTRY = defineLanguages({
+    'JavaScript': {
+        support: () => javascript({ jsx: true }),
+        extensions: ['js', 'jsx', 'mjs', 'cjs'],
+        aliases: ['js', 'jsx', 'mjs', 'cjs', 'node'],
+        format: code => formatWithPrettier(code, 'babel'),
+        grammars: () => [jsxLanguage],
+        signals: [
+            [/\b(const|let)\s+[\w$]+\s*=/, 1],
+            [/=>/, 1],
+            [/\bfunction\s*[\w$]*\s*\(/, 1],
+            [/\bconsole\.\w+\(/, 2],
+            [/\brequire\(['"]|\bmodule\.exports\b/, 2],
+            [/\bimport\s+[\w${}*,\s]+\s+from\s+['"]/, 1],
+            [/===|!==/, 1],
+            [/`[^`\n]*\$\{/, 1],
+        ],
+    },
+    'TypeScript': {
+        support: () => javascript({ typescript: true }),
+        extensions: ['ts', 'tsx', 'mts', 'cts'],
+        aliases: ['ts', 'tsx'],
+        format: code => formatWithPrettier(code, 'typescript'),
+        // Plain TypeScript reads `<T>` before an arrow function as generics, TSX as an element.
+        grammars: () => [typescriptLanguage, tsxLanguage],
+        signals: [
+            [/\b(interface|type)\s+[A-Z]\w*(<[^>]*>)?\s*[={]/, 3],
+            [/[\w$)]\s*:\s*(string|number|boolean|void|unknown|any|never)\b/, 3],
+            [/\b(public|private|protected|readonly)\s+[\w$]+\s*[:(]/, 2],
+            [/\bas\s+(const|string|number|unknown)\b/, 2],
+            [/\bimport\s+type\b|\benum\s+[A-Z]/, 3],
+        ],
+    },
+    'Python': {
+        support: () => python(),
+        extensions: ['py'],
+        aliases: ['py', 'python3'],
+        format: formatWithRuff,
+        grammars: () => [pythonLanguage],
+        signals: [
+            [/^\s*def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:\s*$/m, 3],
+            [/^\s*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?\s*$/m, 1],
+            [/^\s*class\s+\w+(\(.*\))?:\s*$/m, 3],
+            [/^\s*(if|elif|for|while|with|try|except.*|else)\b.*:\s*$/m, 1],
+            [/\bprint\(|\bself\.|\bNone\b|\bTrue\b|\bFalse\b/, 1],
+            [/^\s*if\s+__name__\s*==/m, 3],
+        ],
+    },
+    'Java': {
+        support: () => java(),
+        extensions: ['java'],
+        // C# and Kotlin have no grammar here; Java's is the closest for highlighting their fences, which are not formatted or checked as Java.
+        aliases: ['c#', 'cs', 'csharp', 'kotlin', 'kt'],
+        format: code => formatWithClangFormat(code, 'main.java'),
+        // No grammars: the Java grammar predates records and switch expressions.
+        signals: [
+            [/\bpublic\s+(static\s+)?(final\s+)?(class|interface|enum|void)\b/, 3],
+            [/\bSystem\.out\.print/, 3],
+            [/\bimport\s+java\./, 3],
+            [/\b(String|int|boolean)\[\]\s+\w+/, 2],
+            [/@Override\b/, 2],
+        ],
+    },
+    'C++': {
+        support: () => cpp(),
+        extensions: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'h', 'c'],
+        aliases: ['cpp', 'cc', 'cxx', 'hpp', 'c', 'h'],
+        format: code => formatWithClangFormat(code, 'main.cpp'),
+        grammars: () => [cppLanguage],
+        signals: [
+            [/^\s*#include\s*[<"]/m, 3],
+            [/\bstd::/, 3],
+            [/\bcout\s*<</, 2],
+            [/\bint\s+main\s*\(/, 2],
+            [/\btemplate\s*</, 2],
+            [/->\w+|\bnullptr\b/, 1],
+        ],
+    },
+    'Go': {
+        support: () => StreamLanguage.define(go),
+        extensions: ['go'],
+        aliases: ['golang'],
+        format: formatWithGofmt,
+        signals: [
+            [/^\s*package\s+\w+\s*$/m, 3],
+            [/\bfunc\s+(\([^)]*\)\s*)?\w+\s*\(/, 3],
+            [/:=/, 1],
+            [/\bfmt\.\w+\(/, 3],
+            [/^\s*import\s+\(/m, 2],
+        ],
+    },
+    'Rust': {
+        support: () => StreamLanguage.define(rust),
+        extensions: ['rs'],
+        aliases: ['rs'],
+        signals: [
+            [/\bfn\s+\w+\s*(<[^>]*>)?\s*\(/, 3],
+            [/\blet\s+mut\b/, 3],
+            [/\b(println|format|vec|panic)!\(/, 3],
+            [/\b(impl|pub\s+fn|use\s+std::|&mut\s)/, 2],
+            [/->\s*(Self|Result|Option|[a-z]\d+)\b/, 2],
+        ],
+    },
+    'HTML': {
+        support: () => html(),
+        extensions: ['html', 'htm'],
+        aliases: ['htm', 'xml', 'svg'],
+        format: code => formatWithPrettier(code, 'html'),
+        grammars: () => [htmlLanguage],
+        signals: [
+            [/^\s*<!DOCTYPE\s+html/im, 4],
+            [/<\/?(html|head|body|div|span|p|a|ul|li|section|script)\b[^>]*>/i, 2],
+            [/<\w+(\s+[\w-]+="[^"]*")+\s*\/?>/, 1],
+        ],
+    },
+    'CSS': {
+        support: () => css(),
+        extensions: ['css'],
+        aliases: [],
+        format: code => formatWithPrettier(code, 'css'),
+        grammars: () => [cssLanguage],
+        signals: [
+            [/^[ \t]*[.#][\w-][^{};\n]*\{/m, 2],
+            [/^[ \t]*[\w-]+[ \t]*:[^;{}\n]+;[ \t]*$/m, 1],
+            [/@media\b|@import\b|!important\b/, 2],
+        ],
+    },
+    'SQL': {
+        support: () => sql(),
+        extensions: ['sql'],
+        aliases: ['postgresql', 'postgres', 'mysql', 'sqlite'],
+        format: formatWithSqlFormatter,
+        // No grammars: the SQL grammar accepts nearly anything, and dialects differ.
+        signals: [
+            [/\bSELECT\b[\s\S]+\bFROM\b/i, 3],
+            [/\b(INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i, 3],
+            [/\bCREATE\s+(TABLE|INDEX|VIEW)\b/i, 3],
+            [/\b(WHERE|JOIN|GROUP\s+BY|ORDER\s+BY)\b/i, 1],
+        ],
+    },
+    'Shell': {
+        support: () => StreamLanguage.define(shell),
+        extensions: ['sh', 'bash', 'zsh'],
+        aliases: ['sh', 'bash', 'zsh', 'console', 'shell-session'],
+        signals: [
+            [/^#!.*\b(ba|z)?sh\b/m, 4],
+            [/^\s*(echo|export|cd|sudo|apt-get|npm|pip|chmod|mkdir)\s/m, 2],
+            [/\$\{?\w+\}?/, 1],
+            [/^\s*(if\s+\[|fi\s*$|done\s*$|esac\s*$)/m, 3],
+        ],
+    },
+});
+
+type Language = keyof typeof LANGUAGE_REGISTRY;
+
+const LANGUAGES = Object.keys(LANGUAGE_REGISTRY) as Language[];
+
+// Detection needs at least this score, and a clear lead over the runner-up, before it overrides anything.
+const MIN_DETECTION_SCORE = 3;
+// The start of a file identifies its language; scanning more only makes pastes of large files slower.
+const DETECTION_SAMPLE_LENGTH = 10000;
+
+/** Looks a language up by its name or a code fence alias, case-insensitively. */
+const findLanguage = (name: string): Language | null => {
+    const lower = name.trim().toLowerCase();
+    return LANGUAGES.find(language => language.toLowerCase() === lower)
+        ?? LANGUAGES.find(language => LANGUAGE_REGISTRY[language].aliases.includes(lower))
+        ?? null;
+};
 
-type Language = typeof LANGUAGES[number];
+const findLanguageByExtension = (extension: string): Language | null => {
+    const lower = extension.toLowerCase();
+    return LANGUAGES.find(language => LANGUAGE_REGISTRY[language].extensions.includes(lower)) ?? null;
+};
+
+const getLanguageSupport = (language: Language): Extension => LANGUAGE_REGISTRY[language].support();
+
+/** Guesses the language of a snippet from its signals; null when no language stands out. */
+const detectLanguage = (code: string): Language | null => {
+    const sample = code.slice(0, DETECTION_SAMPLE_LENGTH);
+    const scores = LANGUAGES
+        .map(language => ({
+            language,
+            score: LANGUAGE_REGISTRY[language].signals.reduce((total, [pattern, weight]) => total + (pattern.test(sample) ? weight : 0), 0),
+        }))
+        .sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = scores;
+    if (best.score < MIN_DETECTION_SCORE || best.score === runnerUp.score) return null;
+    // TypeScript is a superset of JavaScript, so its markers decide between the two.
+    if (best.language === 'JavaScript' && scores.find(entry => entry.language === 'TypeScript')!.score > 0) return 'TypeScript';
+    return best.language;
+};
 
+// --- BUNDLED: types.ts ---
 type AiMode =
   | 'ASSIST'
   | 'GENERATE'
@@ -42,796 +296,8479 @@ type AiMode =
   | 'REVIEW'
   | 'GENERATE_DOCS'
   | 'GENERATE_TESTS'
-  | 'ANALYZE_REPO';
+  | 'ANALYZE_REPO'
+  | 'SECURITY_AUDIT'
+  | 'EXPLAIN'
+  | 'TRANSLATE';
 
-// --- BUNDLED: services/geminiService.ts ---
-if (!process.env.API_KEY) {
-  // This is a placeholder check; in a browser environment, process.env isn't directly available this way.
-  // The key is expected to be provided in the execution environment where the app is hosted.
-  console.warn("API_KEY environment variable not set. Please ensure it is configured in your deployment environment.");
+/** A built-in mode, or a mode the user created in the mode editor. */
+type ModeId = AiMode | `custom:${string}`;
+
+const MODE_ICON_NAMES = ['code', 'wand', 'bug', 'sparkles', 'checklist', 'document', 'beaker', 'github', 'lightbulb', 'shield', 'globe', 'pencil'] as const;
+
+type ModeIconName = typeof MODE_ICON_NAMES[number];
+
+const MODE_FIELD_TYPES = ['text', 'textarea', 'select'] as const;
+
+/** An extra input shown for a mode; its value fills the `{{name}}` placeholder of the template. */
+interface ModeInputField {
+  name: string;
+  label: string;
+  type: typeof MODE_FIELD_TYPES[number];
+  /** Choices of a `select` field. */
+  options?: string[];
+  placeholder?: string;
+  required: boolean;
+}
+
+interface ModeDefinition {
+  id: ModeId;
+  label: string;
+  icon: ModeIconName;
+  /** Prompt sent to the model, with `{{variable}}` placeholders. */
+  template: string;
+  /** Whether the mode works on the active file. */
+  code: 'required' | 'optional' | 'none';
+  /** The free-text prompt box, or null when the mode has none. */
+  input: { placeholder: string; required: boolean } | null;
+  fields: ModeInputField[];
+}
+
+type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+interface ChatMessage {
+  role: 'user' | 'model';
+  content: string;
+}
+
+interface ThreadTurn {
+  id: string;
+  /**
+   * The message sent to the model for this turn, as replayed in later turns' history. An opening request sent in
+   * parts keeps a description of the request instead.
+   */
+  prompt: string;
+  /** What the user typed for this turn; empty for the opening request of a thread. */
+  displayPrompt: string;
+  response: string;
+  /** The editor buffer as it was when this turn was sent. */
+  code: string;
+  /** Code the response's first code block is diffed against; empty when the mode shows no diff. */
+  originalCode: string;
+}
+
+interface ChatThread {
+  turns: ThreadTurn[];
+  /** Model-written summary replacing the first `summarizedTurns` turns once the thread nears the context limit. */
+  summary: string;
+  summarizedTurns: number;
+  /** The file the thread was started on; absent in threads saved before it was recorded. */
+  path?: string;
+  language?: Language;
+}
+
+interface HistoryEntry {
+  /** Same as the id of the thread's first turn. */
+  id: string;
+  mode: ModeId;
+  language: Language;
+  code: string;
+  prompt: string;
+  /** The latest response in the thread. */
+  response: string;
+  model: string;
+  timestamp: number;
+  pinned: boolean;
+  thread: ChatThread;
+}
+
+interface WorkspaceFile {
+  id: string;
+  /** Path relative to the workspace root, e.g. `src/utils/math.ts`. */
+  path: string;
+  content: string;
+  language: Language;
+  /** Whether the file is sent as context alongside the active file. */
+  includeInPrompt: boolean;
+}
+
+interface Workspace {
+  files: WorkspaceFile[];
+  activeFileId: string;
+  /** Files shown as editor tabs, in tab order. */
+  openFileIds: string[];
+}
+
+/** A replacement of the range `from`-`to` of a document with `insert`. */
+interface CodeEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+const REVIEW_CATEGORIES = ['bug', 'security', 'performance', 'readability', 'best-practice'] as const;
+
+type ReviewCategory = typeof REVIEW_CATEGORIES[number];
+
+const REVIEW_SEVERITIES = ['high', 'medium', 'low'] as const;
+
+type ReviewSeverity = typeof REVIEW_SEVERITIES[number];
+
+interface ReviewFinding {
+  category: ReviewCategory;
+  severity: ReviewSeverity;
+  /** 1-based, inclusive line range of the reviewed code. */
+  startLine: number;
+  endLine: number;
+  message: string;
+  /** Replacement text for the whole line range, when the model proposed one. */
+  fix?: string;
+}
+
+interface ReviewReport {
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+const SECURITY_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+type SecuritySeverity = typeof SECURITY_SEVERITIES[number];
+
+/** The OWASP Top 10 (2021) categories findings are filed under. */
+const OWASP_CATEGORIES = [
+  'A01:2021 Broken Access Control',
+  'A02:2021 Cryptographic Failures',
+  'A03:2021 Injection',
+  'A04:2021 Insecure Design',
+  'A05:2021 Security Misconfiguration',
+  'A06:2021 Vulnerable and Outdated Components',
+  'A07:2021 Identification and Authentication Failures',
+  'A08:2021 Software and Data Integrity Failures',
+  'A09:2021 Security Logging and Monitoring Failures',
+  'A10:2021 Server-Side Request Forgery',
+] as const;
+
+type OwaspCategory = typeof OWASP_CATEGORIES[number];
+
+interface SecurityFinding {
+  /** e.g. CWE-89 */
+  cwe: string;
+  owasp: OwaspCategory;
+  severity: SecuritySeverity;
+  title: string;
+  /** 1-based, inclusive line range of the audited code. */
+  startLine: number;
+  endLine: number;
+  description: string;
+  /** How an attacker could exploit the weakness. */
+  exploitScenario: string;
+  /** Replacement text for the whole line range that removes the weakness, when there is a local fix. */
+  patch?: string;
+  /** Findings of the local pattern pre-scan that the model did not report as well are kept, marked as such. */
+  source: 'model' | 'pre-scan';
+}
+
+interface SecurityReport {
+  summary: string;
+  findings: SecurityFinding[];
+  /** Numbers of the pre-scan matches, as listed in the prompt, that the model judged to be false positives. */
+  dismissedPreScanMatches?: number[];
+}
+
+const EXPLANATION_DEPTHS = ['overview', 'detailed', 'beginner'] as const;
+
+type ExplanationDepth = typeof EXPLANATION_DEPTHS[number];
+
+/** 1-based, inclusive line range of the explained code. */
+interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+interface ExplanationSection extends LineRange {
+  title: string;
+  /** Markdown. */
+  explanation: string;
+}
+
+interface FunctionComplexity extends LineRange {
+  name: string;
+  /** Big-O notation, e.g. O(n log n). */
+  time: string;
+  space: string;
+  notes: string;
+}
+
+interface CodeExplanation {
+  summary: string;
+  sections: ExplanationSection[];
+  complexity: FunctionComplexity[];
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** A construct or library call of the source that has no direct counterpart in the target language. */
+interface TranslationIdiom {
+  source: string;
+  target: string;
+  note: string;
+}
+
+interface CodeTranslation {
+  /** Set by the app, not the model, so a saved translation knows its languages. */
+  sourceLanguage: Language;
+  targetLanguage: Language;
+  code: string;
+  idioms: TranslationIdiom[];
+  /** The test suite that was sent along and its translation. */
+  sourceTests?: string;
+  /** The language the sent tests were generated in, which can differ from the source when they came from another file. */
+  sourceTestsLanguage?: Language;
+  tests?: string;
+  notes: string;
+}
+
+interface AuthUser {
+  id: string;
+  email: string;
+}
+
+interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl: string;
+  /** Key of the OpenAI-compatible API. Keys are only kept encrypted in storage, never with the other settings. */
+  apiKey: string;
+  /** Gemini requests either go through the local proxy server, which holds the key, or use the user's own key. */
+  geminiKeySource: 'proxy' | 'own-key';
+  geminiApiKey: string;
+  /** Ghost-text completions while typing in the editor; each one is a model request. */
+  inlineCompletions: boolean;
+  /** Asks again, once, when a response's code block does not parse. */
+  syntaxRetry: boolean;
+  /** The Repo mode reads a built-in sample repository instead of the GitHub API, whichever provider answers. */
+  sampleRepository: boolean;
+}
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Requests made outside of a mode that are counted on their own in the usage dashboard. */
+type UsageActivity = 'inline-completion';
+
+/** One model request as recorded for the usage dashboard. */
+interface UsageRecord extends TokenUsage {
+  id: string;
+  timestamp: number;
+  /** Null for conversation summaries, which were recorded before activities existed. */
+  mode: ModeId | UsageActivity | null;
+  providerId: ProviderId;
+  model: string;
+  /** True when the provider reported no usage and the counts were estimated from the text. */
+  estimated: boolean;
+  /** In US dollars; null when the model's price is unknown. */
+  cost: number | null;
+}
 
-const generateContent = async (prompt: string): Promise<string> => {
+// --- BUNDLED: services/authClient.ts ---
+// Talks to the local auth service in server/ (proxied under /api by the Vite dev server).
+const authRequest = async <T,>(path: string, body?: Record<string, string>): Promise<T> => {
+    let response: Response;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
+        response = await fetch(`/api/auth${path}`, {
+            method: body ? 'POST' : 'GET',
+            credentials: 'same-origin',
+            headers: body ? { 'Content-Type': 'application/json' } : undefined,
+            body: body ? JSON.stringify(body) : undefined,
         });
-        return response.text;
-    } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        if (error instanceof Error) {
-            return `Error: ${error.message}`;
-        }
-        return "An unknown error occurred.";
+    } catch {
+        throw new Error("Could not reach the authentication service. Is it running (npm run server)?");
     }
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.error ?? `Authentication request failed (status: ${response.status}).`);
+    }
+    return data;
 };
 
-const analyzeCode = (code: string, problem: string, language: Language): Promise<string> => {
-    const prompt = `
-    You are an expert programmer and code assistant. Analyze the following ${language} code and resolve the described issue.
-    Provide a detailed explanation of the problem, suggest a corrected version of the code, and explain the fix.
-    Format your response in Markdown.
+/** The signed-in user for the current session cookie, or null when signed out. */
+const fetchCurrentUser = async (): Promise<AuthUser | null> => {
+    try {
+        return (await authRequest<{ user: AuthUser }>('/session')).user;
+    } catch {
+        return null;
+    }
+};
 
-    **Issue Description:**
-    ${problem}
+const login = async (email: string, password: string): Promise<AuthUser> => {
+    return (await authRequest<{ user: AuthUser }>('/login', { email, password })).user;
+};
 
-    **Code:**
-    \`\`\`${language.toLowerCase()}
-    ${code}
-    \`\`\`
-    `;
-    return generateContent(prompt);
+const signup = async (email: string, password: string): Promise<AuthUser> => {
+    return (await authRequest<{ user: AuthUser }>('/signup', { email, password })).user;
 };
 
-const generateCode = (description: string, language: Language): Promise<string> => {
-    const prompt = `
-    You are an expert programmer and code generation assistant.
-    Generate a snippet of ${language} code based on the following description.
-    Include a brief explanation of how the code works.
-    Format your response in Markdown, with the code in a proper code block.
+const logout = async (): Promise<void> => {
+    await authRequest('/logout', {});
+};
 
-    **Description:**
-    ${description}
-    `;
-    return generateContent(prompt);
+const requestPasswordReset = async (email: string): Promise<void> => {
+    await authRequest('/password-reset/request', { email });
 };
 
-const debugAndExecuteCode = (code: string, language: Language): Promise<string> => {
-    if (language === 'JavaScript') {
-        try {
-            let output = '';
-            const oldLog = console.log;
-            console.log = (...args) => {
-                output += args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ') + '\n';
-            };
-            new Function(code)();
-            console.log = oldLog;
-            return Promise.resolve(`**Execution Output:**\n\`\`\`\n${output || '(No output to console)'}\n\`\`\``);
-        } catch (e: any) {
-            const errorPrompt = `
-            You are an expert programmer and debugger. The following JavaScript code failed to execute.
-            Analyze the code and the error message, explain the error, and provide a corrected version.
-            Format your response in Markdown.
+const resetPassword = async (token: string, password: string): Promise<AuthUser> => {
+    return (await authRequest<{ user: AuthUser }>('/password-reset/confirm', { token, password })).user;
+};
 
-            **Error Message:**
-            ${e.message}
+// --- BUNDLED: services/structuredOutput.ts ---
+/** The subset of JSON Schema that both Gemini and OpenAI-style structured outputs accept. */
+interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: readonly string[];
+    minimum?: number;
+}
 
-            **Code:**
-            \`\`\`javascript
-            ${code}
-            \`\`\`
-            `;
-            return generateContent(errorPrompt);
+/** Returns a message for every place `value` deviates from `schema`; an empty list means it is valid. */
+const validateJson = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} must be an object`];
+            const record = value as Record<string, unknown>;
+            const missing = (schema.required ?? []).filter(key => record[key] === undefined).map(key => `${path}.${key} is required`);
+            return missing.concat(Object.entries(schema.properties ?? {}).flatMap(([key, propertySchema]) =>
+                record[key] === undefined || record[key] === null ? [] : validateJson(record[key], propertySchema, `${path}.${key}`)
+            ));
         }
+        case 'array':
+            if (!Array.isArray(value)) return [`${path} must be an array`];
+            return schema.items ? value.flatMap((item, i) => validateJson(item, schema.items!, `${path}[${i}]`)) : [];
+        case 'string':
+            if (typeof value !== 'string') return [`${path} must be a string`];
+            return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(', ')}`] : [];
+        case 'integer':
+        case 'number':
+            if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) return [`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+            return schema.minimum !== undefined && value < schema.minimum ? [`${path} must be at least ${schema.minimum}`] : [];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
     }
+};
 
-    const prompt = `
-    You are an expert programmer and code execution simulator.
-    Analyze the following ${language} code. First, identify any potential bugs or errors.
-    If there are errors, explain them and provide a corrected version.
-    If the code is valid, predict and display its output as if it were executed.
-    Format your response in Markdown.
+/** Parses a model's JSON answer, tolerating a surrounding code fence, and checks it against `schema`. */
+const parseJsonResponse = <T,>(text: string, schema: JsonSchema): T => {
+    const json = text.trim().replace(/^```(?:json)?\s*\n/, '').replace(/\n?```$/, '');
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new Error("The response is not valid JSON.");
+    }
+    const errors = validateJson(value, schema);
+    if (errors.length > 0) {
+        throw new Error(`The response does not match the expected format: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''}.`);
+    }
+    return value as T;
+};
 
-    **Code:**
-    \`\`\`${language.toLowerCase()}
-    ${code}
-    \`\`\`
-    `;
-    return generateContent(prompt);
+// Used by the mock provider: the smallest value of the schema's shape, with one item per array so lists are never empty.
+const sampleFromSchema = (schema: JsonSchema): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries((schema.required ?? []).map(key => [key, sampleFromSchema(schema.properties![key])]));
+        case 'array':
+            return schema.items ? [sampleFromSchema(schema.items)] : [];
+        case 'string':
+            return schema.enum?.[0] ?? 'Mock value';
+        case 'integer':
+        case 'number':
+            return schema.minimum ?? 1;
+        case 'boolean':
+            return false;
+    }
 };
 
-const refactorCode = (code: string, language: Language): Promise<string> => {
-    const prompt = `
-    You are an expert programmer specializing in code refactoring.
-    Analyze the following ${language} code and refactor it to improve readability, performance, and adherence to best practices.
-    Provide the refactored code in a proper code block.
-    After the code, provide a bulleted list explaining the key changes you made and why they are beneficial.
-    Format your entire response in Markdown.
+// --- BUNDLED: services/modelErrors.ts ---
+type ModelErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'timeout' | 'server' | 'unknown';
 
-    **Original Code:**
-    \`\`\`${language.toLowerCase()}
-    ${code}
-    \`\`\`
-    `;
-    return generateContent(prompt);
-};
+/** A failed model request, classified so callers can tell transient failures from ones the user has to fix. */
+class ModelError extends Error {
+    readonly kind: ModelErrorKind;
+    readonly status?: number;
+    /** How long the provider asked us to wait before retrying, when it said. */
+    readonly retryAfterMs?: number;
 
-const reviewCode = (code: string, language: Language): Promise<string> => {
-    const prompt = `
-    You are an expert programmer and code reviewer.
-    Analyze the following ${language} code and provide a comprehensive review.
-    DO NOT rewrite or refactor the code. Instead, provide feedback as a bulleted list under the following categories:
-    - **Readability & Style:** Comments on formatting, naming conventions, and clarity.
-    - **Performance & Efficiency:** Suggestions for optimizing loops, data structures, or algorithms.
-    - **Potential Bugs & Vulnerabilities:** Identify any logical errors, edge cases not handled, or security risks.
-    - **Best Practices:** Note any deviations from common ${language} idioms and best practices.
+    constructor(kind: ModelErrorKind, message: string, details: { status?: number; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'ModelError';
+        this.kind = kind;
+        this.status = details.status;
+        this.retryAfterMs = details.retryAfterMs;
+    }
 
-    Format your entire response in Markdown.
+    get isTransient(): boolean {
+        return this.kind === 'quota' || this.kind === 'network' || this.kind === 'timeout' || this.kind === 'server';
+    }
+}
 
-    **Code for Review:**
-    \`\`\`${language.toLowerCase()}
-    ${code}
-    \`\`\`
-    `;
-    return generateContent(prompt);
+// Gemini puts the suggested delay into the error details, e.g. "retryDelay": "8s".
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
 };
 
-const generateDocs = (code: string, language: Language): Promise<string> => {
-    const prompt = `
-    You are an expert programmer specializing in writing clear and concise technical documentation.
-    Analyze the following ${language} code and generate comprehensive documentation for it.
-    The documentation should include:
-    - A high-level summary of what the code does.
-    - For each function or class, describe its purpose, parameters (with types), and return value.
-    - Include code examples for how to use the functions or classes if applicable.
+/** The error for an unsuccessful HTTP response of a provider. */
+const modelErrorFromStatus = (status: number, message: string, retryAfterMs?: number): ModelError => {
+    if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(message))) {
+        return new ModelError('auth', message, { status });
+    }
+    if (status === 429) {
+        return new ModelError('quota', message, { status, retryAfterMs: retryAfterMs ?? parseRetryDelay(message) });
+    }
+    if (status === 408 || status === 504) {
+        return new ModelError('timeout', message, { status });
+    }
+    if (status >= 500) {
+        return new ModelError('server', message, { status });
+    }
+    return new ModelError('unknown', message, { status });
+};
+
+/** Classifies anything a provider threw; errors that are already typed pass through unchanged. */
+const toModelError = (error: unknown): ModelError => {
+    if (error instanceof ModelError) return error;
+    if (error instanceof ApiError) return modelErrorFromStatus(error.status, error.message);
+    const message = error instanceof Error ? error.message : String(error);
+    // fetch rejects with a TypeError when the server can't be reached at all.
+    if (error instanceof TypeError || /failed to fetch|network ?error|load failed|ECONNREFUSED/i.test(message)) {
+        return new ModelError('network', message);
+    }
+    return new ModelError('unknown', message || "An unknown error occurred.");
+};
 
-    Format your entire response in Markdown. Do not include the original code in your response.
+const RETRY_LIMIT = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
 
-    **Code to Document:**
-    \`\`\`${language.toLowerCase()}
-    ${code}
-    \`\`\`
-    `;
-    return generateContent(prompt);
+/**
+ * Exponential backoff with "full jitter": a random delay up to 1s, 2s, 4s, ... so that clients that failed
+ * together don't retry together. A delay the provider asked for is always respected.
+ */
+const getRetryDelay = (attempt: number, error: ModelError): number => {
+    const backoff = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return Math.max(Math.round(backoff), error.retryAfterMs ?? 0);
 };
 
-const generateTests = (code: string, language: Language): Promise<string> => {
-    const prompt = `
-    You are an expert programmer specializing in software testing.
-    Analyze the following ${language} code and generate a suite of unit tests for it.
-    Use a common testing framework for the language (e.g., Jest for JavaScript/TypeScript, PyTest for Python, JUnit for Java, etc.).
-    The tests should cover a variety of cases, including happy paths, edge cases, and error handling.
-    Provide the complete test code in a proper code block, ready to be run.
-    Include a brief explanation of the test cases you've created.
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` is aborted. */
+const waitForRetry = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
 
-    Format your entire response in Markdown.
+// --- BUNDLED: services/modelProviders.ts ---
+interface ModelProvider {
+    readonly id: ProviderId;
+    /**
+     * Streams the model's answer to the last message of `messages`, yielding text deltas as they arrive.
+     * With a `responseSchema`, the provider is asked for JSON matching it instead of free text.
+     */
+    streamChat(messages: ChatMessage[], model: string, signal?: AbortSignal, responseSchema?: JsonSchema, onUsage?: (usage: TokenUsage) => void): AsyncGenerator<string>;
+    /** Counts the input tokens `messages` would use; providers without a counting API estimate. */
+    countTokens(messages: ChatMessage[], model: string, signal?: AbortSignal): Promise<number>;
+}
 
-    **Code to Test:**
-    \`\`\`${language.toLowerCase()}
-    ${code}
-    \`\`\`
-    `;
-    return generateContent(prompt);
-};
+// A rough, provider-independent estimate (~4 characters per token) that is good enough for budgeting.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
 
-const analyzeRepo = (readmeContent: string): Promise<string> => {
-    const prompt = `
-    You are an expert software engineer and project analyst.
-    Analyze the following README.md file content from a GitHub repository.
-    Provide a concise, high-level summary of the project.
-    Your summary should include:
-    - **Project Purpose:** What problem does this project solve?
-    - **Key Features:** What are the main functionalities?
-    - **Tech Stack:** What technologies, languages, or frameworks are mentioned?
-
-    Format your response in Markdown with clear headings for each section.
-
-    **README Content:**
-    ---
-    ${readmeContent}
-    ---
-    `;
-    return generateContent(prompt);
+const estimateMessageTokens = (messages: ChatMessage[]): number => {
+    return messages.reduce((total, message) => total + estimateTokens(message.content), 0);
 };
 
-// --- BUNDLED: components/IconComponents.tsx ---
-const CodeIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
-  </svg>
-);
-const WandIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" />
-  </svg>
-);
-const BugIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-  </svg>
-);
-const SparklesIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-      <path strokeLinecap="round" strokeLinejoin="round" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-6.857 2.143L12 21l-2.143-6.857L3 12l6.857-2.143L12 3z" />
-    </svg>
-);
-const ChecklistIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-        <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
-    </svg>
-);
-const DocumentTextIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-    </svg>
-);
-const BeakerIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h8a2 2 0 002-2v-4a2 2 0 00-2-2h-8a2 2 0 00-2 2v4a2 2 0 002 2z" />
-    </svg>
-);
-const GitHubIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 16 16" fill="currentColor">
-      <path d="M8 0a8 8 0 0 0-2.53 15.59c.4.07.55-.17.55-.38l-.01-1.49c-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48l-.01 2.2c0 .21.15.46.55.38A8 8 0 0 0 8 0z"/>
-    </svg>
-);
-const PlayIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 20 20" fill="currentColor">
-        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-    </svg>
-);
-const CopyIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-  </svg>
-);
-const CheckIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
-  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-  </svg>
-);
-const SunIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
-    </svg>
-);
-const MoonIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
-    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-        <path strokeLinecap="round" strokeLinejoin="round" d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
-    </svg>
-);
+const PROVIDER_OPTIONS: Record<ProviderId, { label: string; defaultModel: string; suggestedModels: string[]; contextTokens: number }> = {
+    'gemini': {
+        label: 'Google Gemini',
+        defaultModel: 'gemini-2.5-pro',
+        suggestedModels: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'],
+        contextTokens: 1048576,
+    },
+    'openai-compatible': {
+        label: 'OpenAI-compatible endpoint',
+        defaultModel: 'llama3.1',
+        suggestedModels: ['llama3.1', 'qwen2.5-coder', 'gpt-4o-mini'],
+        // Local servers are often started with a small context; this is a conservative default.
+        contextTokens: 8192,
+    },
+    'mock': {
+        label: 'Mock (offline)',
+        defaultModel: 'mock-1',
+        suggestedModels: ['mock-1'],
+        contextTokens: 8192,
+    },
+};
 
-// --- BUNDLED: components/LoadingSpinner.tsx ---
-const LoadingSpinner: React.FC = () => {
-  return (
-    <div className="flex flex-col items-center justify-center space-y-4">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary"></div>
-        <p className="text-dark-text-secondary">AI is thinking...</p>
-    </div>
-  );
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: 'gemini',
+    model: PROVIDER_OPTIONS['gemini'].defaultModel,
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    geminiKeySource: 'proxy',
+    geminiApiKey: '',
+    // Off until chosen: every pause in typing would otherwise spend a request from the proxy's rate limit.
+    inlineCompletions: false,
+    syntaxRetry: true,
+    sampleRepository: false,
 };
 
-// --- BUNDLED: components/Auth.tsx ---
-const Auth: React.FC<{ onLogin: () => void; onSignup: () => void; }> = ({ onLogin, onSignup }) => {
-  const [isLoginView, setIsLoginView] = useState(true);
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [error, setError] = useState<string | null>(null);
+// Finish reasons of answers the model stopped because of their content rather than their length.
+const GEMINI_SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
 
-  const validateEmail = (email: string) => {
-    const re = /^(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
-    return re.test(String(email).toLowerCase());
-  };
+interface GeminiRequest {
+    model: string;
+    contents: { role: 'user' | 'model'; parts: { text: string }[] }[];
+    config: { abortSignal?: AbortSignal; responseMimeType?: string; responseJsonSchema?: unknown };
+}
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+// The parts of a streamed response the app reads; SDK responses and the proxy's chunks both have this shape.
+interface GeminiChunk {
+    text?: string;
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+    promptFeedback?: { blockReason?: string };
+    candidates?: { finishReason?: string }[];
+}
+
+/** How Gemini is reached: directly with a key in the browser, or through the local proxy server. */
+interface GeminiTransport {
+    generateContentStream(request: GeminiRequest): Promise<AsyncIterable<GeminiChunk>>;
+    countTokens(request: GeminiRequest): Promise<{ totalTokens?: number }>;
+}
+
+const createGeminiKeyTransport = (apiKey: string): GeminiTransport => {
+    let client: GoogleGenAI | null = null;
+    const getModels = () => {
+        if (!apiKey) {
+            throw new ModelError('auth', "API key missing: add your Gemini API key in Model Settings, or use the server proxy.");
+        }
+        client ??= new GoogleGenAI({ apiKey });
+        return client.models;
+    };
+    return {
+        generateContentStream: request => getModels().generateContentStream(request),
+        countTokens: ({ model, contents, config }) => getModels().countTokens({ model, contents, config: { abortSignal: config.abortSignal } }),
+    };
+};
+
+const GEMINI_PROXY_URL = '/api/model';
+
+const geminiProxyRequest = async (path: string, request: GeminiRequest): Promise<Response> => {
+    const { abortSignal, ...config } = request.config;
+    let response: Response;
+    try {
+        response = await fetch(`${GEMINI_PROXY_URL}${path}`, {
+            method: 'POST',
+            credentials: 'same-origin',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...request, config }),
+            signal: abortSignal,
+        });
+    } catch (error) {
+        if (abortSignal?.aborted) throw error;
+        throw new ModelError('network', "Could not reach the model proxy. Is it running (npm run server)?");
+    }
+    if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw modelErrorFromStatus(response.status, data.error ?? `Model proxy request failed (status: ${response.status}).`, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    return response;
+};
+
+// Reads the proxy's newline-delimited JSON; an `error` line reports a failure after streaming had started.
+async function* readGeminiProxyStream(response: Response): AsyncGenerator<GeminiChunk> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const chunk = JSON.parse(line);
+            if (chunk.error) throw modelErrorFromStatus(chunk.error.status, chunk.error.message);
+            yield chunk;
+        }
+    }
+}
+
+const createGeminiProxyTransport = (): GeminiTransport => ({
+    generateContentStream: async request => readGeminiProxyStream(await geminiProxyRequest('/gemini/stream', request)),
+    countTokens: async request => (await geminiProxyRequest('/gemini/count-tokens', request)).json(),
+});
+
+/** Whether the proxy server has a Gemini key; null when the server can't be reached. */
+const fetchGeminiProxyStatus = async (): Promise<boolean | null> => {
+    try {
+        const response = await fetch(`${GEMINI_PROXY_URL}/status`, { credentials: 'same-origin' });
+        if (!response.ok) return null;
+        return (await response.json()).gemini.configured === true;
+    } catch {
+        return null;
+    }
+};
+
+const createGeminiProvider = (transport: GeminiTransport): ModelProvider => {
+    const toContents = (messages: ChatMessage[]) => messages.map(message => ({ role: message.role, parts: [{ text: message.content }] }));
+    return {
+        id: 'gemini',
+        async *streamChat(messages, model, signal, responseSchema, onUsage) {
+            const stream = await transport.generateContentStream({
+                model,
+                contents: toContents(messages),
+                config: {
+                    abortSignal: signal,
+                    ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+                },
+            });
+            for await (const chunk of stream) {
+                const blockReason = chunk.promptFeedback?.blockReason;
+                if (blockReason) {
+                    throw new ModelError('safety', `The prompt was blocked (${blockReason}).`);
+                }
+                const finishReason = chunk.candidates?.[0]?.finishReason;
+                // Every chunk carries the running totals, so the last report wins.
+                const usage = chunk.usageMetadata;
+                if (usage?.promptTokenCount !== undefined) {
+                    onUsage?.({
+                        inputTokens: usage.promptTokenCount,
+                        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+                    });
+                }
+                yield chunk.text ?? '';
+                if (finishReason && GEMINI_SAFETY_FINISH_REASONS.includes(finishReason)) {
+                    throw new ModelError('safety', `The answer was stopped by the safety filters (${finishReason}).`);
+                }
+            }
+        },
+        async countTokens(messages, model, signal) {
+            const { totalTokens } = await transport.countTokens({ model, contents: toContents(messages), config: { abortSignal: signal } });
+            return totalTokens ?? estimateMessageTokens(messages);
+        },
+    };
+};
+
+// Works with any server that implements the OpenAI chat completions API, e.g. llama.cpp's server or Ollama.
+const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string): ModelProvider => ({
+    id: 'openai-compatible',
+    async *streamChat(messages, model, signal, responseSchema, onUsage) {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: messages.map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.content })),
+                stream: true,
+                ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+            }),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            const detail = await response.text().catch(() => '');
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            throw modelErrorFromStatus(
+                response.status,
+                `Request to ${baseUrl} failed (status: ${response.status}).${detail ? ` ${detail.slice(0, 300)}` : ''}`,
+                retryAfter > 0 ? retryAfter * 1000 : undefined,
+            );
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            // The last event need not end with a newline, so the rest of the buffer is read once the stream ends.
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = done ? '' : lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                const parsed = JSON.parse(data);
+                // Only servers that support it send usage, typically on the final chunk.
+                if (parsed.usage) {
+                    onUsage?.({ inputTokens: parsed.usage.prompt_tokens ?? 0, outputTokens: parsed.usage.completion_tokens ?? 0 });
+                }
+                const delta = parsed.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+                if (parsed.choices?.[0]?.finish_reason === 'content_filter') {
+                    throw new ModelError('safety', "The answer was stopped by the server's content filter.");
+                }
+            }
+            if (done) break;
+        }
+    },
+    // The chat completions API has no counting endpoint.
+    async countTokens(messages) {
+        return estimateMessageTokens(messages);
+    },
+});
+
+// Deterministic, network-free provider: the same prompt always produces the same response.
+const createMockProvider = (): ModelProvider => ({
+    id: 'mock',
+    async *streamChat(messages, model, signal, responseSchema, onUsage) {
+        if (responseSchema) {
+            const sample = JSON.stringify(sampleFromSchema(responseSchema), null, 2);
+            yield sample;
+            onUsage?.({ inputTokens: estimateMessageTokens(messages), outputTokens: estimateTokens(sample) });
+            return;
+        }
+        const prompt = messages[messages.length - 1]?.content ?? '';
+        const firstCodeBlock = prompt.match(/```[^\n]*\n[\s\S]*?```/)?.[0].replace(/^```[^\n]*\n/, '').replace(/```$/, '').trim();
+        const language = prompt.match(/```([a-z+#]+)/)?.[1] ?? '';
+        const response = [
+            `**Mock response** from \`${model}\` for a ${prompt.length}-character prompt (turn ${Math.ceil(messages.length / 2)}).`,
+            '',
+            '- This provider never contacts a model.',
+            '- The first code block of the prompt is echoed back below.',
+            '',
+            '```' + language,
+            firstCodeBlock || '// No code was provided.',
+            '```',
+        ].join('\n');
+        for (const piece of response.match(/\S+\s*/g) ?? []) {
+            if (signal?.aborted) return;
+            await new Promise(resolve => setTimeout(resolve, 5));
+            yield piece;
+        }
+        onUsage?.({ inputTokens: estimateMessageTokens(messages), outputTokens: estimateTokens(response) });
+    },
+    async countTokens(messages) {
+        return estimateMessageTokens(messages);
+    },
+});
+
+const createProvider = (settings: ProviderSettings): ModelProvider => {
+    switch (settings.providerId) {
+        case 'gemini': return createGeminiProvider(settings.geminiKeySource === 'own-key' ? createGeminiKeyTransport(settings.geminiApiKey) : createGeminiProxyTransport());
+        case 'openai-compatible': return createOpenAICompatibleProvider(settings.baseUrl, settings.apiKey);
+        case 'mock': return createMockProvider();
+    }
+};
+
+let activeProviderSettings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS;
+let activeProvider: ModelProvider = createProvider(DEFAULT_PROVIDER_SETTINGS);
+
+const configureProvider = (settings: ProviderSettings) => {
+    activeProviderSettings = settings;
+    activeProvider = createProvider(settings);
+};
+
+// --- BUNDLED: services/codeRunner.ts ---
+interface ExecutionResult {
+    stdout: string;
+    stderr: string;
+    /** Message (and traceback, where the runtime provides one) of an uncaught error. */
+    error?: string;
+    timedOut: boolean;
+    /** The time limit the code ran under, in milliseconds. */
+    timeoutMs: number;
+    killed: boolean;
+    /** Set when the language runtime could not be loaded, e.g. the WASM bundle failed to download. */
+    runtimeUnavailable: boolean;
+    durationMs: number;
+    /** Outcomes reported by a test harness running in the sandbox, in the order the tests ran. */
+    tests?: TestCaseResult[];
+}
+
+interface TestCaseResult {
+    /** Suite names and the test name, joined with " › ". */
+    name: string;
+    status: 'passed' | 'failed' | 'skipped';
+    durationMs: number;
+    /** Assertion or error message of a failed test. */
+    message?: string;
+    stack?: string;
+}
+
+interface ExecutionOptions {
+    timeoutMs?: number;
+    /** Aborting this signal terminates the worker immediately. */
+    signal?: AbortSignal;
+}
+
+// Provided by the Babel Standalone script tag in index.html.
+declare const Babel: { transform(code: string, options: object): { code: string } } | undefined;
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/';
+const SQL_JS_URL = 'https://cdn.jsdelivr.net/npm/sql.js@1.10.3/dist/';
+const DEFAULT_EXECUTION_TIMEOUT_MS = 10000;
+const RUNTIME_LOAD_TIMEOUT_MS = 60000;
+
+// Shared by every worker: message helpers and value formatting that mimics console.log.
+const WORKER_PRELUDE = `
+const send = (type, payload) => self.postMessage(Object.assign({ type }, payload));
+const formatValue = (value) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === 'object' && value !== null) {
+        try { return JSON.stringify(value); } catch (e) { return String(value); }
+    }
+    return String(value);
+};
+const formatArgs = (args) => args.map(formatValue).join(' ') + '\\n';
+const NETWORK_APIS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'SharedWorker'];
+const lockDown = () => {
+    // Assigning over them is not enough: the originals would stay reachable through the global's prototypes.
+    for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+        for (const name of NETWORK_APIS) {
+            if (Object.prototype.hasOwnProperty.call(scope, name)) delete scope[name];
+        }
+    }
+    for (const name of NETWORK_APIS) {
+        Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    }
+};
+`;
+
+const JAVASCRIPT_WORKER = WORKER_PRELUDE + `
+console.log = console.info = console.debug = (...args) => send('stdout', { text: formatArgs(args) });
+console.error = console.warn = (...args) => send('stderr', { text: formatArgs(args) });
+self.addEventListener('unhandledrejection', (event) => send('error', { message: formatValue(event.reason) }));
+self.onmessage = async (event) => {
+    lockDown();
+    send('ready');
+    try {
+        const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+        await new AsyncFunction(event.data.code)();
+        send('done');
+    } catch (e) {
+        send('error', { message: formatValue(e) });
+    }
+};
+`;
+
+const PYTHON_WORKER = WORKER_PRELUDE + `
+let pyodideReady;
+try {
+    importScripts('${PYODIDE_URL}pyodide.js');
+    pyodideReady = loadPyodide({ indexURL: '${PYODIDE_URL}' });
+} catch (e) {
+    pyodideReady = Promise.reject(e);
+}
+self.onmessage = async (event) => {
+    let pyodide;
+    try {
+        pyodide = await pyodideReady;
+        pyodide.setStdout({ batched: (text) => send('stdout', { text: text + '\\n' }) });
+        pyodide.setStderr({ batched: (text) => send('stderr', { text: text + '\\n' }) });
+        await pyodide.loadPackagesFromImports(event.data.code);
+    } catch (e) {
+        send('unavailable', { message: formatValue(e) });
+        return;
+    }
+    lockDown();
+    send('ready');
+    try {
+        await pyodide.runPythonAsync(event.data.code);
+        send('done');
+    } catch (e) {
+        send('error', { message: String(e.message || e) });
+    }
+};
+`;
+
+const SQL_WORKER = WORKER_PRELUDE + `
+let sqlReady;
+try {
+    importScripts('${SQL_JS_URL}sql-wasm.js');
+    sqlReady = initSqlJs({ locateFile: (file) => '${SQL_JS_URL}' + file });
+} catch (e) {
+    sqlReady = Promise.reject(e);
+}
+const formatTable = ({ columns, values }) => {
+    const rows = [columns].concat(values.map((row) => row.map((cell) => cell === null ? 'NULL' : String(cell))));
+    const widths = columns.map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+    const line = (row) => row.map((cell, i) => cell.padEnd(widths[i])).join(' | ');
+    return [line(rows[0]), widths.map((w) => '-'.repeat(w)).join('-+-')].concat(rows.slice(1).map(line)).join('\\n') + '\\n';
+};
+self.onmessage = async (event) => {
+    let SQL;
+    try {
+        SQL = await sqlReady;
+    } catch (e) {
+        send('unavailable', { message: formatValue(e) });
+        return;
+    }
+    lockDown();
+    send('ready');
+    try {
+        const db = new SQL.Database();
+        const results = db.exec(event.data.code);
+        for (const result of results) send('stdout', { text: formatTable(result) + '\\n' });
+        send('stdout', { text: db.getRowsModified() + ' row(s) modified by the last statement.\\n' });
+        db.close();
+        send('done');
+    } catch (e) {
+        send('error', { message: formatValue(e) });
+    }
+};
+`;
+
+const SANDBOX_WORKERS: Partial<Record<Language, string>> = {
+    'JavaScript': JAVASCRIPT_WORKER,
+    'TypeScript': JAVASCRIPT_WORKER,
+    'Python': PYTHON_WORKER,
+    'SQL': SQL_WORKER,
+};
+
+const canExecuteInSandbox = (language: Language): boolean => language in SANDBOX_WORKERS;
+
+const transpileTypeScript = (code: string): string => {
+    if (typeof Babel === 'undefined') {
+        throw new Error('The TypeScript transpiler is not available.');
+    }
+    return Babel.transform(code, { presets: ['typescript'], filename: 'main.ts' }).code;
+};
+
+/**
+ * Runs `code` in a dedicated Web Worker with its network APIs removed; dynamic `import()` is syntax and stays available. The worker is terminated when the
+ * code finishes, when it exceeds `timeoutMs` (measured after the runtime has loaded) or when `signal` aborts.
+ */
+const runCodeInSandbox = (code: string, language: Language, options: ExecutionOptions = {}): Promise<ExecutionResult> => {
+    const { timeoutMs = DEFAULT_EXECUTION_TIMEOUT_MS, signal } = options;
+    return new Promise(resolve => {
+        const source = SANDBOX_WORKERS[language];
+        const base: ExecutionResult = { stdout: '', stderr: '', timedOut: false, timeoutMs, killed: false, runtimeUnavailable: false, durationMs: 0 };
+        if (!source) {
+            resolve({ ...base, runtimeUnavailable: true, error: `No sandbox runtime for ${language}.` });
+            return;
+        }
+        if (language === 'TypeScript') {
+            try {
+                code = transpileTypeScript(code);
+            } catch (e: any) {
+                resolve({ ...base, error: `TypeScript compilation failed: ${e.message}` });
+                return;
+            }
+        }
+
+        const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+        const worker = new Worker(url);
+        let stdout = '';
+        let stderr = '';
+        const tests: TestCaseResult[] = [];
+        let isReady = false;
+        let startedAt = performance.now();
+        let settled = false;
+
+        const finish = (outcome: Partial<ExecutionResult>) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            worker.terminate();
+            URL.revokeObjectURL(url);
+            signal?.removeEventListener('abort', onAbort);
+            resolve({ ...base, stdout, stderr, ...(tests.length > 0 ? { tests } : {}), durationMs: isReady ? Math.round(performance.now() - startedAt) : 0, ...outcome });
+        };
+        const onAbort = () => finish({ killed: true });
+        let timer = setTimeout(() => finish({ runtimeUnavailable: true, error: `The ${language} runtime did not load in time.` }), RUNTIME_LOAD_TIMEOUT_MS);
+
+        worker.onmessage = ({ data }: MessageEvent) => {
+            switch (data.type) {
+                case 'ready':
+                    isReady = true;
+                    startedAt = performance.now();
+                    clearTimeout(timer);
+                    timer = setTimeout(() => finish({ timedOut: true }), timeoutMs);
+                    break;
+                case 'stdout': stdout += data.text; break;
+                case 'stderr': stderr += data.text; break;
+                case 'test': tests.push(data.result); break;
+                case 'done': finish({}); break;
+                case 'error': finish({ error: data.message }); break;
+                case 'unavailable': finish({ runtimeUnavailable: true, error: data.message }); break;
+            }
+        };
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            finish(isReady ? { error: event.message } : { runtimeUnavailable: true, error: event.message });
+        };
+
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort);
+        worker.postMessage({ code });
+    });
+};
+
+const formatExecutionResult = (result: ExecutionResult, language: Language): string => {
+    const sections = [`**Execution Output** (${language} sandbox, ${result.durationMs} ms):\n\`\`\`output\n${result.stdout.trimEnd() || '(No output to console)'}\n\`\`\``];
+    if (result.stderr) {
+        sections.push(`**stderr:**\n\`\`\`output\n${result.stderr.trimEnd()}\n\`\`\``);
+    }
+    if (result.timedOut) {
+        sections.push(`**Execution timed out** after ${result.timeoutMs / 1000} seconds and was terminated.`);
+    }
+    if (result.killed) {
+        sections.push('**Execution stopped.**');
+    }
+    return sections.join('\n\n');
+};
+
+// --- BUNDLED: services/testRunner.ts ---
+const TEST_RUN_TIMEOUT_MS = 30000;
+const TEST_CASE_TIMEOUT_MS = 5000;
+const TEST_RUNNER_LANGUAGES: Language[] = ['JavaScript', 'TypeScript', 'Python'];
+
+const canRunTests = (language: Language): boolean => TEST_RUNNER_LANGUAGES.includes(language);
+
+/** The module name generated tests import the code under test from, derived from the file's path. */
+const testModuleName = (path: string): string => {
+    const name = (path.split('/').pop() ?? '').replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]/g, '_');
+    return /^[A-Za-z_]/.test(name) ? name : 'solution';
+};
+
+const extractFirstCodeBlock = (markdown: string): string | null => {
+    const match = markdown.match(/```(?!output)[^\n]*\n([\s\S]*?)```/);
+    return match ? match[1] : null;
+};
+
+// A Jest-compatible subset (describe/it/test, hooks, expect matchers, jest.fn/spyOn) that reports each test through `send`.
+// Runs in front of the linked code under test and suite inside the JavaScript worker.
+const JEST_HARNESS = `
+const __format = (value) => {
+    if (typeof value === 'string') return JSON.stringify(value);
+    if (typeof value === 'function') return '[Function' + (value.name ? ' ' + value.name : '') + ']';
+    if (typeof value === 'bigint') return value + 'n';
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    if (value instanceof Map) return 'Map ' + __format(Object.fromEntries(value));
+    if (value instanceof Set) return 'Set ' + __format(Array.from(value));
+    if (value && value.__asymmetric) return value.toString();
+    if (typeof value === 'object' && value !== null) {
+        try { return JSON.stringify(value, (key, v) => v === undefined ? '__undefined__' : v).replace(/"__undefined__"/g, 'undefined'); } catch (e) { return String(value); }
+    }
+    return String(value);
+};
+const __asymmetric = (name, matches) => ({ __asymmetric: true, matches, toString: () => name });
+const __equals = (a, b, strict) => {
+    if (b && b.__asymmetric) return b.matches(a);
+    if (a && a.__asymmetric) return a.matches(b);
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    if (a instanceof RegExp && b instanceof RegExp) return String(a) === String(b);
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    if (a instanceof Map && b instanceof Map) return a.size === b.size && Array.from(a).every(([k, v]) => b.has(k) && __equals(v, b.get(k), strict));
+    if (a instanceof Set && b instanceof Set) return a.size === b.size && Array.from(a).every((v) => Array.from(b).some((w) => __equals(v, w, strict)));
+    const keys = (o) => Object.keys(o).filter((k) => strict || o[k] !== undefined);
+    const aKeys = keys(a);
+    const bKeys = keys(b);
+    return aKeys.length === bKeys.length && aKeys.every((k) => Object.prototype.hasOwnProperty.call(b, k) && __equals(a[k], b[k], strict));
+};
+const __matchesObject = (received, expected) => typeof received === 'object' && received !== null &&
+    Object.keys(expected).every((k) => typeof expected[k] === 'object' && expected[k] !== null && !expected[k].__asymmetric && !Array.isArray(expected[k])
+        ? __matchesObject(received[k], expected[k]) : __equals(received[k], expected[k], false));
+const __getPath = (object, path) => {
+    const parts = Array.isArray(path) ? path : String(path).replace(/\\[(\\w+)\\]/g, '.$1').split('.');
+    let current = object;
+    for (const part of parts) {
+        if (current === null || current === undefined || !(part in Object(current))) return { found: false };
+        current = current[part];
+    }
+    return { found: true, value: current };
+};
+class __AssertionError extends Error {}
+__AssertionError.prototype.name = 'AssertionError';
+
+const __matchers = {
+    toBe: (r, e) => ({ pass: Object.is(r, e), expected: e }),
+    toEqual: (r, e) => ({ pass: __equals(r, e, false), expected: e }),
+    toStrictEqual: (r, e) => ({ pass: __equals(r, e, true), expected: e }),
+    toBeTruthy: (r) => ({ pass: !!r }),
+    toBeFalsy: (r) => ({ pass: !r }),
+    toBeNull: (r) => ({ pass: r === null }),
+    toBeUndefined: (r) => ({ pass: r === undefined }),
+    toBeDefined: (r) => ({ pass: r !== undefined }),
+    toBeNaN: (r) => ({ pass: Number.isNaN(r) }),
+    toBeGreaterThan: (r, e) => ({ pass: r > e, expected: e }),
+    toBeGreaterThanOrEqual: (r, e) => ({ pass: r >= e, expected: e }),
+    toBeLessThan: (r, e) => ({ pass: r < e, expected: e }),
+    toBeLessThanOrEqual: (r, e) => ({ pass: r <= e, expected: e }),
+    toBeCloseTo: (r, e, digits = 2) => ({ pass: Math.abs(r - e) < Math.pow(10, -digits) / 2, expected: e }),
+    toBeInstanceOf: (r, e) => ({ pass: r instanceof e, expected: e }),
+    toContain: (r, e) => ({ pass: r != null && (typeof r === 'string' ? r.includes(e) : Array.from(r).includes(e)), expected: e }),
+    toContainEqual: (r, e) => ({ pass: r != null && Array.from(r).some((item) => __equals(item, e, false)), expected: e }),
+    toHaveLength: (r, e) => ({ pass: r != null && r.length === e, expected: e, received: r == null ? r : r.length }),
+    toHaveProperty: (r, path, ...value) => {
+        const { found, value: actual } = __getPath(r, path);
+        return { pass: found && (value.length === 0 || __equals(actual, value[0], false)), expected: value.length ? value[0] : path, received: found ? actual : r };
+    },
+    toMatch: (r, e) => ({ pass: typeof r === 'string' && (e instanceof RegExp ? e.test(r) : r.includes(e)), expected: e }),
+    toMatchObject: (r, e) => ({ pass: __matchesObject(r, e), expected: e }),
+    toThrow: (r, e) => {
+        let thrown = null;
+        if (r && r.__rejected) thrown = { error: r.error };
+        else if (typeof r === 'function') { try { r(); } catch (error) { thrown = { error }; } }
+        if (!thrown) return { pass: false, expected: e, received: 'no error was thrown', raw: true };
+        const error = thrown.error;
+        const message = error && error.message !== undefined ? error.message : String(error);
+        let pass = true;
+        if (typeof e === 'string') pass = message.includes(e);
+        else if (e instanceof RegExp) pass = e.test(message);
+        else if (typeof e === 'function') pass = error instanceof e;
+        else if (e && typeof e === 'object') pass = message === e.message;
+        return { pass, expected: e, received: error };
+    },
+    toHaveBeenCalled: (r) => ({ pass: __mockCalls(r).length > 0, received: __mockCalls(r).length + ' call(s)', raw: true }),
+    toHaveBeenCalledTimes: (r, e) => ({ pass: __mockCalls(r).length === e, expected: e, received: __mockCalls(r).length }),
+    toHaveBeenCalledWith: (r, ...e) => ({ pass: __mockCalls(r).some((call) => __equals(call, e, false)), expected: e, received: __mockCalls(r) }),
+    toHaveBeenLastCalledWith: (r, ...e) => {
+        const calls = __mockCalls(r);
+        return { pass: calls.length > 0 && __equals(calls[calls.length - 1], e, false), expected: e, received: calls[calls.length - 1] };
+    },
+    toHaveReturnedWith: (r, e) => ({ pass: r.mock.results.some((result) => result.type === 'return' && __equals(result.value, e, false)), expected: e }),
+};
+__matchers.toThrowError = __matchers.toThrow;
+__matchers.toBeCalled = __matchers.toHaveBeenCalled;
+__matchers.toBeCalledWith = __matchers.toHaveBeenCalledWith;
+__matchers.toBeCalledTimes = __matchers.toHaveBeenCalledTimes;
+const __mockCalls = (fn) => {
+    if (!fn || !fn.mock) throw new __AssertionError('Expected a mock function (jest.fn() or jest.spyOn()), received ' + __format(fn));
+    return fn.mock.calls;
+};
+
+const __assertion = (name, negated, received, args) => {
+    const outcome = __matchers[name](received, ...args);
+    if (outcome.pass === negated) {
+        const lines = ['expect(received)' + (negated ? '.not' : '') + '.' + name + '(' + (args.length ? 'expected' : '') + ')', ''];
+        if ('expected' in outcome) lines.push('Expected: ' + (negated ? 'not ' : '') + __format(outcome.expected));
+        const shown = 'received' in outcome ? outcome.received : received;
+        lines.push('Received: ' + (outcome.raw ? shown : __format(shown)));
+        throw new __AssertionError(lines.join('\\n'));
+    }
+};
+
+const expect = (received) => {
+    const build = (negated, transform) => {
+        const api = {};
+        for (const name of Object.keys(__matchers)) {
+            api[name] = (...args) => transform
+                ? transform(received).then((value) => __assertion(name, negated, value, args))
+                : __assertion(name, negated, received, args);
+        }
+        return api;
+    };
+    const api = build(false);
+    api.not = build(true);
+    const resolves = (promise) => Promise.resolve(promise).then(
+        (value) => value,
+        (error) => { throw new __AssertionError('Expected the promise to resolve, but it rejected with ' + __format(error)); }
+    );
+    // Rejections are wrapped so toThrow can inspect them; any other matcher sees the rejection reason.
+    const rejects = (name) => (promise) => Promise.resolve(typeof promise === 'function' ? promise() : promise).then(
+        (value) => { throw new __AssertionError('Expected the promise to reject, but it resolved with ' + __format(value)); },
+        (error) => name === 'toThrow' || name === 'toThrowError' ? { __rejected: true, error } : error
+    );
+    api.resolves = build(false, resolves);
+    api.resolves.not = build(true, resolves);
+    api.rejects = {};
+    api.rejects.not = {};
+    for (const name of Object.keys(__matchers)) {
+        api.rejects[name] = build(false, rejects(name))[name];
+        api.rejects.not[name] = build(true, rejects(name))[name];
+    }
+    return api;
+};
+expect.any = (type) => __asymmetric('Any<' + (type.name || type) + '>', (v) => v !== null && v !== undefined && (Object(v) instanceof type || (type === Number && typeof v === 'number') || (type === String && typeof v === 'string') || (type === Boolean && typeof v === 'boolean')));
+expect.anything = () => __asymmetric('Anything', (v) => v !== null && v !== undefined);
+expect.objectContaining = (e) => __asymmetric('ObjectContaining ' + __format(e), (v) => __matchesObject(v, e));
+expect.arrayContaining = (e) => __asymmetric('ArrayContaining ' + __format(e), (v) => Array.isArray(v) && e.every((item) => v.some((w) => __equals(w, item, false))));
+expect.stringContaining = (e) => __asymmetric('StringContaining ' + __format(e), (v) => typeof v === 'string' && v.includes(e));
+expect.stringMatching = (e) => __asymmetric('StringMatching ' + String(e), (v) => typeof v === 'string' && new RegExp(e).test(v));
+expect.assertions = () => {};
+expect.hasAssertions = () => {};
+
+const __mocks = [];
+const __createMock = (implementation) => {
+    let impl = implementation;
+    const once = [];
+    const mock = function (...args) {
+        mock.mock.calls.push(args);
+        mock.mock.instances.push(this);
+        const next = once.length ? once.shift() : impl;
+        try {
+            const value = next ? next.apply(this, args) : undefined;
+            mock.mock.results.push({ type: 'return', value });
+            return value;
+        } catch (error) {
+            mock.mock.results.push({ type: 'throw', value: error });
+            throw error;
+        }
+    };
+    mock.mock = { calls: [], instances: [], results: [] };
+    mock._isMockFunction = true;
+    mock.mockImplementation = (fn) => { impl = fn; return mock; };
+    mock.mockImplementationOnce = (fn) => { once.push(fn); return mock; };
+    mock.mockReturnValue = (value) => mock.mockImplementation(() => value);
+    mock.mockReturnValueOnce = (value) => mock.mockImplementationOnce(() => value);
+    mock.mockResolvedValue = (value) => mock.mockImplementation(() => Promise.resolve(value));
+    mock.mockResolvedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.resolve(value));
+    mock.mockRejectedValue = (value) => mock.mockImplementation(() => Promise.reject(value));
+    mock.mockRejectedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.reject(value));
+    mock.mockReturnThis = () => mock.mockImplementation(function () { return this; });
+    mock.mockClear = () => { mock.mock.calls = []; mock.mock.instances = []; mock.mock.results = []; return mock; };
+    mock.mockReset = () => { mock.mockClear(); impl = undefined; once.length = 0; return mock; };
+    __mocks.push(mock);
+    return mock;
+};
+const jest = {
+    fn: (implementation) => __createMock(implementation),
+    spyOn: (object, method) => {
+        const original = object[method];
+        const spy = __createMock(function (...args) { return original.apply(this, args); });
+        spy.mockRestore = () => { object[method] = original; };
+        object[method] = spy;
+        return spy;
+    },
+    clearAllMocks: () => __mocks.forEach((mock) => mock.mockClear()),
+    resetAllMocks: () => __mocks.forEach((mock) => mock.mockReset()),
+    restoreAllMocks: () => __mocks.forEach((mock) => mock.mockRestore && mock.mockRestore()),
+    mock: (name) => console.warn('jest.mock(' + __format(name) + ') is not supported in the sandbox and was ignored.'),
+    setTimeout: () => {},
+};
+const vi = jest;
+
+const __newSuite = (name) => ({ name, entries: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] });
+const __root = __newSuite('');
+let __currentSuite = __root;
+const describe = (name, fn) => {
+    const suite = __newSuite(String(name));
+    __currentSuite.entries.push({ suite });
+    const parent = __currentSuite;
+    __currentSuite = suite;
+    try { fn(); } finally { __currentSuite = parent; }
+};
+const __addTest = (name, fn, skip, only) => __currentSuite.entries.push({ test: { name: String(name), fn, skip, only } });
+const test = (name, fn) => __addTest(name, fn, !fn);
+// Once anything is marked .only, the tests outside it are reported as skipped.
+let __hasOnly = false;
+const __formatTitle = (title, row, index) => {
+    let i = 0;
+    const values = Array.isArray(row) ? row : [row];
+    return String(title)
+        .replace(/%[sdifjop#%]/g, (token) => token === '%%' ? '%' : token === '%#' ? String(index) : __format(values[i++]).replace(/^"(.*)"$/, '$1'))
+        .replace(/\\$(\\w+)/g, (match, key) => row && typeof row === 'object' && key in row ? __format(row[key]).replace(/^"(.*)"$/, '$1') : match);
+};
+const __each = (register) => (table) => (title, fn) => table.forEach((row, index) =>
+    register(__formatTitle(title, row, index), () => fn(...(Array.isArray(row) ? row : [row]))));
+test.skip = (name) => __addTest(name, null, true);
+test.todo = (name) => __addTest(name, null, true);
+test.only = (name, fn) => { __hasOnly = true; __addTest(name, fn, !fn, true); };
+test.each = __each(test);
+const __skipAll = (suite) => suite.entries.forEach((entry) => entry.test ? entry.test.skip = true : __skipAll(entry.suite));
+describe.skip = (name, fn) => describe(name, () => { fn(); __skipAll(__currentSuite); });
+describe.only = (name, fn) => {
+    __hasOnly = true;
+    describe(name, () => { __currentSuite.only = true; fn(); });
+};
+describe.each = __each(describe);
+const it = test;
+const beforeAll = (fn) => __currentSuite.beforeAll.push(fn);
+const afterAll = (fn) => __currentSuite.afterAll.push(fn);
+const beforeEach = (fn) => __currentSuite.beforeEach.push(fn);
+const afterEach = (fn) => __currentSuite.afterEach.push(fn);
+
+const __call = (fn) => {
+    const run = fn.length > 0
+        ? new Promise((resolve, reject) => { const done = (error) => error ? reject(error) : resolve(); done.fail = reject; fn(done); })
+        : Promise.resolve().then(() => fn());
+    let timer;
+    const timeout = new Promise((resolve, reject) => { timer = setTimeout(() => reject(new Error('Exceeded timeout of ${TEST_CASE_TIMEOUT_MS} ms for a test.')), ${TEST_CASE_TIMEOUT_MS}); });
+    return Promise.race([run, timeout]).finally(() => clearTimeout(timer));
+};
+const __report = (name, status, startedAt, error) => send('test', { result: {
+    name,
+    status,
+    durationMs: Math.round(performance.now() - startedAt),
+    message: error ? (error.message !== undefined ? String(error.message) : __format(error)) : undefined,
+    stack: error && error.stack ? String(error.stack) : undefined,
+} });
+const __runSuite = async (suite, path, beforeEachHooks, afterEachHooks, focused = false) => {
+    const title = (name) => path.concat(name).join(' › ');
+    let setupError = null;
+    for (const hook of suite.beforeAll) {
+        try { await __call(hook); } catch (error) { setupError = setupError || error; }
+    }
+    const allBeforeEach = beforeEachHooks.concat(suite.beforeEach);
+    const allAfterEach = suite.afterEach.concat(afterEachHooks);
+    for (const entry of suite.entries) {
+        if (entry.suite) {
+            await __runSuite(entry.suite, path.concat(entry.suite.name), allBeforeEach, allAfterEach, focused || entry.suite.only);
+            continue;
+        }
+        const startedAt = performance.now();
+        if (entry.test.skip || (__hasOnly && !focused && !entry.test.only)) { __report(title(entry.test.name), 'skipped', startedAt); continue; }
+        let error = setupError;
+        if (!error) {
+            try {
+                for (const hook of allBeforeEach) await __call(hook);
+                await __call(entry.test.fn);
+            } catch (e) { error = e || new Error('Test failed.'); }
+            for (const hook of allAfterEach) {
+                try { await __call(hook); } catch (e) { error = error || e; }
+            }
+        }
+        __report(title(entry.test.name), error ? 'failed' : 'passed', startedAt, error);
+    }
+    for (const hook of suite.afterAll) {
+        try { await __call(hook); } catch (error) { console.error('afterAll hook failed:', error); }
+    }
+};
+const module = { exports: {} };
+const exports = module.exports;
+const require = (name) => {
+    if (name === 'assert' || name === 'node:assert') {
+        const assert = (value, message) => { if (!value) throw new __AssertionError(message || 'Expected value to be truthy, received ' + __format(value)); };
+        return Object.assign(assert, {
+            ok: assert,
+            equal: (a, b, message) => assert(a == b, message || 'Expected ' + __format(a) + ' == ' + __format(b)),
+            strictEqual: (a, b, message) => assert(Object.is(a, b), message || 'Expected ' + __format(a) + ' to be ' + __format(b)),
+            notStrictEqual: (a, b, message) => assert(!Object.is(a, b), message || 'Expected ' + __format(a) + ' not to be ' + __format(b)),
+            deepEqual: (a, b, message) => assert(__equals(a, b, false), message || 'Expected ' + __format(a) + ' to deeply equal ' + __format(b)),
+            deepStrictEqual: (a, b, message) => assert(__equals(a, b, true), message || 'Expected ' + __format(a) + ' to deeply equal ' + __format(b)),
+            throws: (fn, expected, message) => __assertion('toThrow', false, fn, expected === undefined ? [] : [expected]),
+            rejects: async (promise, expected) => expect(promise).rejects.toThrow(expected),
+        });
+    }
+    throw new Error("Cannot import '" + name + "': only the code under test is available in the sandbox.");
+};
+`;
+
+// Modules whose exports the harness already provides as globals.
+const TEST_FRAMEWORK_MODULES = ['@jest/globals', 'vitest', 'jest'];
+
+const isRelativeModule = (source: string): boolean => source.startsWith('.') || source.startsWith('/');
+
+type BabelPlugin = (babel: { types: typeof BabelTypes }) => PluginObj;
+
+const moduleExportName = (node: BabelTypes.Identifier | BabelTypes.StringLiteral): string => node.type === 'Identifier' ? node.name : node.value;
+
+/**
+ * Strips `export` from the code under test so its declarations stay in scope for the suite, and returns the
+ * expression that rebuilds the module's exports.
+ */
+const linkCodeUnderTest = (code: string, language: Language): { code: string; moduleExpression: string } => {
+    const exported: Record<string, string> = {};
+    let topLevelNames: string[] = [];
+    const exposeModule: BabelPlugin = ({ types: t }) => ({
+        visitor: {
+            Program: {
+                exit(path) {
+                    path.scope.crawl();
+                    topLevelNames = Object.entries(path.scope.bindings).filter(([, binding]) => binding.kind !== 'module').map(([name]) => name);
+                },
+            },
+            ExportNamedDeclaration(path) {
+                if (path.node.source) return;
+                if (path.node.declaration) {
+                    path.replaceWith(path.node.declaration);
+                    return;
+                }
+                for (const specifier of path.node.specifiers) {
+                    if (t.isExportSpecifier(specifier)) exported[moduleExportName(specifier.exported)] = specifier.local.name;
+                }
+                path.remove();
+            },
+            ExportDefaultDeclaration(path) {
+                const declaration = path.node.declaration;
+                // A bodiless overload signature is removed by the TypeScript preset.
+                if (t.isTSDeclareFunction(declaration)) return;
+                if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+                    exported['default'] = declaration.id.name;
+                    path.replaceWith(declaration);
+                } else {
+                    exported['default'] = '__defaultExport';
+                    path.replaceWith(t.variableDeclaration('const', [t.variableDeclarator(t.identifier('__defaultExport'), t.toExpression(declaration))]));
+                }
+            },
+        },
+    });
+    const transformed = transpileForTests(code, language, exposeModule);
+    const entries = [...topLevelNames.map(name => [name, name]), ...Object.entries(exported)]
+        .map(([key, local]) => `${JSON.stringify(key)}: typeof ${local} === 'undefined' ? undefined : ${local}`);
+    // CommonJS code under test (module.exports = ...) takes precedence over the collected declarations.
+    const moduleExpression = `typeof module.exports === 'function' ? module.exports : Object.assign({ ${entries.join(', ')} }, module.exports)`;
+    return { code: transformed, moduleExpression };
+};
+
+/** Rewrites the suite's imports of the code under test (any relative path) to read from `__moduleUnderTest`. */
+const linkTestSuite = (tests: string, language: Language): string => {
+    const moduleUnderTest: BabelPlugin = ({ types: t }) => ({
+        visitor: {
+            ImportDeclaration(path) {
+                const source = path.node.source.value;
+                if (TEST_FRAMEWORK_MODULES.includes(source)) {
+                    path.remove();
+                    return;
+                }
+                if (!isRelativeModule(source)) return;
+                path.replaceWithMultiple(path.node.specifiers.map(specifier => {
+                    const value = t.isImportNamespaceSpecifier(specifier)
+                        ? t.identifier('__moduleUnderTest')
+                        : t.memberExpression(t.identifier('__moduleUnderTest'), t.stringLiteral(t.isImportSpecifier(specifier) ? moduleExportName(specifier.imported) : 'default'), true);
+                    return t.variableDeclaration('const', [t.variableDeclarator(t.identifier(specifier.local.name), value)]);
+                }));
+            },
+            CallExpression(path) {
+                const [source] = path.node.arguments;
+                if (t.isIdentifier(path.node.callee, { name: 'require' }) && t.isStringLiteral(source)) {
+                    if (isRelativeModule(source.value)) path.replaceWith(t.identifier('__moduleUnderTest'));
+                    else if (TEST_FRAMEWORK_MODULES.includes(source.value)) path.replaceWith(t.identifier('globalThis'));
+                }
+            },
+        },
+    });
+    return transpileForTests(tests, language, moduleUnderTest);
+};
+
+const transpileForTests = (code: string, language: Language, plugin: BabelPlugin): string => {
+    if (typeof Babel === 'undefined') {
+        throw new Error('The JavaScript transpiler is not available.');
+    }
+    return Babel.transform(code, {
+        filename: language === 'TypeScript' ? 'module.ts' : 'module.js',
+        sourceType: 'module',
+        presets: language === 'TypeScript' ? ['typescript'] : [],
+        plugins: [plugin, 'transform-modules-commonjs'],
+    }).code;
+};
+
+const buildJavaScriptTestProgram = (code: string, tests: string, language: Language): string => {
+    const linked = linkCodeUnderTest(code, language);
+    // The suite gets its own block so its imports may shadow the code's declarations.
+    return `${JEST_HARNESS}\n${linked.code}\nconst __moduleUnderTest = ${linked.moduleExpression};\n{\n${linkTestSuite(tests, language)}\n}\nawait __runSuite(__root, [], [], []);`;
+};
+
+// Pyodide only preloads packages it can see imported, so the suite's imports are repeated in a block that never runs.
+const collectPythonImports = (source: string): string[] => {
+    return Array.from(source.matchAll(/^[ \t]*(?:import\s+([\w., \t]+)|from\s+([\w.]+)\s+import\b)/gm))
+        .filter(([, , fromModule]) => !fromModule?.startsWith('.'))
+        .map(([, imports, fromModule]) => fromModule ? `import ${fromModule}` : `import ${imports.trim()}`);
+};
+
+const buildPythonTestProgram = (code: string, tests: string, moduleName: string): string => {
+    const files = { [`${moduleName}.py`]: code, 'test_generated.py': tests };
+    const imports = [...collectPythonImports(code), ...collectPythonImports(tests)]
+        .filter(line => !line.startsWith(`import ${moduleName}`) && !line.startsWith('import test_generated'));
+    return `
+import json, os, sys
+import js
+import pytest
+
+if False:
+    ${imports.join('\n    ') || 'pass'}
+
+_suite_dir = '/home/pyodide/generated_suite'
+os.makedirs(_suite_dir, exist_ok=True)
+for _name, _source in json.loads(${JSON.stringify(JSON.stringify(files))}).items():
+    with open(os.path.join(_suite_dir, _name), 'w') as _file:
+        _file.write(_source)
+sys.path.insert(0, _suite_dir)
+
+def _report(result):
+    js.postMessage(js.JSON.parse(json.dumps({'type': 'test', 'result': result})))
+
+def _message(report):
+    if isinstance(report.longrepr, tuple):
+        return report.longrepr[2]
+    crash = getattr(report.longrepr, 'reprcrash', None)
+    if crash is not None:
+        return crash.message
+    lines = [line for line in report.longreprtext.splitlines() if line.strip()]
+    return lines[-1] if lines else report.outcome
+
+class _Reporter:
+    def pytest_collectreport(self, report):
+        if report.failed:
+            _report({'name': report.nodeid or 'collection', 'status': 'failed', 'durationMs': 0,
+                     'message': 'Could not collect tests: ' + _message(report), 'stack': report.longreprtext})
+
+    def pytest_runtest_logreport(self, report):
+        if not (report.when == 'call' or (report.when == 'setup' and not report.passed) or (report.when == 'teardown' and report.failed)):
+            return
+        name = report.nodeid.split('::', 1)[-1].replace('::', ' › ')
+        result = {'name': name, 'status': report.outcome, 'durationMs': round(report.duration * 1000)}
+        if not report.passed:
+            result['message'] = _message(report)
+        if report.failed:
+            result['stack'] = report.longreprtext
+        _report(result)
+
+pytest.main(['-q', '-p', 'no:cacheprovider', '--tb=short', os.path.join(_suite_dir, 'test_generated.py')], plugins=[_Reporter()])
+`;
+};
+
+/** Runs a generated suite against `code` in the sandbox; per-test outcomes are in the result's `tests`. */
+const runTestSuite = async (code: string, tests: string, language: Language, moduleName: string, signal?: AbortSignal): Promise<ExecutionResult> => {
+    const base: ExecutionResult = { stdout: '', stderr: '', timedOut: false, timeoutMs: TEST_RUN_TIMEOUT_MS, killed: false, runtimeUnavailable: false, durationMs: 0, tests: [] };
+    if (language === 'Python') {
+        return runCodeInSandbox(buildPythonTestProgram(code, tests, moduleName), 'Python', { timeoutMs: TEST_RUN_TIMEOUT_MS, signal });
+    }
+    if (!canRunTests(language)) {
+        return { ...base, runtimeUnavailable: true, error: `Running ${language} tests is not supported.` };
+    }
+    let program: string;
+    try {
+        program = buildJavaScriptTestProgram(code, tests, language);
+    } catch (e: any) {
+        return { ...base, error: `Could not compile the code or the tests: ${e.message}` };
+    }
+    return runCodeInSandbox(program, 'JavaScript', { timeoutMs: TEST_RUN_TIMEOUT_MS, signal });
+};
+
+// --- BUNDLED: services/historyStore.ts ---
+const HISTORY_DB_NAME = 'code-assistant-pro';
+const HISTORY_DB_VERSION = 1;
+const HISTORY_STORE = 'sessions';
+
+let historyDbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openHistoryDb = (): Promise<IDBDatabase> => {
+    if (!historyDbPromise) {
+        const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+            }
+        };
+        historyDbPromise = requestToPromise(request);
+        historyDbPromise.catch(() => { historyDbPromise = null; });
+    }
+    return historyDbPromise;
+};
+
+const withHistoryStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openHistoryDb();
+    return requestToPromise(run(db.transaction(HISTORY_STORE, mode).objectStore(HISTORY_STORE)));
+};
+
+/** All saved sessions, pinned ones first, then newest first. */
+const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const entries = await withHistoryStore<HistoryEntry[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp);
+};
+
+const saveHistoryEntry = (entry: HistoryEntry): Promise<IDBValidKey> => {
+    return withHistoryStore('readwrite', store => store.put(entry));
+};
+
+const deleteHistoryEntry = (id: string): Promise<undefined> => {
+    return withHistoryStore('readwrite', store => store.delete(id));
+};
+
+// --- BUNDLED: services/keyVault.ts ---
+// API keys are encrypted with an AES-GCM key that is generated in the browser and stored non-extractable in
+// IndexedDB: scripts can use it to decrypt, but it can't be read out, so a copy of localStorage reveals nothing.
+const VAULT_DB_NAME = 'code-assistant-pro-vault';
+const VAULT_STORE = 'keys';
+const VAULT_KEY_ID = 'provider-secrets';
+const SECRETS_STORAGE_KEY = 'providerSecrets';
+
+type ProviderSecrets = Pick<ProviderSettings, 'apiKey' | 'geminiApiKey'>;
+
+const EMPTY_PROVIDER_SECRETS: ProviderSecrets = { apiKey: '', geminiApiKey: '' };
+
+const getVaultKey = async (): Promise<CryptoKey> => {
+    const request = indexedDB.open(VAULT_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(VAULT_STORE);
+    const db = await requestToPromise(request);
+    try {
+        const existing = await requestToPromise<CryptoKey | undefined>(db.transaction(VAULT_STORE, 'readonly').objectStore(VAULT_STORE).get(VAULT_KEY_ID));
+        if (existing) return existing;
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await requestToPromise(db.transaction(VAULT_STORE, 'readwrite').objectStore(VAULT_STORE).put(key, VAULT_KEY_ID));
+        return key;
+    } finally {
+        db.close();
+    }
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const saveProviderSecrets = async (secrets: ProviderSecrets) => {
+    if (!secrets.apiKey && !secrets.geminiApiKey) {
+        localStorage.removeItem(SECRETS_STORAGE_KEY);
+        return;
+    }
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getVaultKey(), new TextEncoder().encode(JSON.stringify(secrets)));
+    localStorage.setItem(SECRETS_STORAGE_KEY, JSON.stringify({ iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) }));
+};
+
+/** The stored keys; empty ones when none are stored or they can't be decrypted (e.g. the site data was partly cleared). */
+const loadProviderSecrets = async (): Promise<ProviderSecrets> => {
+    const stored = localStorage.getItem(SECRETS_STORAGE_KEY);
+    if (!stored) return EMPTY_PROVIDER_SECRETS;
+    try {
+        const { iv, data } = JSON.parse(stored);
+        const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, await getVaultKey(), base64ToBytes(data));
+        return { ...EMPTY_PROVIDER_SECRETS, ...JSON.parse(new TextDecoder().decode(decrypted)) };
+    } catch (e) {
+        console.error("Could not decrypt the stored API keys:", e);
+        return EMPTY_PROVIDER_SECRETS;
+    }
+};
+
+// --- BUNDLED: services/workspace.ts ---
+const MAX_IMPORTED_FILE_BYTES = 512 * 1024;
+// A zip's entries are all inflated at once; these keep a zip bomb of many small-enough files from freezing the tab.
+const MAX_ZIP_ENTRIES = 2000;
+const MAX_ZIP_TOTAL_BYTES = 50 * 1024 * 1024;
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '__pycache__', '.venv', 'target', 'vendor']);
+const UNTITLED_FILE_PATH = 'untitled';
+
+interface ImportedFile {
+    path: string;
+    content: string;
+}
+
+const detectLanguageFromPath = (path: string): Language | null => {
+    const extension = path.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase();
+    return extension ? findLanguageByExtension(extension) : null;
+};
+
+const isImportablePath = (path: string): boolean => {
+    return !path.split('/').some(segment => IGNORED_DIRECTORIES.has(segment)) && detectLanguageFromPath(path) !== null;
+};
+
+const createWorkspaceFile = (path: string, content = '', language: Language = detectLanguageFromPath(path) ?? 'JavaScript'): WorkspaceFile => ({
+    id: crypto.randomUUID(),
+    path,
+    content,
+    language,
+    includeInPrompt: true,
+});
+
+const createWorkspace = (): Workspace => {
+    const file = createWorkspaceFile(UNTITLED_FILE_PATH);
+    return { files: [file], activeFileId: file.id, openFileIds: [file.id] };
+};
+
+/** Adds files (replacing files with the same path) and opens the first one. An empty untitled buffer is dropped. */
+const addWorkspaceFiles = (workspace: Workspace, added: WorkspaceFile[]): Workspace => {
+    if (added.length === 0) return workspace;
+    const addedPaths = new Set(added.map(file => file.path));
+    const kept = workspace.files.filter(file =>
+        !addedPaths.has(file.path) && !(file.path === UNTITLED_FILE_PATH && !file.content.trim())
+    );
+    const files = [...kept, ...added];
+    const fileIds = new Set(files.map(file => file.id));
+    return {
+        files,
+        activeFileId: added[0].id,
+        openFileIds: [...workspace.openFileIds.filter(id => fileIds.has(id)), added[0].id],
+    };
+};
+
+const addFilesToWorkspace = (workspace: Workspace, imported: ImportedFile[]): Workspace => {
+    return addWorkspaceFiles(workspace, imported
+        .sort((a, b) => a.path.localeCompare(b.path))
+        .map(file => createWorkspaceFile(file.path, file.content)));
+};
+
+const removeFileFromWorkspace = (workspace: Workspace, fileId: string): Workspace => {
+    const files = workspace.files.filter(file => file.id !== fileId);
+    if (files.length === 0) return createWorkspace();
+    const openFileIds = workspace.openFileIds.filter(id => id !== fileId);
+    const activeFileId = workspace.activeFileId === fileId ? (openFileIds[openFileIds.length - 1] ?? files[0].id) : workspace.activeFileId;
+    return { files, activeFileId, openFileIds: openFileIds.includes(activeFileId) ? openFileIds : [...openFileIds, activeFileId] };
+};
+
+export const importFromZip = async (zip: Blob, prefix = ''): Promise<ImportedFile[]> => {
+    let entryCount = 0;
+    let totalBytes = 0;
+    const entries = unzipSync(new Uint8Array(await zip.arrayBuffer()), {
+        filter: entry => {
+            if (!isImportablePath(entry.name) || entry.originalSize > MAX_IMPORTED_FILE_BYTES) return false;
+            entryCount++;
+            totalBytes += entry.originalSize;
+            if (entryCount > MAX_ZIP_ENTRIES || totalBytes > MAX_ZIP_TOTAL_BYTES) {
+                throw new Error(`The zip holds more than ${MAX_ZIP_ENTRIES} source files or ${MAX_ZIP_TOTAL_BYTES / 1024 / 1024} MB of them. Import a smaller part of the project.`);
+            }
+            return true;
+        },
+    });
+    return Object.entries(entries).map(([path, data]) => ({ path: prefix + path, content: strFromU8(data) }));
+};
+
+const importFromFiles = async (files: { file: File; path: string }[]): Promise<ImportedFile[]> => {
+    const imported: ImportedFile[] = [];
+    for (const { file, path } of files) {
+        if (/\.zip$/i.test(path)) {
+            imported.push(...await importFromZip(file));
+        } else if (isImportablePath(path) && file.size <= MAX_IMPORTED_FILE_BYTES) {
+            imported.push({ path, content: await file.text() });
+        }
+    }
+    return imported;
+};
+
+// The File System Access API's async iterators are not in TypeScript's DOM lib yet, hence the `any`.
+const importFromDirectoryHandle = async (handle: any, prefix = ''): Promise<ImportedFile[]> => {
+    const files: { file: File; path: string }[] = [];
+    const walk = async (directory: any, path: string) => {
+        for await (const entry of directory.values()) {
+            const entryPath = path ? `${path}/${entry.name}` : entry.name;
+            if (entry.kind === 'directory') {
+                if (!IGNORED_DIRECTORIES.has(entry.name)) await walk(entry, entryPath);
+            } else {
+                files.push({ file: await entry.getFile(), path: entryPath });
+            }
+        }
+    };
+    await walk(handle, prefix);
+    return importFromFiles(files);
+};
+
+const importFromDataTransfer = async (dataTransfer: DataTransfer): Promise<ImportedFile[]> => {
+    const files: { file: File; path: string }[] = [];
+    const readEntry = async (entry: FileSystemEntry | null): Promise<void> => {
+        if (!entry) return;
+        const path = entry.fullPath.replace(/^\//, '');
+        if (entry.isFile) {
+            const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+            files.push({ file, path });
+        } else if (entry.isDirectory && !IGNORED_DIRECTORIES.has(entry.name)) {
+            const reader = (entry as FileSystemDirectoryEntry).createReader();
+            // readEntries returns results in batches; an empty batch means the directory is exhausted.
+            let batch: FileSystemEntry[];
+            do {
+                batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+                for (const child of batch) await readEntry(child);
+            } while (batch.length > 0);
+        }
+    };
+    const entries = Array.from(dataTransfer.items).map(item => item.webkitGetAsEntry());
+    for (const entry of entries) await readEntry(entry);
+    return importFromFiles(files);
+};
+
+/** The "related files" section appended to prompts; empty when no extra files are included. */
+const formatRelatedFiles = (files: WorkspaceFile[]): string => {
+    if (files.length === 0) return '';
+    const sections = files.map(file => `File: ${file.path}\n\`\`\`${file.language.toLowerCase()}\n${file.content}\n\`\`\``);
+    return `**Related Files From the Workspace (for context):**\n${sections.join('\n\n')}`;
+};
+
+// --- BUNDLED: services/githubClient.ts ---
+interface GitHubTreeEntry {
+    path: string;
+    type: 'blob' | 'tree';
+    /** Size in bytes; 0 for directories. */
+    size: number;
+}
+
+/** The subset of the GitHub REST API used by ANALYZE_REPO; swap in `createMockGitHubClient` to work offline. */
+interface GitHubClient {
+    getDefaultBranch(owner: string, repo: string, signal?: AbortSignal): Promise<string>;
+    listBranches(owner: string, repo: string, signal?: AbortSignal): Promise<string[]>;
+    getTree(owner: string, repo: string, ref: string, signal?: AbortSignal): Promise<{ entries: GitHubTreeEntry[]; truncated: boolean }>;
+    getFileContent(owner: string, repo: string, path: string, ref: string, signal?: AbortSignal): Promise<string>;
+}
+
+const GITHUB_REPO_URL_PATTERN = /github\.com\/([^\/]+)\/([^\/#?]+)/;
+
+const parseGitHubRepoUrl = (url: string): { owner: string; repo: string } | null => {
+    const match = url.match(GITHUB_REPO_URL_PATTERN);
+    return match ? { owner: match[1], repo: match[2].replace(/\.git$/, '') } : null;
+};
+
+const createGitHubClient = (token?: string): GitHubClient => {
+    const request = async (path: string, signal?: AbortSignal, accept = 'application/vnd.github+json'): Promise<Response> => {
+        const response = await fetch(`https://api.github.com${path}`, {
+            headers: {
+                Accept: accept,
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            signal,
+        });
+        if (!response.ok) {
+            const hint = response.status === 404
+                ? 'Check the URL, or supply a token if the repository is private.'
+                : response.status === 401 ? 'The access token was rejected.' : 'Check the API rate limits.';
+            throw new Error(`GitHub request failed (status: ${response.status}). ${hint}`);
+        }
+        return response;
+    };
+    const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+    return {
+        async getDefaultBranch(owner, repo, signal) {
+            const data = await (await request(`/repos/${owner}/${repo}`, signal)).json();
+            return data.default_branch;
+        },
+        async listBranches(owner, repo, signal) {
+            const data = await (await request(`/repos/${owner}/${repo}/branches?per_page=100`, signal)).json();
+            return data.map((branch: { name: string }) => branch.name);
+        },
+        async getTree(owner, repo, ref, signal) {
+            const data = await (await request(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`, signal)).json();
+            return {
+                entries: data.tree.map((entry: any) => ({ path: entry.path, type: entry.type === 'tree' ? 'tree' : 'blob', size: entry.size ?? 0 })),
+                truncated: !!data.truncated,
+            };
+        },
+        async getFileContent(owner, repo, path, ref, signal) {
+            const response = await request(`/repos/${owner}/${repo}/contents/${encodePath(path)}?ref=${encodeURIComponent(ref)}`, signal, 'application/vnd.github.raw+json');
+            return response.text();
+        },
+    };
+};
+
+interface MockRepository {
+    defaultBranch: string;
+    branches: string[];
+    files: Record<string, string>;
+}
+
+const SAMPLE_MOCK_REPOSITORY: MockRepository = {
+    defaultBranch: 'main',
+    branches: ['main', 'develop'],
+    files: {
+        'README.md': '# Sample Project\n\nA tiny task tracker used to exercise repository analysis offline.',
+        'package.json': JSON.stringify({ name: 'sample-project', main: 'src/index.js', dependencies: { express: '^4.19.2' } }, null, 2),
+        'src/index.js': "const express = require('express');\nconst { createTaskRouter } = require('./tasks');\n\nconst app = express();\napp.use('/tasks', createTaskRouter());\napp.listen(3000);\n",
+        'src/tasks.js': "const { Router } = require('express');\n\nexports.createTaskRouter = () => {\n  const router = Router();\n  const tasks = [];\n  router.get('/', (req, res) => res.json(tasks));\n  return router;\n};\n",
+    },
+};
+
+export const createMockGitHubClient = (repository: MockRepository = SAMPLE_MOCK_REPOSITORY): GitHubClient => ({
+    async getDefaultBranch() {
+        return repository.defaultBranch;
+    },
+    async listBranches() {
+        return repository.branches;
+    },
+    async getTree() {
+        const directories = new Set<string>();
+        for (const path of Object.keys(repository.files)) {
+            const segments = path.split('/');
+            for (let i = 1; i < segments.length; i++) directories.add(segments.slice(0, i).join('/'));
+        }
+        return {
+            entries: [
+                ...Array.from(directories).map(path => ({ path, type: 'tree' as const, size: 0 })),
+                ...Object.entries(repository.files).map(([path, content]) => ({ path, type: 'blob' as const, size: content.length })),
+            ],
+            truncated: false,
+        };
+    },
+    async getFileContent(owner, repo, path) {
+        if (!(path in repository.files)) throw new Error(`Mock repository has no file ${path}.`);
+        return repository.files[path];
+    },
+});
+
+// --- BUNDLED: services/repoAnalyzer.ts ---
+interface RepoSnapshot {
+    owner: string;
+    repo: string;
+    ref: string;
+    totalFiles: number;
+    /** The file paths listed in the prompt. */
+    paths: string[];
+    /** True when `paths` misses files, because GitHub truncated the tree or the listing outgrew its share of the budget. */
+    pathsTruncated: boolean;
+    sampledFiles: { path: string; content: string; truncated: boolean }[];
+    estimatedTokens: number;
+}
+
+const MANIFEST_FILES = new Set([
+    'package.json', 'tsconfig.json', 'deno.json', 'pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt', 'Pipfile',
+    'go.mod', 'Cargo.toml', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'Gemfile', 'composer.json', 'CMakeLists.txt',
+    'Makefile', 'Dockerfile', 'docker-compose.yml', 'mix.exs', 'pubspec.yaml',
+]);
+const ENTRY_POINT_PATTERN = /(^|\/)(main|index|app|server|cli|__main__|lib|mod)\.[a-z]+$/i;
+const SOURCE_EXTENSION_PATTERN = /\.(js|jsx|mjs|cjs|ts|tsx|py|java|kt|go|rs|c|cc|cpp|h|hpp|cs|rb|php|swift|scala|ex|exs|sh|sql|vue|svelte)$/i;
+const SKIPPED_PATH_PATTERN = /(^|\/)(node_modules|vendor|dist|build|out|coverage|\.git|__pycache__|third_party)\/|(\.min\.|\.lock$|-lock\.|\.map$)/i;
+const MAX_TOKENS_PER_FILE = 6000;
+const DEFAULT_REPO_TOKEN_BUDGET = 60000;
+// The file listing may use this share of the budget; the rest is left for file contents.
+const PATH_LISTING_BUDGET_SHARE = 0.25;
+
+/** Higher is more important: manifests, then README and entry points, then the largest shallow source files. */
+const scoreRepoFile = (entry: GitHubTreeEntry): number => {
+    const name = entry.path.split('/').pop() ?? '';
+    const depth = entry.path.split('/').length - 1;
+    if (SKIPPED_PATH_PATTERN.test(entry.path)) return 0;
+    if (MANIFEST_FILES.has(name)) return 100 - depth * 5;
+    if (/^readme(\.|$)/i.test(name)) return depth === 0 ? 95 : 30;
+    if (!SOURCE_EXTENSION_PATTERN.test(name)) return 0;
+    const isTest = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\./i.test(entry.path);
+    const sizeScore = Math.min(30, Math.log2(Math.max(entry.size, 1)));
+    return (ENTRY_POINT_PATTERN.test(entry.path) ? 60 : 20) + sizeScore - depth * 3 - (isTest ? 25 : 0);
+};
+
+const rankRepoFiles = (entries: GitHubTreeEntry[]): GitHubTreeEntry[] => {
+    return entries
+        .filter(entry => entry.type === 'blob')
+        .map(entry => ({ entry, score: scoreRepoFile(entry) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(({ entry }) => entry);
+};
+
+/** Walks the repository tree and samples the most important files until `tokenBudget` is used up. */
+export const collectRepoSnapshot = async (
+    client: GitHubClient,
+    owner: string,
+    repo: string,
+    ref: string,
+    options: { tokenBudget?: number; signal?: AbortSignal } = {},
+): Promise<RepoSnapshot> => {
+    const { tokenBudget = DEFAULT_REPO_TOKEN_BUDGET, signal } = options;
+    const resolvedRef = ref.trim() || await client.getDefaultBranch(owner, repo, signal);
+    const { entries, truncated: treeTruncated } = await client.getTree(owner, repo, resolvedRef, signal);
+    const allPaths = entries.filter(entry => entry.type === 'blob').map(entry => entry.path);
+    // The file listing itself also goes into the prompt, so it counts against the budget.
+    const paths: string[] = [];
+    let estimatedTokens = 0;
+    for (const path of allPaths) {
+        const tokens = estimateTokens(path + '\n');
+        if (estimatedTokens + tokens > tokenBudget * PATH_LISTING_BUDGET_SHARE) break;
+        paths.push(path);
+        estimatedTokens += tokens;
+    }
+    const sampledFiles: RepoSnapshot['sampledFiles'] = [];
+
+    for (const entry of rankRepoFiles(entries)) {
+        if (estimatedTokens >= tokenBudget) break;
+        // Skip files that clearly can't fit; GitHub reports byte sizes, roughly four per token.
+        if (Math.min(Math.ceil(entry.size / 4), MAX_TOKENS_PER_FILE) > tokenBudget - estimatedTokens) continue;
+        let content = await client.getFileContent(owner, repo, entry.path, resolvedRef, signal);
+        const truncated = estimateTokens(content) > MAX_TOKENS_PER_FILE;
+        if (truncated) content = content.slice(0, MAX_TOKENS_PER_FILE * 4);
+        estimatedTokens += estimateTokens(content);
+        sampledFiles.push({ path: entry.path, content, truncated });
+    }
+
+    const pathsTruncated = treeTruncated || paths.length < allPaths.length;
+    return { owner, repo, ref: resolvedRef, totalFiles: allPaths.length, paths, pathsTruncated, sampledFiles, estimatedTokens };
+};
+
+// --- BUNDLED: services/codeReview.ts ---
+const REVIEW_CATEGORY_LABELS: Record<ReviewCategory, string> = {
+    'bug': 'Bug',
+    'security': 'Security',
+    'performance': 'Performance',
+    'readability': 'Readability',
+    'best-practice': 'Best practice',
+};
+
+const REVIEW_SEVERITY_DIAGNOSTICS: Record<ReviewSeverity, Diagnostic['severity']> = {
+    'high': 'error',
+    'medium': 'warning',
+    'low': 'info',
+};
+
+const REVIEW_REPORT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One paragraph on the overall quality of the code.' },
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    category: { type: 'string', enum: REVIEW_CATEGORIES },
+                    severity: { type: 'string', enum: REVIEW_SEVERITIES },
+                    startLine: { type: 'integer', minimum: 1, description: 'First line of the issue, 1-based.' },
+                    endLine: { type: 'integer', minimum: 1, description: 'Last line of the issue, inclusive.' },
+                    message: { type: 'string' },
+                    fix: { type: 'string', description: 'Replacement text for lines startLine to endLine, including indentation.' },
+                },
+                required: ['category', 'severity', 'startLine', 'endLine', 'message'],
+            },
+        },
+    },
+    required: ['summary', 'findings'],
+};
+
+/** Prefixes every line with its 1-based number so the model can cite line ranges reliably. */
+const numberLines = (code: string): string => {
+    const lines = code.split('\n');
+    const width = String(lines.length).length;
+    return lines.map((line, i) => `${String(i + 1).padStart(width)}| ${line}`).join('\n');
+};
+
+const parseReviewReport = (text: string): ReviewReport => {
+    const report = parseJsonResponse<ReviewReport>(text, REVIEW_REPORT_SCHEMA);
+    return {
+        summary: report.summary,
+        findings: report.findings
+            .map(finding => ({
+                ...finding,
+                endLine: Math.max(finding.startLine, finding.endLine),
+                // Models often end the replacement with a newline the line range does not include.
+                fix: typeof finding.fix === 'string' ? finding.fix.replace(/\n$/, '') : undefined,
+            }))
+            .sort((a, b) => a.startLine - b.startLine),
+    };
+};
+
+/** Combines the reports on consecutive parts of one file, moving each part's line numbers to where it starts in the file. */
+const mergeReviewReports = <F extends { startLine: number; endLine: number },>(
+    parts: { report: { summary: string; findings: F[] }; startLine: number; endLine: number }[]
+): { summary: string; findings: F[] } => ({
+    summary: parts.map(({ report, startLine, endLine }) => `Lines ${startLine}–${endLine}: ${report.summary}`).join('\n\n'),
+    findings: parts.flatMap(({ report, startLine }) => report.findings.map(finding => ({
+        ...finding,
+        startLine: finding.startLine + startLine - 1,
+        endLine: finding.endLine + startLine - 1,
+    }))),
+});
+
+// Diagnostics are mapped through edits by CodeMirror, so the editor (not the line numbers) knows where a finding is now.
+const diagnosticFindings = new WeakMap<Diagnostic, ReviewFinding>();
+
+const findDiagnosticRange = (view: EditorView, finding: ReviewFinding): { from: number; to: number } | null => {
+    let range: { from: number; to: number } | null = null;
+    forEachDiagnostic(view.state, (diagnostic, from, to) => {
+        if (diagnosticFindings.get(diagnostic) === finding) range = { from, to };
+    });
+    return range;
+};
+
+/** Applies a finding's fix at the finding's current position and drops its diagnostic. Returns false if it is not in this editor. */
+const applyFindingFix = (view: EditorView, finding: ReviewFinding): boolean => {
+    const range = findDiagnosticRange(view, finding);
+    if (!range || finding.fix === undefined) return false;
+    view.dispatch({ changes: { ...range, insert: finding.fix }, userEvent: 'input.apply' });
+    const remaining: Diagnostic[] = [];
+    forEachDiagnostic(view.state, (diagnostic, from, to) => {
+        if (diagnosticFindings.get(diagnostic) !== finding) remaining.push(moveDiagnostic(diagnostic, from, to));
+    });
+    view.dispatch(setDiagnostics(view.state, remaining));
+    return true;
+};
+
+/** A copy of `diagnostic` at its current position, still linked to its finding, for passing to `setDiagnostics` again. */
+const moveDiagnostic = (diagnostic: Diagnostic, from: number, to: number): Diagnostic => {
+    const moved = { ...diagnostic, from, to };
+    const finding = diagnosticFindings.get(diagnostic);
+    if (finding) diagnosticFindings.set(moved, finding);
+    return moved;
+};
+
+/** Selects a finding's lines in the editor and scrolls them into view. */
+const revealFinding = (view: EditorView, finding: ReviewFinding): boolean => {
+    const range = findDiagnosticRange(view, finding);
+    if (!range) return false;
+    view.dispatch({ selection: { anchor: range.from, head: range.to }, scrollIntoView: true });
+    view.focus();
+    return true;
+};
+
+/** Turns findings into lint diagnostics for `doc`, with a quick-fix action wherever the model supplied a replacement. */
+const findingsToDiagnostics = (doc: Text, findings: ReviewFinding[], onFixApplied?: (finding: ReviewFinding) => void): Diagnostic[] => {
+    return findings.filter(finding => finding.startLine <= doc.lines).map(finding => {
+        const diagnostic: Diagnostic = {
+            from: doc.line(finding.startLine).from,
+            to: doc.line(Math.min(finding.endLine, doc.lines)).to,
+            severity: REVIEW_SEVERITY_DIAGNOSTICS[finding.severity],
+            source: REVIEW_CATEGORY_LABELS[finding.category],
+            message: finding.message,
+            actions: finding.fix === undefined ? undefined : [{
+                name: 'Apply fix',
+                apply: view => {
+                    if (applyFindingFix(view, finding)) onFixApplied?.(finding);
+                },
+            }],
+        };
+        diagnosticFindings.set(diagnostic, finding);
+        return diagnostic;
+    });
+};
+
+// --- BUNDLED: services/securityAudit.ts ---
+const SECURITY_SEVERITY_REVIEW: Record<SecuritySeverity, ReviewSeverity> = {
+    'critical': 'high',
+    'high': 'high',
+    'medium': 'medium',
+    'low': 'low',
+};
+
+const SECURITY_REPORT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One paragraph on the overall security posture of the code.' },
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    cwe: { type: 'string', description: 'The most specific CWE identifier, e.g. CWE-89.' },
+                    owasp: { type: 'string', enum: OWASP_CATEGORIES },
+                    severity: { type: 'string', enum: SECURITY_SEVERITIES },
+                    title: { type: 'string' },
+                    startLine: { type: 'integer', minimum: 1, description: 'First line of the vulnerable code, 1-based.' },
+                    endLine: { type: 'integer', minimum: 1, description: 'Last line of the vulnerable code, inclusive.' },
+                    description: { type: 'string' },
+                    exploitScenario: { type: 'string', description: 'How an attacker could exploit the weakness, step by step.' },
+                    patch: { type: 'string', description: 'Replacement text for lines startLine to endLine that removes the weakness, including indentation.' },
+                },
+                required: ['cwe', 'owasp', 'severity', 'title', 'startLine', 'endLine', 'description', 'exploitScenario'],
+            },
+        },
+        dismissedPreScanMatches: {
+            type: 'array',
+            description: 'Numbers of the pre-scan matches that are false positives.',
+            items: { type: 'integer', minimum: 1 },
+        },
+    },
+    required: ['summary', 'findings'],
+};
+
+interface PreScanRule {
+    cwe: string;
+    owasp: OwaspCategory;
+    severity: SecuritySeverity;
+    title: string;
+    description: string;
+    exploitScenario: string;
+    matches: (line: string) => boolean;
+    /** Rules for leaked secrets also look at comments, since a key in a comment is just as exposed. */
+    includeComments?: boolean;
+}
+
+// Quoted strings of at least 8 characters that don't look like placeholders or environment lookups.
+const SECRET_ASSIGNMENT = /\b\w*(?:password|passwd|pwd|secret|api_?key|apikey|access_?token|auth_?token|private_?key|client_?secret)\w*['"]?\s*[:=]\s*['"]([^'"\s]{8,})['"]/i;
+const SECRET_PLACEHOLDER = /^(?:x+|\*+|\.+|changeme|password|secret|example|dummy|test\w*|your[\w-]*|<[^>]*>|\$\{[^}]*\}|%\w+%)$/i;
+const SECRET_FORMATS = /\bAKIA[0-9A-Z]{16}\b|\bAIza[0-9A-Za-z_-]{35}\b|\bgh[pousr]_[A-Za-z0-9]{36}\b|\bsk-[A-Za-z0-9_-]{20,}\b|\bxox[abprs]-[A-Za-z0-9-]{10,}|-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/;
+const SQL_STATEMENT = /\b(?:SELECT\s+[\w*,\s.]+\s+FROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i;
+// String concatenation, template/f-string interpolation, %-formatting and .format() next to a SQL statement.
+const STRING_BUILDING = /['"`]\s*\+|\+\s*['"`]|\$\{|\bf['"][^'"]*\{|['"]\s*%\s*[\w(]|\.format\s*\(/;
+
+/**
+ * Patterns that are almost always worth a look. They run locally before the model is asked, so they cost
+ * nothing and show up at once; the model is told about every match and confirms, refines or dismisses it.
+ */
+const PRE_SCAN_RULES: PreScanRule[] = [
+    {
+        cwe: 'CWE-95',
+        owasp: 'A03:2021 Injection',
+        severity: 'high',
+        title: 'Dynamic code evaluation',
+        description: 'Code is built from a string at runtime with eval, new Function, exec or a string passed to setTimeout/setInterval.',
+        exploitScenario: 'If any part of the evaluated string comes from user input, an attacker can run arbitrary code with the privileges of the application.',
+        matches: line => /(?:^|[^\w.$])eval\s*\(|\bnew\s+Function\s*\(|\bset(?:Timeout|Interval)\s*\(\s*['"`]|(?:^|[^\w.$])exec\s*\(\s*(?!['"])/.test(line),
+    },
+    {
+        cwe: 'CWE-89',
+        owasp: 'A03:2021 Injection',
+        severity: 'high',
+        title: 'SQL built by string concatenation',
+        description: 'A SQL statement is assembled from strings instead of using parameters.',
+        exploitScenario: "An attacker supplies a value such as `' OR '1'='1` to change the statement, reading or modifying data they should not reach.",
+        matches: line => SQL_STATEMENT.test(line) && STRING_BUILDING.test(line),
+    },
+    {
+        cwe: 'CWE-78',
+        owasp: 'A03:2021 Injection',
+        severity: 'high',
+        title: 'Shell command built from strings',
+        description: 'A command is run through a shell with a string that is concatenated or interpolated.',
+        exploitScenario: 'An attacker adds shell metacharacters such as `; rm -rf ~` to a value that ends up in the command.',
+        matches: line => /\bos\.system\s*\(|\bshell\s*=\s*True\b|\bexecSync\s*\(\s*(?:`[^`]*\$\{|[^)]*['"]\s*\+)|\bRuntime\.getRuntime\(\)\.exec\s*\(/.test(line),
+    },
+    {
+        cwe: 'CWE-798',
+        owasp: 'A07:2021 Identification and Authentication Failures',
+        severity: 'critical',
+        title: 'Hard-coded secret',
+        description: 'A password, API key, token or private key is written into the source.',
+        exploitScenario: 'Anyone with access to the code, its history or the built bundle can read the secret and use it to impersonate the application.',
+        matches: line => {
+            if (SECRET_FORMATS.test(line)) return true;
+            const match = SECRET_ASSIGNMENT.exec(line);
+            return !!match && !SECRET_PLACEHOLDER.test(match[1]);
+        },
+        includeComments: true,
+    },
+    {
+        cwe: 'CWE-79',
+        owasp: 'A03:2021 Injection',
+        severity: 'medium',
+        title: 'HTML written without escaping',
+        description: 'Markup is inserted with innerHTML, outerHTML, document.write or dangerouslySetInnerHTML.',
+        exploitScenario: 'If the markup contains user-controlled text, an attacker can inject a script that runs in other users\' sessions.',
+        matches: line => /\.(?:inner|outer)HTML\s*\+?=(?!=)|\bdocument\.write(?:ln)?\s*\(|\bdangerouslySetInnerHTML\b|\.insertAdjacentHTML\s*\(/.test(line),
+    },
+    {
+        cwe: 'CWE-502',
+        owasp: 'A08:2021 Software and Data Integrity Failures',
+        severity: 'high',
+        title: 'Unsafe deserialization',
+        description: 'Data is deserialized with a format that can construct arbitrary objects.',
+        exploitScenario: 'An attacker who controls the serialized data can craft a payload that executes code while it is being loaded.',
+        matches: line => /\bpickle\.loads?\s*\(|\byaml\.load\s*\((?![^)]*SafeLoader)|\bunserialize\s*\(|\bObjectInputStream\s*\(|\bMarshal\.load\b/.test(line),
+    },
+    {
+        cwe: 'CWE-328',
+        owasp: 'A02:2021 Cryptographic Failures',
+        severity: 'medium',
+        title: 'Weak hash algorithm',
+        description: 'MD5 or SHA-1 is used, which are broken for security purposes.',
+        exploitScenario: 'If the hash protects passwords or integrity, an attacker can find collisions or crack the hashes quickly.',
+        matches: line => /\bcreateHash\s*\(\s*['"](?:md5|sha1)['"]|\bhashlib\.(?:md5|sha1)\s*\(|\bgetInstance\s*\(\s*"(?:MD5|SHA-?1)"|\bmd5\s*\(/i.test(line),
+    },
+    {
+        cwe: 'CWE-295',
+        owasp: 'A02:2021 Cryptographic Failures',
+        severity: 'high',
+        title: 'TLS certificate verification disabled',
+        description: 'Certificates of TLS connections are not verified.',
+        exploitScenario: 'An attacker on the network can intercept the connection with their own certificate and read or alter the traffic.',
+        matches: line => /\bverify\s*=\s*False\b|\brejectUnauthorized\s*:\s*false\b|NODE_TLS_REJECT_UNAUTHORIZED\s*=\s*['"]?0|\bInsecureSkipVerify\s*:\s*true\b|\bCERT_NONE\b/.test(line),
+    },
+];
+
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#(?!!|include|define)|--|<!--)/;
+// Minified lines are cut so a long line can't make the patterns slow.
+const PRE_SCAN_MAX_LINE_LENGTH = 1000;
+
+/** Runs the local pattern rules over `code`, one finding per rule and line. */
+export const preScanCode = (code: string): SecurityFinding[] => {
+    return code.split('\n').flatMap((fullLine, i) => {
+        const line = fullLine.slice(0, PRE_SCAN_MAX_LINE_LENGTH);
+        const isComment = COMMENT_LINE.test(line);
+        return PRE_SCAN_RULES.filter(rule => (rule.includeComments || !isComment) && rule.matches(line)).map((rule): SecurityFinding => ({
+            cwe: rule.cwe,
+            owasp: rule.owasp,
+            severity: rule.severity,
+            title: rule.title,
+            startLine: i + 1,
+            endLine: i + 1,
+            description: rule.description,
+            exploitScenario: rule.exploitScenario,
+            source: 'pre-scan',
+        }));
+    });
+};
+
+/** Numbers the matches so the model can dismiss them by number. */
+const formatPreScanForPrompt = (findings: SecurityFinding[]): string => {
+    if (findings.length === 0) return 'The pattern pre-scan found nothing.';
+    return findings.map((finding, i) => `${i + 1}. Line ${finding.startLine}: ${finding.cwe} ${finding.title}`).join('\n');
+};
+
+const normalizeCwe = (cwe: string): string => {
+    const id = /\d+/.exec(cwe)?.[0];
+    return id ? `CWE-${id}` : cwe.trim();
+};
+
+const parseSecurityReport = (text: string): SecurityReport => {
+    const report = parseJsonResponse<SecurityReport>(text, SECURITY_REPORT_SCHEMA);
+    return {
+        summary: report.summary,
+        findings: report.findings
+            .map(finding => ({
+                ...finding,
+                cwe: normalizeCwe(finding.cwe),
+                endLine: Math.max(finding.startLine, finding.endLine),
+                // Models often end the replacement with a newline the line range does not include.
+                patch: typeof finding.patch === 'string' ? finding.patch.replace(/\n$/, '') : undefined,
+                // Reports saved by this app keep unconfirmed pre-scan matches; anything else came from the model.
+                source: finding.source === 'pre-scan' ? 'pre-scan' as const : 'model' as const,
+            }))
+            .sort((a, b) => a.startLine - b.startLine),
+        dismissedPreScanMatches: report.dismissedPreScanMatches,
+    };
+};
+
+/**
+ * Adds the pre-scan matches the model neither reported nor dismissed, so a pattern is never lost because the
+ * model overlooked it. `preScan` must be the list the prompt numbered. A model finding covers a match when its
+ * lines include the match and it names the same CWE or OWASP category.
+ */
+export const mergePreScanFindings = (report: SecurityReport, preScan: SecurityFinding[]): SecurityReport => {
+    const { dismissedPreScanMatches = [], ...rest } = report;
+    const unconfirmed = preScan.filter((match, i) => !dismissedPreScanMatches.includes(i + 1) && !report.findings.some(finding =>
+        finding.startLine <= match.startLine && match.endLine <= finding.endLine &&
+        (finding.cwe === match.cwe || finding.owasp === match.owasp)
+    ));
+    return { ...rest, findings: [...report.findings, ...unconfirmed].sort((a, b) => a.startLine - b.startLine) };
+};
+
+/** The review finding a security finding is shown as in the editor, so diagnostics, fixes and reveal work the same way. */
+const securityFindingToReviewFinding = (finding: SecurityFinding): ReviewFinding => ({
+    category: 'security',
+    severity: SECURITY_SEVERITY_REVIEW[finding.severity],
+    startLine: finding.startLine,
+    endLine: finding.endLine,
+    message: `${finding.cwe}: ${finding.title}. ${finding.description}`,
+    fix: finding.patch,
+});
+
+const cweUrl = (cwe: string): string | null => {
+    const id = /^CWE-(\d+)$/.exec(cwe)?.[1];
+    return id ? `https://cwe.mitre.org/data/definitions/${id}.html` : null;
+};
+
+// --- BUNDLED: services/codeExplanation.ts ---
+const EXPLANATION_DEPTH_INSTRUCTIONS: Record<ExplanationDepth, string> = {
+    'overview': 'Give a high-level overview: a few sections covering the main parts of the code, each explained in two or three sentences.',
+    'detailed': 'Give a detailed walkthrough: one section per function, class or logical block, explaining what it does, how and why, including edge cases and non-obvious details.',
+    'beginner': 'Explain for a beginner: walk through the code in small steps, define every technical term and language feature the first time it appears, and use plain language and analogies.',
+};
+
+const DEFAULT_EXPLANATION_DEPTH: ExplanationDepth = 'detailed';
+
+const EXPLANATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'What the code does as a whole, in one paragraph.' },
+        sections: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    startLine: { type: 'integer', minimum: 1, description: 'First line the section explains, 1-based.' },
+                    endLine: { type: 'integer', minimum: 1, description: 'Last line the section explains, inclusive.' },
+                    explanation: { type: 'string', description: 'Markdown.' },
+                },
+                required: ['title', 'startLine', 'endLine', 'explanation'],
+            },
+        },
+        complexity: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', description: 'Name of the function or method.' },
+                    startLine: { type: 'integer', minimum: 1 },
+                    endLine: { type: 'integer', minimum: 1 },
+                    time: { type: 'string', description: 'Time complexity in Big-O notation.' },
+                    space: { type: 'string', description: 'Extra space in Big-O notation.' },
+                    notes: { type: 'string', description: 'What dominates the cost, and the inputs it depends on.' },
+                },
+                required: ['name', 'startLine', 'endLine', 'time', 'space', 'notes'],
+            },
+        },
+    },
+    required: ['summary', 'sections', 'complexity'],
+};
+
+const toExplanationDepth = (value: string | undefined): ExplanationDepth => {
+    const depth = value?.trim().toLowerCase();
+    return EXPLANATION_DEPTHS.find(candidate => candidate === depth) ?? DEFAULT_EXPLANATION_DEPTH;
+};
+
+const parseExplanation = (text: string): CodeExplanation => {
+    const explanation = parseJsonResponse<CodeExplanation>(text, EXPLANATION_SCHEMA);
+    const byStart = <T extends LineRange,>(items: T[]): T[] => items
+        .map(item => ({ ...item, endLine: Math.max(item.startLine, item.endLine) }))
+        .sort((a, b) => a.startLine - b.startLine);
+    return { summary: explanation.summary, sections: byStart(explanation.sections), complexity: byStart(explanation.complexity) };
+};
+
+/** The innermost range containing `line`, so a click inside a nested block picks the block rather than the whole function. */
+const findRangeAtLine = <T extends LineRange,>(ranges: T[], line: number): T | null => {
+    let found: T | null = null;
+    for (const range of ranges) {
+        if (range.startLine <= line && line <= range.endLine && (!found || range.endLine - range.startLine < found.endLine - found.startLine)) {
+            found = range;
+        }
+    }
+    return found;
+};
+
+/** Combines the explanations of consecutive parts of one file, moving each part's line numbers to where it starts in the file. */
+const mergeExplanations = (parts: { explanation: CodeExplanation; startLine: number; endLine: number }[]): CodeExplanation => {
+    const offset = <T extends LineRange,>(items: T[], startLine: number): T[] =>
+        items.map(item => ({ ...item, startLine: item.startLine + startLine - 1, endLine: item.endLine + startLine - 1 }));
+    return {
+        summary: parts.map(({ explanation, startLine, endLine }) => `Lines ${startLine}–${endLine}: ${explanation.summary}`).join('\n\n'),
+        sections: parts.flatMap(({ explanation, startLine }) => offset(explanation.sections, startLine)),
+        complexity: parts.flatMap(({ explanation, startLine }) => offset(explanation.complexity, startLine)),
+    };
+};
+
+const setHighlightedLines = StateEffect.define<LineRange | null>();
+
+const highlightedLineDecoration = Decoration.line({ class: 'cm-linked-line' });
+
+/** Marks the lines an explanation section refers to; set with `highlightLines`. */
+const lineHighlightField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update: (decorations, transaction) => {
+        decorations = decorations.map(transaction.changes);
+        for (const effect of transaction.effects) {
+            if (!effect.is(setHighlightedLines)) continue;
+            const range = effect.value;
+            const doc = transaction.state.doc;
+            if (!range || range.startLine > doc.lines) {
+                decorations = Decoration.none;
+                continue;
+            }
+            const lines = [];
+            for (let line = range.startLine; line <= Math.min(range.endLine, doc.lines); line++) {
+                lines.push(highlightedLineDecoration.range(doc.line(line).from));
+            }
+            decorations = Decoration.set(lines);
+        }
+        return decorations;
+    },
+    provide: field => EditorView.decorations.from(field),
+});
+
+const lineHighlightTheme = EditorView.baseTheme({
+    '&light .cm-linked-line': { backgroundColor: 'rgba(14, 165, 233, 0.15)' },
+    '&dark .cm-linked-line': { backgroundColor: 'rgba(14, 165, 233, 0.25)' },
+});
+
+/** Highlights `range` in the editor, or clears the highlight; with `reveal` it also scrolls there and moves the cursor. */
+const highlightLines = (view: EditorView, range: LineRange | null, reveal = false) => {
+    const doc = view.state.doc;
+    if (reveal && range && range.startLine <= doc.lines) {
+        view.dispatch({
+            effects: setHighlightedLines.of(range),
+            selection: { anchor: doc.line(range.startLine).from },
+            scrollIntoView: true,
+        });
+        view.focus();
+    } else {
+        view.dispatch({ effects: setHighlightedLines.of(range) });
+    }
+};
+
+// --- BUNDLED: services/codeTranslation.ts ---
+const TRANSLATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        code: { type: 'string', description: 'The complete translated code, without a code fence.' },
+        idioms: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    source: { type: 'string', description: 'The construct or call in the source code.' },
+                    target: { type: 'string', description: 'What the translation uses instead.' },
+                    note: { type: 'string', description: 'How the behaviour differs, if at all.' },
+                },
+                required: ['source', 'target', 'note'],
+            },
+        },
+        tests: { type: 'string', description: 'The complete translated test suite, without a code fence.' },
+        notes: { type: 'string', description: 'Anything the reader must check or finish by hand, in Markdown.' },
+    },
+    required: ['code', 'idioms', 'notes'],
+};
+
+/** The first language that isn't `source`, preferring the usual porting targets. */
+const defaultTargetLanguage = (source: Language): Language => {
+    return (['TypeScript', 'Python', 'Go'] as Language[]).find(language => language !== source && LANGUAGES.includes(language)) ?? LANGUAGES.find(language => language !== source)!;
+};
+
+// Models sometimes wrap code in a fence despite the schema.
+const stripCodeFence = (code: string): string => {
+    const match = /^\s*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n?\1\s*$/.exec(code);
+    return match ? match[2] : code;
+};
+
+const parseTranslation = (text: string, languages?: { sourceLanguage: Language; targetLanguage: Language }): CodeTranslation => {
+    const translation = parseJsonResponse<CodeTranslation>(text, TRANSLATION_SCHEMA);
+    const sourceLanguage = languages?.sourceLanguage ?? findLanguage(translation.sourceLanguage ?? '');
+    const targetLanguage = languages?.targetLanguage ?? findLanguage(translation.targetLanguage ?? '');
+    if (!sourceLanguage || !targetLanguage) {
+        throw new Error("The translation does not say which languages it is between.");
+    }
+    return {
+        sourceLanguage,
+        targetLanguage,
+        code: stripCodeFence(translation.code),
+        idioms: translation.idioms,
+        sourceTests: typeof translation.sourceTests === 'string' ? translation.sourceTests : undefined,
+        sourceTestsLanguage: findLanguage(translation.sourceTestsLanguage ?? '') ?? undefined,
+        tests: typeof translation.tests === 'string' && translation.tests.trim() ? stripCodeFence(translation.tests) : undefined,
+        notes: translation.notes,
+    };
+};
+
+// --- BUNDLED: services/markdown.ts ---
+type MarkdownSegment =
+    | { type: 'html'; html: string }
+    /** `closed` is false while the closing fence has not streamed in yet. */
+    | { type: 'code'; language: string; code: string; closed: boolean };
+
+// A private instance, so the link hook below doesn't leak into other users of DOMPurify.
+const markdownPurifier = DOMPurify(window);
+markdownPurifier.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName === 'A' && node.getAttribute('href')) {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer');
+    }
+});
+
+const CLOSING_FENCE_PATTERN = /(^|\n) {0,3}(`{3,}|~{3,})\s*$/;
+
+const renderMarkdownTokens = (tokens: Token[], links: TokensList['links']): string => {
+    const html = marked.parser(Object.assign(tokens, { links }), { gfm: true });
+    return markdownPurifier.sanitize(html);
+};
+
+/**
+ * Parses CommonMark/GFM into sanitized HTML, split around top-level code blocks so those can be
+ * rendered as editors, diffs or diagrams instead.
+ */
+const parseMarkdown = (content: string): MarkdownSegment[] => {
+    const tokens = marked.lexer(content, { gfm: true });
+    const segments: MarkdownSegment[] = [];
+    let pending: Token[] = [];
+    const flush = () => {
+        const html = pending.length > 0 ? renderMarkdownTokens(pending, tokens.links) : '';
+        if (html.trim()) {
+            segments.push({ type: 'html', html });
+        }
+        pending = [];
+    };
+    for (const token of tokens) {
+        if (token.type !== 'code') {
+            pending.push(token);
+            continue;
+        }
+        flush();
+        const { lang, text, raw, codeBlockStyle } = token as Tokens.Code;
+        segments.push({
+            type: 'code',
+            // Only the first word of the info string names the language, e.g. "python title=app.py".
+            language: (lang ?? '').trim().split(/\s+/)[0],
+            code: text,
+            closed: codeBlockStyle === 'indented' || CLOSING_FENCE_PATTERN.test(raw.trimEnd()),
+        });
+    }
+    flush();
+    return segments;
+};
+
+let mermaidLoader: Promise<typeof import('mermaid').default> | null = null;
+
+/** Renders a Mermaid diagram to sanitized SVG, loading Mermaid on first use. */
+const renderMermaidDiagram = async (source: string, dark: boolean): Promise<string> => {
+    mermaidLoader ??= import('mermaid').then(module => module.default);
+    const mermaid = await mermaidLoader;
+    // 'strict' escapes HTML in labels and disables click handlers, since diagrams come from model output or shared links.
+    // Plain SVG text labels, rather than HTML in <foreignObject>, let the result go through DOMPurify's SVG profile.
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', htmlLabels: false, theme: dark ? 'dark' : 'default' });
+    const { svg } = await mermaid.render(`mermaid-${crypto.randomUUID()}`, source);
+    return DOMPurify.sanitize(svg, { USE_PROFILES: { svg: true, svgFilters: true } });
+};
+
+// --- BUNDLED: services/codeQuality.ts ---
+interface SyntaxProblem {
+    /** 1-based, like the editor's line numbers. */
+    line: number;
+    /** 1-based. */
+    column: number;
+    message: string;
+}
+
+/** A syntax problem in one of a response's code blocks; blocks are numbered from 1 in order of appearance. */
+interface CodeBlockProblem extends SyntaxProblem {
+    block: number;
+    language: Language;
+}
+
+const canFormat = (language: Language): boolean => !!LANGUAGE_REGISTRY[language].format;
+
+/** Formats `code`, keeping whether it ends with a newline. Throws with the formatter's first message line if it can't parse the code. */
+export const formatCode = async (code: string, language: Language): Promise<string> => {
+    const format = LANGUAGE_REGISTRY[language].format;
+    if (!format) throw new Error(`There is no formatter for ${language}.`);
+    let formatted: string;
+    try {
+        formatted = await format(code);
+    } catch (e: any) {
+        // Prettier appends a code frame, and the WebAssembly formatters throw plain strings.
+        const message = String(e?.message ?? e).split('\n')[0];
+        throw new Error(`Could not format the ${language} code: ${message}`);
+    }
+    return formatted.replace(/\n+$/, '') + (code.endsWith('\n') ? '\n' : '');
+};
+
+const firstErrorPosition = (grammar: LRLanguage, code: string): number | null => {
+    let position: number | null = null;
+    grammar.parser.parse(code).iterate({
+        enter: node => {
+            if (position !== null) return false;
+            if (node.type.isError) position = node.from;
+        },
+    });
+    return position;
+};
+
+const describeSyntaxError = (code: string, position: number): SyntaxProblem => {
+    const before = code.slice(0, position);
+    const token = code.slice(position).match(/^\s*([\w$]+|\S)/)?.[1];
+    return {
+        line: before.split('\n').length,
+        column: position - before.lastIndexOf('\n'),
+        message: token ? `Unexpected "${token}"` : 'Unexpected end of code',
+    };
+};
+
+/** The first syntax error in `code`, or null if it parses or the language can't be checked. */
+export const checkSyntax = (code: string, language: Language): SyntaxProblem | null => {
+    let first: number | null = null;
+    for (const grammar of LANGUAGE_REGISTRY[language].grammars?.() ?? []) {
+        const position = firstErrorPosition(grammar, code);
+        if (position === null) return null;
+        first ??= position;
+    }
+    return first === null ? null : describeSyntaxError(code, first);
+};
+
+// Fences only highlighted like a supported language; their code wouldn't parse or format as that language.
+const HIGHLIGHT_ONLY_FENCES = new Set(['xml', 'c#', 'cs', 'csharp', 'kotlin', 'kt']);
+
+/** The language a code fence's code is formatted and checked as; null where the fence is unknown or only highlighted like one. */
+const findFenceLanguage = (fence: string): Language | null => {
+    return HIGHLIGHT_ONLY_FENCES.has(fence.trim().toLowerCase()) ? null : findLanguage(fence);
+};
+
+/** The first syntax error in a code block with the given fence language; null for fences that can't be checked. */
+export const checkCodeBlockSyntax = (fence: string, code: string): (SyntaxProblem & { language: Language }) | null => {
+    const language = findFenceLanguage(fence);
+    if (!language) return null;
+    const problem = checkSyntax(code, language);
+    return problem && { ...problem, language };
+};
+
+/** Syntax problems in the complete code blocks of a response. */
+export const findCodeBlockProblems = (content: string): CodeBlockProblem[] => {
+    const blocks = parseMarkdown(content).filter((segment): segment is Extract<MarkdownSegment, { type: 'code' }> => segment.type === 'code' && segment.closed);
+    return blocks.flatMap((block, index) => {
+        const problem = checkCodeBlockSyntax(block.language, block.code);
+        return problem ? [{ ...problem, block: index + 1 }] : [];
+    });
+};
+
+const formatSyntaxProblem = (problem: SyntaxProblem): string => `line ${problem.line}, column ${problem.column}: ${problem.message}`;
+
+/** The follow-up that asks once more for an answer whose code doesn't parse. */
+export const buildSyntaxRetryPrompt = (problems: CodeBlockProblem[]): string => [
+    'Some code in your answer does not parse:',
+    ...problems.map(problem => `- Code block ${problem.block} (${problem.language}), ${formatSyntaxProblem(problem)}`),
+    'Please answer again in full, with code that parses.',
+].join('\n');
+
+// --- BUNDLED: services/modeRegistry.ts ---
+const MODE_STORAGE_KEY = 'modeDefinitions';
+const CUSTOM_MODE_PREFIX = 'custom:';
+const MODE_EXPORT_VERSION = 1;
+
+interface PromptVariable {
+    name: string;
+    description: string;
+}
+
+/** Variables every template can use, in addition to the mode's own fields. */
+const PROMPT_VARIABLES: PromptVariable[] = [
+    { name: 'code', description: 'Content of the active file' },
+    { name: 'language', description: 'Selected language, e.g. TypeScript' },
+    { name: 'languageId', description: 'Lower-case language, for code fences' },
+    { name: 'input', description: 'Text typed into the prompt box' },
+    { name: 'relatedFiles', description: 'Other workspace files included in the prompt' },
+];
+
+// Variables only the built-in behaviour of these modes can fill in.
+const MODE_SPECIFIC_VARIABLES: Partial<Record<AiMode, PromptVariable[]>> = {
+    'REVIEW': [{ name: 'code', description: 'Content of the active file, with line numbers' }],
+    'SECURITY_AUDIT': [
+        { name: 'code', description: 'Content of the active file, with line numbers' },
+        { name: 'preScan', description: 'Matches of the local pattern pre-scan' },
+    ],
+    'TRANSLATE': [
+        { name: 'targetLanguage', description: 'Language to translate into' },
+        { name: 'targetLanguageId', description: 'Lower-case target language, for code fences' },
+        { name: 'tests', description: 'The generated tests and how to translate them, when they are included' },
+    ],
+    'EXPLAIN': [
+        { name: 'code', description: 'Content of the active file, with line numbers' },
+        { name: 'depthInstructions', description: 'How deep to go, from the Depth field' },
+    ],
+    'GENERATE_TESTS': [{ name: 'framework', description: 'Which test framework to use and how to import the code' }],
+    'ANALYZE_REPO': [
+        { name: 'repository', description: 'owner/name of the repository' },
+        { name: 'ref', description: 'Branch, tag or commit that was analyzed' },
+        { name: 'fileCount', description: 'Number of files in the repository' },
+        { name: 'paths', description: 'Listing of every file path' },
+        { name: 'files', description: 'Contents of the sampled files' },
+    ],
+};
+
+const CODE_SECTION = (heading: string) => `**${heading}:**\n\`\`\`{{languageId}}\n{{code}}\n\`\`\``;
+
+const BUILT_IN_MODES: Record<AiMode, ModeDefinition> = {
+    'ASSIST': {
+        id: 'ASSIST',
+        label: 'Assist',
+        icon: 'code',
+        code: 'required',
+        input: { placeholder: 'Describe the issue...', required: true },
+        fields: [],
+        template: `You are an expert programmer and code assistant. Analyze the following {{language}} code and resolve the described issue.
+Provide a detailed explanation of the problem, suggest a corrected version of the code, and explain the fix.
+Format your response in Markdown.
+
+**Issue Description:**
+{{input}}
+
+${CODE_SECTION('Code')}
+
+{{relatedFiles}}`,
+    },
+    'GENERATE': {
+        id: 'GENERATE',
+        label: 'Generate',
+        icon: 'wand',
+        code: 'none',
+        input: { placeholder: 'Describe the code you want...', required: true },
+        fields: [],
+        template: `You are an expert programmer and code generation assistant.
+Generate a snippet of {{language}} code based on the following description.
+Include a brief explanation of how the code works.
+Format your response in Markdown, with the code in a proper code block.
+
+**Description:**
+{{input}}
+
+{{relatedFiles}}`,
+    },
+    'DEBUG': {
+        id: 'DEBUG',
+        label: 'Debug',
+        icon: 'bug',
+        code: 'required',
+        input: null,
+        fields: [],
+        // Used when the code can't run in the sandbox; failures inside the sandbox get a dedicated error-analysis prompt.
+        template: `You are an expert programmer and code execution simulator.
+Analyze the following {{language}} code. First, identify any potential bugs or errors.
+If there are errors, explain them and provide a corrected version.
+If the code is valid, predict and display its output as if it were executed.
+Format your response in Markdown.
+
+${CODE_SECTION('Code')}`,
+    },
+    'REFACTOR': {
+        id: 'REFACTOR',
+        label: 'Refactor',
+        icon: 'sparkles',
+        code: 'required',
+        input: null,
+        fields: [],
+        template: `You are an expert programmer specializing in code refactoring.
+Analyze the following {{language}} code and refactor it to improve readability, performance, and adherence to best practices.
+Provide the refactored code in a proper code block.
+After the code, provide a bulleted list explaining the key changes you made and why they are beneficial.
+Format your entire response in Markdown.
+
+${CODE_SECTION('Original Code')}
+
+{{relatedFiles}}`,
+    },
+    'REVIEW': {
+        id: 'REVIEW',
+        label: 'Review',
+        icon: 'checklist',
+        code: 'required',
+        input: null,
+        fields: [],
+        template: `You are an expert programmer and code reviewer.
+Analyze the following {{language}} code and provide a comprehensive review.
+DO NOT rewrite or refactor the code as a whole. Instead, report each issue as a separate finding with one of these categories:
+- **bug:** Logical errors and edge cases that are not handled.
+- **security:** Vulnerabilities and unsafe handling of input or secrets.
+- **performance:** Inefficient loops, data structures, or algorithms.
+- **readability:** Formatting, naming conventions, and clarity.
+- **best-practice:** Deviations from common {{language}} idioms and best practices.
+
+Each finding must give the 1-based line range it refers to, a severity (high, medium or low) and a concise message.
+When a local change fixes the issue, set "fix" to the complete replacement text for exactly that line range, including indentation.
+Also give a one-paragraph summary of the overall code quality.
+Respond with JSON only.
+
+**Code for Review** (each line is prefixed with its line number and "|", which are not part of the code):
+\`\`\`{{languageId}}
+{{code}}
+\`\`\`
+
+{{relatedFiles}}`,
+    },
+    'SECURITY_AUDIT': {
+        id: 'SECURITY_AUDIT',
+        label: 'Security',
+        icon: 'shield',
+        code: 'required',
+        input: null,
+        fields: [],
+        template: `You are an application security expert performing a security audit.
+Analyze the following {{language}} code for vulnerabilities an attacker could exploit. Ignore style and performance.
+Report each vulnerability as a separate finding with:
+- The most specific CWE identifier (e.g. CWE-89) and the OWASP Top 10 (2021) category it falls under.
+- A severity: critical, high, medium or low, based on how easily it is exploited and what an attacker gains.
+- The 1-based line range of the vulnerable code, a short title and a description of the weakness.
+- A concrete exploit scenario describing what an attacker sends or does and what happens.
+- When a local change removes the weakness, set "patch" to the complete replacement text for exactly that line range, including indentation.
+
+A local pattern pre-scan flagged the numbered lines below. Report each match that is a real vulnerability as a finding.
+List the numbers of the matches that are false positives in "dismissedPreScanMatches".
+
+**Pre-scan Matches:**
+{{preScan}}
+
+Also give a one-paragraph summary of the security posture of the code.
+Respond with JSON only.
+
+**Code to Audit** (each line is prefixed with its line number and "|", which are not part of the code):
+\`\`\`{{languageId}}
+{{code}}
+\`\`\`
+
+{{relatedFiles}}`,
+    },
+    'EXPLAIN': {
+        id: 'EXPLAIN',
+        label: 'Explain',
+        icon: 'lightbulb',
+        code: 'required',
+        input: null,
+        fields: [{ name: 'depth', label: 'Depth', type: 'select', options: [...EXPLANATION_DEPTHS], required: true }],
+        template: `You are an experienced engineer walking a new team member through unfamiliar code.
+Explain the following {{language}} code.
+{{depthInstructions}}
+
+Split the explanation into sections in reading order. Each section has a title, the 1-based line range it explains and the explanation in Markdown.
+Sections may nest (e.g. a function and a loop inside it), but every line that matters should be covered by a section.
+For every function or method, also give its time and space complexity in Big-O notation, with a short note on what dominates the cost.
+Start with a one-paragraph summary of what the code does as a whole.
+Respond with JSON only.
+
+**Code to Explain** (each line is prefixed with its line number and "|", which are not part of the code):
+\`\`\`{{languageId}}
+{{code}}
+\`\`\`
+
+{{relatedFiles}}`,
+    },
+    'TRANSLATE': {
+        id: 'TRANSLATE',
+        label: 'Translate',
+        icon: 'globe',
+        code: 'required',
+        input: null,
+        fields: [],
+        template: `You are an expert programmer fluent in both {{language}} and {{targetLanguage}}.
+Translate the following {{language}} code into idiomatic {{targetLanguage}}, keeping its behaviour and public interface.
+Use the standard library and common conventions of {{targetLanguage}} instead of copying {{language}} patterns line by line.
+List every idiom, language feature or library call that does not map one-to-one, with what you used instead and how the behaviour differs.
+In the notes, mention anything that needs a decision or manual work, such as missing third-party libraries.
+Respond with JSON only.
+
+${CODE_SECTION('Code to Translate')}
+
+{{tests}}
+
+{{relatedFiles}}`,
+    },
+    'GENERATE_DOCS': {
+        id: 'GENERATE_DOCS',
+        label: 'Docs',
+        icon: 'document',
+        code: 'required',
+        input: null,
+        fields: [],
+        template: `You are an expert programmer specializing in writing clear and concise technical documentation.
+Analyze the following {{language}} code and generate comprehensive documentation for it.
+The documentation should include:
+- A high-level summary of what the code does.
+- For each function or class, describe its purpose, parameters (with types), and return value.
+- Include code examples for how to use the functions or classes if applicable.
+
+Format your entire response in Markdown. Do not include the original code in your response.
+
+${CODE_SECTION('Code to Document')}
+
+{{relatedFiles}}`,
+    },
+    'GENERATE_TESTS': {
+        id: 'GENERATE_TESTS',
+        label: 'Tests',
+        icon: 'beaker',
+        code: 'required',
+        input: null,
+        fields: [],
+        template: `You are an expert programmer specializing in software testing.
+Analyze the following {{language}} code and generate a suite of unit tests for it.
+{{framework}}
+The tests should cover a variety of cases, including happy paths, edge cases, and error handling.
+Provide the complete test code in a proper code block, ready to be run.
+Include a brief explanation of the test cases you've created.
+
+Format your entire response in Markdown.
+
+${CODE_SECTION('Code to Test')}
+
+{{relatedFiles}}`,
+    },
+    'ANALYZE_REPO': {
+        id: 'ANALYZE_REPO',
+        label: 'Repo',
+        icon: 'github',
+        code: 'none',
+        input: { placeholder: 'Enter GitHub repo URL', required: true },
+        fields: [],
+        template: `You are an expert software engineer and project analyst.
+Analyze the GitHub repository {{repository}} at ref "{{ref}}" using its file listing and the sampled files below.
+The files were chosen by importance (manifests, README, entry points, the largest source files); not every file is included.
+Your analysis should include:
+- **Project Purpose:** What problem does this project solve?
+- **Key Features:** What are the main functionalities?
+- **Architecture Overview:** The main components, how they interact and how data flows between them.
+- **Dependencies:** A table of the external dependencies found in the manifests, with what each is used for.
+- **Module Map:** A nested list of the important directories and files with a one-line description of each.
+- **Tech Stack:** Languages, frameworks and tooling.
+
+Base every statement on the provided files; say so when something is inferred from file names only.
+Format your response in Markdown with clear headings for each section.
+
+**File Listing ({{fileCount}} files):**
+---
+{{paths}}
+---
+
+**Sampled Files:**
+{{files}}`,
+    },
+};
+
+const BUILT_IN_MODE_IDS = Object.keys(BUILT_IN_MODES) as AiMode[];
+
+const MODE_FIELD_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        label: { type: 'string' },
+        type: { type: 'string', enum: MODE_FIELD_TYPES },
+        options: { type: 'array', items: { type: 'string' } },
+        placeholder: { type: 'string' },
+        required: { type: 'boolean' },
+    },
+    required: ['name', 'label', 'type', 'required'],
+};
+
+const MODE_DEFINITION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        label: { type: 'string' },
+        icon: { type: 'string', enum: MODE_ICON_NAMES },
+        template: { type: 'string' },
+        code: { type: 'string', enum: ['required', 'optional', 'none'] },
+        input: {
+            type: 'object',
+            properties: { placeholder: { type: 'string' }, required: { type: 'boolean' } },
+            required: ['placeholder', 'required'],
+        },
+        fields: { type: 'array', items: MODE_FIELD_SCHEMA },
+    },
+    // `input` may be null, but not missing.
+    required: ['id', 'label', 'icon', 'template', 'code', 'input', 'fields'],
+};
+
+const MODE_EXPORT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        version: { type: 'integer' },
+        modes: { type: 'array', items: MODE_DEFINITION_SCHEMA },
+    },
+    required: ['version', 'modes'],
+};
+
+const isBuiltInMode = (id: ModeId): id is AiMode => Object.prototype.hasOwnProperty.call(BUILT_IN_MODES, id);
+
+export const createCustomMode = (): ModeDefinition => ({
+    id: `${CUSTOM_MODE_PREFIX}${crypto.randomUUID()}`,
+    label: 'New mode',
+    icon: 'lightbulb',
+    code: 'optional',
+    input: { placeholder: 'Describe what you need...', required: true },
+    fields: [],
+    template: `You are an expert {{language}} programmer.
+{{input}}
+
+${CODE_SECTION('Code')}
+
+{{relatedFiles}}`,
+});
+
+/** Replaces `{{name}}` placeholders; unknown names are left in place so mistakes stay visible. */
+export const renderPromptTemplate = (template: string, variables: Record<string, string>): string => {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => Object.hasOwn(variables, name) ? variables[name] : placeholder);
+};
+
+/** Returns a problem with the definition, or null if it can be saved. */
+export const validateModeDefinition = (definition: ModeDefinition): string | null => {
+    if (!definition.label.trim()) return 'The mode needs a name.';
+    if (!definition.template.trim()) return 'The prompt template is empty.';
+    if (!isBuiltInMode(definition.id) && !definition.id.startsWith(CUSTOM_MODE_PREFIX)) return `Unknown mode id "${definition.id}".`;
+    const reserved = new Set([...PROMPT_VARIABLES, ...(isBuiltInMode(definition.id) ? MODE_SPECIFIC_VARIABLES[definition.id] ?? [] : [])].map(variable => variable.name));
+    const names = new Set<string>();
+    for (const field of definition.fields) {
+        if (!/^[A-Za-z_]\w*$/.test(field.name)) return `Field name "${field.name}" must be a single word of letters, digits and underscores.`;
+        if (reserved.has(field.name)) return `Field name "${field.name}" is already a built-in variable.`;
+        if (names.has(field.name)) return `There are two fields named "${field.name}".`;
+        if (field.type === 'select' && !field.options?.length) return `The select field "${field.name}" needs at least one option.`;
+        names.add(field.name);
+    }
+    return null;
+};
+
+// Built-in modes keep their behaviour (inputs and code usage); only the presentation, template and extra fields can change.
+const applyModeOverride = (builtIn: ModeDefinition, override?: ModeDefinition): ModeDefinition => {
+    return override ? { ...builtIn, label: override.label, icon: override.icon, template: override.template, fields: override.fields } : builtIn;
+};
+
+const mergeModeDefinitions = (stored: ModeDefinition[]): ModeDefinition[] => {
+    const builtIns = BUILT_IN_MODE_IDS.map(id => applyModeOverride(BUILT_IN_MODES[id], stored.find(definition => definition.id === id)));
+    return [...builtIns, ...stored.filter(definition => !isBuiltInMode(definition.id))];
+};
+
+const loadModeDefinitions = (): ModeDefinition[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(MODE_STORAGE_KEY) ?? '[]');
+        return mergeModeDefinitions(Array.isArray(stored) ? stored.filter(definition => validateJson(definition, MODE_DEFINITION_SCHEMA).length === 0) : []);
+    } catch (e) {
+        console.error("Could not load saved modes:", e);
+        return mergeModeDefinitions([]);
+    }
+};
+
+/** Stores custom modes and the built-in modes that differ from their defaults. */
+const saveModeDefinitions = (definitions: ModeDefinition[]) => {
+    const changed = definitions.filter(definition =>
+        !isBuiltInMode(definition.id) || JSON.stringify(definition) !== JSON.stringify(BUILT_IN_MODES[definition.id])
+    );
+    localStorage.setItem(MODE_STORAGE_KEY, JSON.stringify(changed));
+};
+
+const exportModeDefinitions = (definitions: ModeDefinition[]): string => {
+    return JSON.stringify({ version: MODE_EXPORT_VERSION, modes: definitions }, null, 2);
+};
+
+/** Merges modes from an export into `current`; modes with the same id are replaced. */
+export const importModeDefinitions = (json: string, current: ModeDefinition[]): { definitions: ModeDefinition[]; imported: number } => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    const problems = validateJson(parsed, MODE_EXPORT_SCHEMA);
+    if (problems.length > 0) {
+        throw new Error(`The file is not a mode export: ${problems.slice(0, 3).join('; ')}.`);
+    }
+    const { modes } = parsed as { version: number; modes: ModeDefinition[] };
+    for (const definition of modes) {
+        const problem = validateModeDefinition(definition);
+        if (problem) throw new Error(`"${definition.label || definition.id}": ${problem}`);
+    }
+    const importedIds = new Set(modes.map(definition => definition.id));
+    const merged = mergeModeDefinitions([
+        ...current.filter(definition => !importedIds.has(definition.id)),
+        ...modes,
+    ]);
+    return { definitions: merged, imported: modes.length };
+};
+
+let activeModeDefinitions: ModeDefinition[] = mergeModeDefinitions([]);
+
+const configureModes = (definitions: ModeDefinition[]) => {
+    activeModeDefinitions = definitions;
+};
+
+const getModeDefinition = (id: ModeId): ModeDefinition | undefined => {
+    return activeModeDefinitions.find(definition => definition.id === id);
+};
+
+// --- BUNDLED: services/tokenBudget.ts ---
+interface ModelPrice {
+    /** US dollars per million tokens. */
+    input: number;
+    output: number;
+    /** Prompts longer than `threshold` tokens are billed at these rates instead. */
+    longContext?: { threshold: number; input: number; output: number };
+}
+
+// Published list prices; models that are missing here (e.g. local ones) show no cost.
+const MODEL_PRICING: Record<string, ModelPrice> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10, longContext: { threshold: 200000, input: 2.5, output: 15 } },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+/** Cost of a request in US dollars, or null when the model's price is unknown. */
+const estimateCost = (providerId: ProviderId, model: string, usage: TokenUsage): number | null => {
+    if (providerId === 'mock') return 0;
+    const price = MODEL_PRICING[model];
+    if (!price) return null;
+    const rates = price.longContext && usage.inputTokens > price.longContext.threshold ? price.longContext : price;
+    return (usage.inputTokens * rates.input + usage.outputTokens * rates.output) / 1e6;
+};
+
+const formatCost = (cost: number): string => {
+    if (cost === 0) return '$0';
+    return cost < 0.01 ? `<$0.01` : `$${cost.toFixed(2)}`;
+};
+
+// Rough answer sizes: a fixed part plus a share of the submitted code, since e.g. a refactoring repeats all of it.
+const OUTPUT_ESTIMATES: Record<AiMode, { base: number; perCodeToken: number }> = {
+    'ASSIST': { base: 800, perCodeToken: 0.5 },
+    'GENERATE': { base: 1500, perCodeToken: 0 },
+    'DEBUG': { base: 800, perCodeToken: 0.5 },
+    'REFACTOR': { base: 300, perCodeToken: 1.2 },
+    'REVIEW': { base: 600, perCodeToken: 0.3 },
+    'SECURITY_AUDIT': { base: 800, perCodeToken: 0.4 },
+    'EXPLAIN': { base: 600, perCodeToken: 0.8 },
+    'TRANSLATE': { base: 500, perCodeToken: 1.3 },
+    'GENERATE_DOCS': { base: 400, perCodeToken: 1.3 },
+    'GENERATE_TESTS': { base: 800, perCodeToken: 1.5 },
+    'ANALYZE_REPO': { base: 2000, perCodeToken: 0 },
+};
+const CUSTOM_MODE_OUTPUT_ESTIMATE = { base: 1000, perCodeToken: 0.5 };
+
+const getOutputEstimate = (mode: ModeId) => isBuiltInMode(mode) ? OUTPUT_ESTIMATES[mode] : CUSTOM_MODE_OUTPUT_ESTIMATE;
+
+const estimateOutputTokens = (mode: ModeId, codeTokens: number): number => {
+    const { base, perCodeToken } = getOutputEstimate(mode);
+    return Math.ceil(base + codeTokens * perCodeToken);
+};
+
+// Token counts of code are estimated from its length, so chunks leave some room for the estimate being low.
+const CHUNK_SAFETY_MARGIN = 0.9;
+
+/**
+ * The most code tokens a single request of `mode` can carry when the rest of the prompt takes `overheadTokens`:
+ * the prompt and the expected answer must both fit into the context window.
+ */
+const maxCodeTokensPerRequest = (mode: ModeId, contextTokens: number, overheadTokens: number): number => {
+    const { base, perCodeToken } = getOutputEstimate(mode);
+    return Math.max(0, Math.floor((contextTokens - overheadTokens - base) / (1 + perCodeToken) * CHUNK_SAFETY_MARGIN));
+};
+
+/** The size of a request's prompt, split into its code and the rest. */
+interface TokenCount {
+    mode: ModeId;
+    /** The prompt that was counted, so a count that lags behind the inputs can be recognized. */
+    prompt: string;
+    tokens: number;
+    codeTokens: number;
+    overheadTokens: number;
+}
+
+interface RequestBudget {
+    inputTokens: number;
+    outputTokens: number;
+    contextTokens: number;
+    cost: number | null;
+    isOverLimit: boolean;
+    maxCodeTokens: number;
+}
+
+/** Estimates the count locally, for when the provider has not counted `prompt` (yet). */
+const estimateTokenCount = (mode: ModeId, prompt: string, code: string): TokenCount => {
+    const codeTokens = estimateTokens(code);
+    return { mode, prompt, tokens: estimateMessageTokens([{ role: 'user', content: prompt }]), codeTokens, overheadTokens: estimateTokens(prompt) - codeTokens };
+};
+
+interface CodeChunk {
+    code: string;
+    /** 1-based, inclusive line range of the chunk in the original code. */
+    startLine: number;
+    endLine: number;
+}
+
+// A line that starts a top-level declaration or follows a blank line is a natural place to split.
+const isChunkBoundary = (lines: string[], index: number): boolean => {
+    return lines[index - 1]?.trim() === '' || (/^\S/.test(lines[index]) && !/^[})\]]/.test(lines[index]));
+};
+
+/**
+ * Splits code into chunks of at most `maxTokens` (estimated), cutting between whole lines and preferring
+ * blank lines and top-level declarations. A single line longer than the limit becomes a chunk of its own.
+ */
+const splitCodeIntoChunks = (code: string, maxTokens: number): CodeChunk[] => {
+    const lines = code.split('\n');
+    const chunks: CodeChunk[] = [];
+    let start = 0;
+    while (start < lines.length) {
+        let end = start;
+        let tokens = estimateTokens(lines[start]) + 1;
+        let boundary = -1;
+        while (end + 1 < lines.length && tokens + estimateTokens(lines[end + 1]) + 1 <= maxTokens) {
+            end++;
+            tokens += estimateTokens(lines[end]) + 1;
+            if (isChunkBoundary(lines, end)) boundary = end;
+        }
+        // Back up to the last boundary unless that would waste more than half of the chunk.
+        if (end + 1 < lines.length && boundary > start && boundary - start >= (end - start) / 2) {
+            end = boundary - 1;
+        }
+        chunks.push({ code: lines.slice(start, end + 1).join('\n'), startLine: start + 1, endLine: end + 1 });
+        start = end + 1;
+    }
+    return chunks;
+};
+
+/** Keeps the leading whole lines of `code` that fit into `maxTokens` (estimated). */
+const trimCodeToTokens = (code: string, maxTokens: number): CodeChunk => {
+    const lines = code.split('\n');
+    let tokens = 0;
+    let end = 0;
+    while (end < lines.length && tokens + estimateTokens(lines[end]) + 1 <= maxTokens) {
+        tokens += estimateTokens(lines[end]) + 1;
+        end++;
+    }
+    return { code: lines.slice(0, end).join('\n'), startLine: 1, endLine: end };
+};
+
+// --- BUNDLED: services/usageStore.ts ---
+const USAGE_STORAGE_KEY = 'usageRecords';
+// Old records are dropped beyond this many so localStorage stays small.
+const MAX_USAGE_RECORDS = 5000;
+
+interface UsageTotals extends TokenUsage {
+    requests: number;
+    /** Sum over the requests with a known price. */
+    cost: number;
+    /** Requests whose model has no known price and so are missing from `cost`. */
+    unpricedRequests: number;
+}
+
+interface UsageSummary {
+    total: UsageTotals;
+    /** Oldest day first; days without requests are included so charts have no gaps. */
+    days: ({ date: string } & UsageTotals)[];
+    /** Most expensive mode first. */
+    modes: ({ mode: ModeId | UsageActivity | null } & UsageTotals)[];
+}
+
+const loadUsageRecords = (): UsageRecord[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+        console.error("Could not load usage records:", e);
+        return [];
+    }
+};
+
+const recordUsage = (record: Omit<UsageRecord, 'id' | 'timestamp' | 'cost'>): UsageRecord => {
+    const saved: UsageRecord = {
+        ...record,
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        cost: estimateCost(record.providerId, record.model, record),
+    };
+    try {
+        localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify([...loadUsageRecords(), saved].slice(-MAX_USAGE_RECORDS)));
+    } catch (e) {
+        console.error("Could not save usage record:", e);
+    }
+    return saved;
+};
+
+const clearUsageRecords = () => {
+    localStorage.removeItem(USAGE_STORAGE_KEY);
+};
+
+const emptyUsageTotals = (): UsageTotals => ({ inputTokens: 0, outputTokens: 0, requests: 0, cost: 0, unpricedRequests: 0 });
+
+const addToUsageTotals = (totals: UsageTotals, record: UsageRecord) => {
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.requests++;
+    if (record.cost === null) {
+        totals.unpricedRequests++;
+    } else {
+        totals.cost += record.cost;
+    }
+};
+
+// Local calendar day, e.g. 2024-05-31.
+const toDateKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/** Totals of the last `days` days (today included), per day and per mode. */
+const summarizeUsage = (records: UsageRecord[], days: number, now = Date.now()): UsageSummary => {
+    const dayTotals = new Map<string, UsageTotals>();
+    for (let i = days - 1; i >= 0; i--) {
+        const date = new Date(now);
+        date.setDate(date.getDate() - i);
+        dayTotals.set(toDateKey(date.getTime()), emptyUsageTotals());
+    }
+    const modeTotals = new Map<ModeId | UsageActivity | null, UsageTotals>();
+    const total = emptyUsageTotals();
+    for (const record of records) {
+        const day = dayTotals.get(toDateKey(record.timestamp));
+        if (!day) continue;
+        addToUsageTotals(day, record);
+        addToUsageTotals(total, record);
+        if (!modeTotals.has(record.mode)) modeTotals.set(record.mode, emptyUsageTotals());
+        addToUsageTotals(modeTotals.get(record.mode)!, record);
+    }
+    return {
+        total,
+        days: [...dayTotals].map(([date, totals]) => ({ date, ...totals })),
+        modes: [...modeTotals]
+            .map(([mode, totals]) => ({ mode, ...totals }))
+            .sort((a, b) => b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens)),
+    };
+};
+
+// --- BUNDLED: services/geminiService.ts ---
+interface StreamOptions {
+    /** Called with the accumulated response text every time a new chunk arrives. */
+    onChunk?: (text: string) => void;
+    /** Aborting this signal stops the stream; the text received so far is returned. */
+    signal?: AbortSignal;
+    /** Earlier turns of the conversation, sent ahead of the prompt. */
+    history?: ChatMessage[];
+    /** Requests JSON matching this schema instead of Markdown. */
+    responseSchema?: JsonSchema;
+    /** Values of the mode's extra input fields, available to its prompt template. */
+    variables?: Record<string, string>;
+    /** The mode or activity the request's tokens are attributed to in the usage records. */
+    mode?: ModeId | UsageActivity;
+    /** Called before a transient failure is retried; `attempt` counts the retries, starting at 1. */
+    onRetry?: (error: ModelError, attempt: number, delayMs: number) => void;
+    /** Called with the prompt of each request as it is sent. */
+    onPrompt?: (prompt: string) => void;
+}
+
+// Thinking models can be silent for a while before the first chunk, so only a long silence counts as a timeout.
+const RESPONSE_IDLE_TIMEOUT_MS = 120000;
+
+/** Records the usage the provider reported, or an estimate from the text when it reported none. */
+const recordRequestUsage = (mode: ModeId | UsageActivity | null, messages: ChatMessage[], text: string, reported: TokenUsage | null) => {
+    if (!reported && !text) return;
+    recordUsage({
+        mode,
+        providerId: activeProviderSettings.providerId,
+        model: activeProviderSettings.model,
+        inputTokens: reported?.inputTokens ?? estimateMessageTokens(messages),
+        outputTokens: reported?.outputTokens ?? estimateTokens(text),
+        estimated: !reported,
+    });
+};
+
+/**
+ * Streams the answer to `prompt`. Failures are thrown as a `ModelError`; transient ones are retried with
+ * backoff as long as nothing has been received yet. Aborting `options.signal` returns the text so far.
+ */
+const generateContent = async (prompt: string, options: StreamOptions = {}): Promise<string> => {
+    const { onChunk, signal, history = [], responseSchema, onRetry, onPrompt } = options;
+    const messages: ChatMessage[] = [...history, { role: 'user', content: prompt }];
+    onPrompt?.(prompt);
+    const providerLabel = PROVIDER_OPTIONS[activeProvider.id].label;
+    for (let attempt = 0; ; attempt++) {
+        let text = '';
+        let usage: TokenUsage | null = null;
+        // Each attempt gets its own controller so a timeout can end it without aborting the whole request.
+        const attemptController = new AbortController();
+        const abortAttempt = () => attemptController.abort();
+        signal?.addEventListener('abort', abortAttempt, { once: true });
+        let timedOut = false;
+        let idleTimer: ReturnType<typeof setTimeout> | undefined;
+        const resetIdleTimer = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => {
+                timedOut = true;
+                attemptController.abort();
+            }, RESPONSE_IDLE_TIMEOUT_MS);
+        };
+        const timeoutError = () => new ModelError('timeout', `${providerLabel} sent nothing for ${RESPONSE_IDLE_TIMEOUT_MS / 1000} seconds.`);
+        let error: ModelError;
+        try {
+            resetIdleTimer();
+            for await (const delta of activeProvider.streamChat(messages, activeProviderSettings.model, attemptController.signal, responseSchema, reported => { usage = reported; })) {
+                if (attemptController.signal.aborted) break;
+                resetIdleTimer();
+                text += delta;
+                onChunk?.(text);
+            }
+            if (!timedOut) {
+                return text;
+            }
+            error = timeoutError();
+        } catch (e) {
+            if (signal?.aborted) {
+                return text;
+            }
+            error = timedOut ? timeoutError() : toModelError(e);
+        } finally {
+            clearTimeout(idleTimer);
+            signal?.removeEventListener('abort', abortAttempt);
+            // Stopped requests are billed for what was generated too.
+            recordRequestUsage(options.mode ?? null, messages, text, usage);
+        }
+        console.error(`Error calling ${providerLabel}:`, error);
+        // A retry would start the answer over, so one that has partly arrived is not retried.
+        if (!error.isTransient || text || attempt >= RETRY_LIMIT) {
+            throw error;
+        }
+        const delayMs = getRetryDelay(attempt, error);
+        onRetry?.(error, attempt + 1, delayMs);
+        try {
+            await waitForRetry(delayMs, signal);
+        } catch {
+            return text;
+        }
+    }
+};
+
+const codeVariables = (code: string, language: Language, relatedFiles: WorkspaceFile[]): Record<string, string> => ({
+    code,
+    language,
+    languageId: language.toLowerCase(),
+    relatedFiles: formatRelatedFiles(relatedFiles),
+});
+
+/** Renders the template of `mode` as currently configured, with the caller's field values on top of `variables`. */
+const buildModePrompt = (mode: ModeId, variables: Record<string, string>, options?: StreamOptions): string => {
+    const definition = getModeDefinition(mode) ?? (isBuiltInMode(mode) ? BUILT_IN_MODES[mode] : undefined);
+    if (!definition) {
+        throw new Error(`Unknown mode "${mode}".`);
+    }
+    return renderPromptTemplate(definition.template, { ...options?.variables, ...variables });
+};
+
+const jestInstructions = (moduleName: string): string =>
+    `Use Jest (describe, it, expect, jest.fn) and import the code under test from './${moduleName}'. The tests run in a browser sandbox, so do not use other modules, the file system or the network.`;
+
+const TEST_RUNNER_INSTRUCTIONS: Partial<Record<Language, (moduleName: string) => string>> = {
+    'JavaScript': jestInstructions,
+    'TypeScript': jestInstructions,
+    'Python': moduleName => `Use pytest and import the code under test with \`from ${moduleName} import ...\`. The tests run in a browser sandbox without network access.`,
+};
+
+const formatTestsToTranslate = (tests: string, language: Language, targetLanguage: Language, moduleName: string): string => {
+    if (!tests.trim()) return '';
+    const runner = TEST_RUNNER_INSTRUCTIONS[targetLanguage]?.(moduleName) ?? `Use a common testing framework for ${targetLanguage}.`;
+    return `Also translate this ${language} test suite into "tests", so the port can be checked against it. ${runner}
+
+**Tests to Translate:**
+${codeFence(tests, language.toLowerCase())}`;
+};
+
+/**
+ * The prompt a request of `mode` sends for the given code and input. Used by the builders below and to count
+ * tokens before submitting; ANALYZE_REPO is not covered since its prompt depends on the fetched repository.
+ */
+const buildRequestPrompt = (mode: ModeId, code: string, input: string, language: Language, relatedFiles: WorkspaceFile[], moduleName: string, options?: StreamOptions): string => {
+    switch (mode) {
+        case 'GENERATE':
+            return buildModePrompt(mode, { ...codeVariables('', language, relatedFiles), input }, options);
+        case 'DEBUG':
+            return buildModePrompt(mode, { ...codeVariables(code, language, []), input: '' }, options);
+        case 'REVIEW':
+            return buildModePrompt(mode, { ...codeVariables(numberLines(code), language, relatedFiles), input: '' }, options);
+        case 'SECURITY_AUDIT':
+            const preScan = formatPreScanForPrompt(preScanCode(code));
+            return buildModePrompt(mode, { ...codeVariables(numberLines(code), language, relatedFiles), input: '', preScan }, options);
+        case 'TRANSLATE':
+            const targetLanguage = findLanguage(options?.variables?.targetLanguage ?? '') ?? defaultTargetLanguage(language);
+            return buildModePrompt(mode, {
+                ...codeVariables(code, language, relatedFiles),
+                input: '',
+                targetLanguage,
+                targetLanguageId: targetLanguage.toLowerCase(),
+                tests: formatTestsToTranslate(options?.variables?.tests ?? '', findLanguage(options?.variables?.testsLanguage ?? '') ?? language, targetLanguage, moduleName),
+            }, options);
+        case 'EXPLAIN':
+            const depthInstructions = EXPLANATION_DEPTH_INSTRUCTIONS[toExplanationDepth(options?.variables?.depth)];
+            return buildModePrompt(mode, { ...codeVariables(numberLines(code), language, relatedFiles), input: '', depthInstructions }, options);
+        case 'GENERATE_TESTS':
+            const framework = TEST_RUNNER_INSTRUCTIONS[language]?.(moduleName)
+                ?? 'Use a common testing framework for the language (e.g., Jest for JavaScript/TypeScript, PyTest for Python, JUnit for Java, etc.).';
+            return buildModePrompt(mode, { ...codeVariables(code, language, relatedFiles), input: '', framework }, options);
+        default:
+            return buildModePrompt(mode, { ...codeVariables(code, language, relatedFiles), input }, options);
+    }
+};
+
+const analyzeCode = (code: string, problem: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('ASSIST', code, problem, language, relatedFiles, '', options);
+    return generateContent(prompt, options);
+};
+
+const generateCode = (description: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('GENERATE', '', description, language, relatedFiles, '', options);
+    return generateContent(prompt, options);
+};
+
+const debugAndExecuteCode = async (code: string, language: Language, options?: StreamOptions): Promise<string> => {
+    if (canExecuteInSandbox(language)) {
+        const result = await runCodeInSandbox(code, language, { signal: options?.signal });
+        if (!result.runtimeUnavailable) {
+            const output = formatExecutionResult(result, language);
+            if (!result.error || result.killed) {
+                return output;
+            }
+            const errorPrompt = `
+            You are an expert programmer and debugger. The following ${language} code failed to execute.
+            Analyze the code, its output and the error message, explain the error, and provide a corrected version.
+            Format your response in Markdown.
+
+            **Error Message:**
+            ${result.error}
+
+            **Output Before the Error:**
+            ${result.stdout || '(none)'}
+
+            **Code:**
+            \`\`\`${language.toLowerCase()}
+            ${code}
+            \`\`\`
+            `;
+            const prefix = `${output}\n\n**Error:**\n\`\`\`output\n${result.error}\n\`\`\`\n\n`;
+            const analysis = await generateContent(errorPrompt, {
+                ...options,
+                onChunk: options?.onChunk && (text => options.onChunk?.(prefix + text)),
+            });
+            return prefix + analysis;
+        }
+        console.warn(`Sandbox runtime for ${language} unavailable, falling back to simulation:`, result.error);
+    }
+
+    const prompt = buildRequestPrompt('DEBUG', code, '', language, [], '', options);
+    return generateContent(prompt, options);
+};
+
+const refactorCode = (code: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('REFACTOR', code, '', language, relatedFiles, '', options);
+    return generateContent(prompt, options);
+};
+
+const reviewCode = (code: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('REVIEW', code, '', language, relatedFiles, '', options);
+    return generateContent(prompt, { ...options, responseSchema: REVIEW_REPORT_SCHEMA });
+};
+
+/** Audits `code` with the model, guided by the local pre-scan; pre-scan matches the model neither reported nor dismissed are added to its report. */
+const auditSecurity = async (code: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('SECURITY_AUDIT', code, '', language, relatedFiles, '', options);
+    const text = await generateContent(prompt, { ...options, responseSchema: SECURITY_REPORT_SCHEMA });
+    if (!text || options?.signal?.aborted) return text;
+    let report: SecurityReport;
+    try {
+        report = parseSecurityReport(text);
+    } catch {
+        // Shown as an unreadable report, with the raw answer.
+        return text;
+    }
+    return JSON.stringify(mergePreScanFindings(report, preScanCode(code)), null, 2);
+};
+
+const explainCode = (code: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('EXPLAIN', code, '', language, relatedFiles, '', options);
+    return generateContent(prompt, { ...options, responseSchema: EXPLANATION_SCHEMA });
+};
+
+/** Translates `code` into `targetLanguage`; the answer is stored with both languages so it can be shown without the request. */
+const translateCode = async (code: string, language: Language, targetLanguage: Language, tests: string, moduleName: string, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('TRANSLATE', code, '', language, relatedFiles, moduleName, { ...options, variables: { ...options?.variables, targetLanguage, tests } });
+    const text = await generateContent(prompt, { ...options, responseSchema: TRANSLATION_SCHEMA });
+    if (!text || options?.signal?.aborted) return text;
+    try {
+        const translation = parseTranslation(text, { sourceLanguage: language, targetLanguage });
+        const hasTests = translation.tests !== undefined;
+        const sourceTestsLanguage = findLanguage(options?.variables?.testsLanguage ?? '') ?? language;
+        return JSON.stringify({
+            ...translation,
+            sourceTests: hasTests ? tests : undefined,
+            sourceTestsLanguage: hasTests ? sourceTestsLanguage : undefined,
+        }, null, 2);
+    } catch {
+        // Shown as an unreadable translation, with the raw answer.
+        return text;
+    }
+};
+
+const generateDocs = (code: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('GENERATE_DOCS', code, '', language, relatedFiles, '', options);
+    return generateContent(prompt, options);
+};
+
+const generateTests = (code: string, language: Language, moduleName: string, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt('GENERATE_TESTS', code, '', language, relatedFiles, moduleName, options);
+    return generateContent(prompt, options);
+};
+
+const analyzeRepo = (snapshot: RepoSnapshot, options?: StreamOptions): Promise<string> => {
+    const files = snapshot.sampledFiles
+        .map(file => `File: ${file.path}${file.truncated ? ' (truncated)' : ''}\n\`\`\`\n${file.content}\n\`\`\``)
+        .join('\n\n');
+    const prompt = buildModePrompt('ANALYZE_REPO', {
+        input: `https://github.com/${snapshot.owner}/${snapshot.repo}`,
+        repository: `${snapshot.owner}/${snapshot.repo}`,
+        ref: snapshot.ref,
+        fileCount: String(snapshot.totalFiles),
+        paths: snapshot.paths.join('\n') + (snapshot.pathsTruncated
+            ? `\n(Listing truncated: ${snapshot.paths.length} of at least ${snapshot.totalFiles} files are shown.)`
+            : ''),
+        files,
+    }, options);
+    return generateContent(prompt, options);
+};
+
+/** Runs a user-defined mode; its template decides how the code and input are used. */
+const runCustomMode = (mode: ModeId, code: string, input: string, language: Language, relatedFiles: WorkspaceFile[] = [], options?: StreamOptions): Promise<string> => {
+    const prompt = buildRequestPrompt(mode, code, input, language, relatedFiles, '', options);
+    return generateContent(prompt, options);
+};
+
+const buildFollowUpPrompt = (question: string, code: string, language: Language, codeChanged: boolean): string => {
+    if (!codeChanged) {
+        return question;
+    }
+    return `
+    ${question}
+
+    **The ${language} code now looks like this:**
+    \`\`\`${language.toLowerCase()}
+    ${code}
+    \`\`\`
+    `;
+};
+
+const buildFixFailingTestsPrompt = (result: ExecutionResult): string => {
+    const failures = (result.tests ?? []).filter(test => test.status === 'failed')
+        .map(test => `### ${test.name}\n\`\`\`output\n${(test.stack || test.message || 'Failed').trim()}\n\`\`\``);
+    const problems = failures.length > 0 ? failures.join('\n\n') : `\`\`\`output\n${result.error ?? (result.timedOut ? 'The test run timed out.' : 'No tests were run.')}\n\`\`\``;
+    return `
+    I ran the test suite against the code and it did not pass:
+
+    ${problems}
+
+    Fix the failing tests. If a failure shows a genuine bug in the code rather than a mistake in the test, say so and keep the test as it is.
+    Reply with the complete corrected test suite in a single code block, followed by a short explanation of each change.
+    `;
+};
+
+const continueConversation = (prompt: string, history: ChatMessage[], options?: StreamOptions): Promise<string> => {
+    return generateContent(prompt, { ...options, history });
+};
+
+// --- BUNDLED: services/inlineCompletion.ts ---
+// Long enough that a request only goes out when typing pauses, since every completion is a model call.
+const INLINE_COMPLETION_DEBOUNCE_MS = 700;
+// Enough of the surrounding code for the model to follow the file without making every request large.
+const COMPLETION_PREFIX_CHARS = 3000;
+const COMPLETION_SUFFIX_CHARS = 1000;
+const COMPLETION_MAX_LINES = 12;
+const CURSOR_MARKER = '<CURSOR>';
+
+const INLINE_COMPLETION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        completion: { type: 'string', description: `The text to insert at ${CURSOR_MARKER}; empty when nothing fits.` },
+    },
+    required: ['completion'],
+};
+
+/** Finds the text to insert at the cursor of a document, or '' when there is none. */
+type CompletionSource = (doc: Text, pos: number, language: Language, signal: AbortSignal) => Promise<string>;
+
+const buildCompletionPrompt = (prefix: string, suffix: string, language: Language): string => `You are a code completion engine for ${language}.
+Continue the code at ${CURSOR_MARKER} with what the author is most likely to type next: finish the current line or statement, or at most ${COMPLETION_MAX_LINES} lines.
+Do not repeat code before or after the cursor and do not explain anything. Return an empty completion when no continuation is clear.
+Respond with JSON only.
+
+${codeFence(prefix + CURSOR_MARKER + suffix, language.toLowerCase())}`;
+
+/** Cuts a completion to the line limit and drops what the code after the cursor already contains. */
+const trimCompletion = (completion: string, suffix: string): string => {
+    let text = completion.split('\n').slice(0, COMPLETION_MAX_LINES).join('\n');
+    const restOfLine = suffix.split('\n')[0].trim();
+    if (restOfLine && text.trimEnd().endsWith(restOfLine)) {
+        text = text.trimEnd().slice(0, -restOfLine.length);
+    }
+    return text.trim() ? text.replace(/\s+$/, '') : '';
+};
+
+const requestInlineCompletion: CompletionSource = async (doc, pos, language, signal) => {
+    const prefix = doc.sliceString(Math.max(0, pos - COMPLETION_PREFIX_CHARS), pos);
+    const suffix = doc.sliceString(pos, Math.min(doc.length, pos + COMPLETION_SUFFIX_CHARS));
+    const text = await generateContent(buildCompletionPrompt(prefix, suffix, language), { signal, responseSchema: INLINE_COMPLETION_SCHEMA, mode: 'inline-completion' });
+    if (!text || signal.aborted) return '';
+    return trimCompletion(parseJsonResponse<{ completion: string }>(text, INLINE_COMPLETION_SCHEMA).completion, suffix);
+};
+
+interface GhostText {
+    pos: number;
+    text: string;
+}
+
+const setGhostText = StateEffect.define<GhostText | null>();
+
+class GhostTextWidget extends WidgetType {
+    constructor(readonly text: string) {
+        super();
+    }
+
+    eq(other: GhostTextWidget) {
+        return other.text === this.text;
+    }
+
+    toDOM() {
+        const span = document.createElement('span');
+        span.className = 'cm-ghost-text';
+        span.textContent = this.text;
+        return span;
+    }
+}
+
+const ghostTextField = StateField.define<GhostText | null>({
+    create: () => null,
+    update: (ghost, transaction) => {
+        for (const effect of transaction.effects) {
+            if (effect.is(setGhostText)) return effect.value;
+        }
+        // Any edit or cursor movement makes the suggestion stale.
+        return transaction.docChanged || transaction.selection ? null : ghost;
+    },
+    provide: field => EditorView.decorations.from(field, ghost => ghost
+        ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(ghost.text), side: 1 }).range(ghost.pos)])
+        : Decoration.none),
+});
+
+const ghostTextTheme = EditorView.baseTheme({
+    '.cm-ghost-text': { opacity: '0.45', whiteSpace: 'pre' },
+});
+
+const acceptGhostText = (view: EditorView): boolean => {
+    const ghost = view.state.field(ghostTextField, false);
+    if (!ghost) return false;
+    view.dispatch({
+        changes: { from: ghost.pos, insert: ghost.text },
+        selection: { anchor: ghost.pos + ghost.text.length },
+        userEvent: 'input.complete',
+    });
+    return true;
+};
+
+const dismissGhostText = (view: EditorView): boolean => {
+    if (!view.state.field(ghostTextField, false)) return false;
+    view.dispatch({ effects: setGhostText.of(null) });
+    return true;
+};
+
+/**
+ * Shows a completion from `source` as ghost text after typing pauses with the cursor at the end of a line.
+ * Tab accepts it, Escape dismisses it; typing on cancels the pending request.
+ */
+const inlineCompletion = (source: CompletionSource, language: Language): Extension => [
+    ghostTextField,
+    ghostTextTheme,
+    Prec.highest(keymap.of([
+        { key: 'Tab', run: acceptGhostText },
+        { key: 'Escape', run: dismissGhostText },
+    ])),
+    ViewPlugin.fromClass(class {
+        timer: ReturnType<typeof setTimeout> | undefined;
+        controller: AbortController | null = null;
+
+        constructor(readonly view: EditorView) {}
+
+        update(update: ViewUpdate) {
+            if (!update.docChanged && !update.selectionSet) return;
+            this.cancel();
+            // Only typing asks for a completion; pastes, undo and applied suggestions don't.
+            if (update.transactions.some(transaction => transaction.isUserEvent('input.type'))) {
+                this.timer = setTimeout(() => this.request(), INLINE_COMPLETION_DEBOUNCE_MS);
+            }
+        }
+
+        request() {
+            const { state } = this.view;
+            const { head, empty } = state.selection.main;
+            if (!empty || state.sliceDoc(head, state.doc.lineAt(head).to).trim()) return;
+            const controller = new AbortController();
+            this.controller = controller;
+            const doc = state.doc;
+            source(doc, head, language, controller.signal).then(text => {
+                // Anything typed meanwhile has already aborted the request; this guards against late answers.
+                if (controller.signal.aborted || !text || this.view.state.doc !== doc) return;
+                this.view.dispatch({ effects: setGhostText.of({ pos: head, text }) });
+            }).catch(e => {
+                if (!controller.signal.aborted) console.warn("Inline completion failed:", e);
+            });
+        }
+
+        cancel() {
+            clearTimeout(this.timer);
+            this.controller?.abort();
+            this.controller = null;
+        }
+
+        destroy() {
+            this.cancel();
+        }
+    }),
+];
+
+// --- BUNDLED: services/selectionActions.ts ---
+type SelectionActionId = 'explain' | 'refactor' | 'docstring' | 'test';
+
+interface SelectionAction {
+    id: SelectionActionId;
+    label: string;
+    /** Shown on the selection while the model works. */
+    progress: string;
+    /** What happens with the answer: shown next to the selection, written over it, or added to the file's tests. */
+    result: 'annotate' | 'replace' | 'test-file';
+}
+
+const SELECTION_ACTIONS: SelectionAction[] = [
+    { id: 'explain', label: 'Explain', progress: 'Explaining', result: 'annotate' },
+    { id: 'refactor', label: 'Refactor selection', progress: 'Refactoring', result: 'replace' },
+    { id: 'docstring', label: 'Add docstring', progress: 'Documenting', result: 'replace' },
+    { id: 'test', label: 'Write test for this function', progress: 'Writing a test', result: 'test-file' },
+];
+
+// Opens the selection menu from the keyboard unless rebound; right-clicking a selection opens it too.
+const SELECTION_MENU_KEY = 'Alt-Enter';
+
+const SELECTION_ACTION_INSTRUCTIONS: Record<SelectionActionId, (language: Language, moduleName: string) => string> = {
+    'explain': () => 'Explain what the selected code does and how, in a few sentences of Markdown. Mention anything surprising. Do not repeat the code.',
+    'refactor': () => 'Refactor only the selected code to improve readability and follow best practices, keeping its behaviour and interface. Reply with the replacement for the selection in a single code block, with the same indentation, and nothing else.',
+    'docstring': language => `Add documentation to the selected code in the idiomatic style of ${language} (e.g. JSDoc, a Python docstring, Javadoc or /// comments), describing purpose, parameters, return value and errors. Change nothing else. Reply with the selected code including the documentation in a single code block, with the same indentation, and nothing else.`,
+    'test': (language, moduleName) => `Write unit tests for the selected function, covering normal use, edge cases and errors. ${TEST_RUNNER_INSTRUCTIONS[language]?.(moduleName) ?? `Use a common testing framework for ${language}.`} Reply with only the test code in a single code block.`,
+};
+
+const buildSelectionActionPrompt = (action: SelectionActionId, selection: string, code: string, language: Language, moduleName: string): string => {
+    const languageId = language.toLowerCase();
+    return `You are an expert ${language} programmer.
+${SELECTION_ACTION_INSTRUCTIONS[action](language, moduleName)}
+
+**Selected Code:**
+${codeFence(selection, languageId)}
+
+**The Whole File, for Context:**
+${codeFence(code, languageId)}`;
+};
+
+/** Runs `action` on the selection; code answers are returned without their fence. */
+const runSelectionAction = async (action: SelectionAction, selection: string, code: string, language: Language, moduleName: string, options?: StreamOptions): Promise<string> => {
+    const text = await generateContent(buildSelectionActionPrompt(action.id, selection, code, language, moduleName), options);
+    if (action.result === 'annotate') return text.trim();
+    return (extractFirstCodeBlock(text) ?? text).replace(/\n$/, '');
+};
+
+interface SelectionNote {
+    pos: number;
+    /** Markdown, or plain text while `pending`. */
+    content: string;
+    pending?: boolean;
+    isError?: boolean;
+}
+
+/** Shows a note at `pos`, or replaces the current one; a note without `pos` stays where the current one is. */
+const setSelectionNote = StateEffect.define<(Omit<SelectionNote, 'pos'> & { pos?: number }) | null>();
+
+const renderNoteContent = (note: SelectionNote): string => {
+    if (note.pending || note.isError) return escapeHtml(note.content);
+    return parseMarkdown(note.content)
+        .map(segment => segment.type === 'html' ? segment.html : `<pre><code>${escapeHtml(segment.code)}</code></pre>`)
+        .join('');
+};
+
+const selectionNoteField = StateField.define<SelectionNote | null>({
+    create: () => null,
+    update: (note, transaction) => {
+        if (note && transaction.docChanged) note = { ...note, pos: transaction.changes.mapPos(note.pos) };
+        for (const effect of transaction.effects) {
+            if (!effect.is(setSelectionNote)) continue;
+            const value = effect.value;
+            note = value && (value.pos !== undefined || note) ? { ...value, pos: value.pos ?? note!.pos } : null;
+        }
+        return note;
+    },
+    provide: field => showTooltip.from(field, (note): Tooltip | null => note && {
+        pos: note.pos,
+        above: true,
+        create: view => {
+            const dom = document.createElement('div');
+            dom.className = `cm-selection-note${note.isError ? ' cm-selection-note-error' : ''}`;
+            const body = document.createElement('div');
+            body.className = 'cm-selection-note-body';
+            // Sanitized by parseMarkdown; everything else is escaped.
+            body.innerHTML = renderNoteContent(note);
+            dom.appendChild(body);
+            if (!note.pending) {
+                const close = document.createElement('button');
+                close.className = 'cm-selection-note-close';
+                close.textContent = '×';
+                close.setAttribute('aria-label', 'Close');
+                close.onclick = () => view.dispatch({ effects: setSelectionNote.of(null) });
+                dom.appendChild(close);
+            }
+            return { dom };
+        },
+    }),
+});
+
+const selectionNoteTheme = EditorView.baseTheme({
+    '.cm-tooltip.cm-selection-note': { display: 'flex', gap: '0.5rem', maxWidth: '32rem', maxHeight: '16rem', overflow: 'auto', padding: '0.5rem 0.75rem', fontFamily: 'sans-serif', fontSize: '0.85rem' },
+    '.cm-selection-note-error': { color: '#dc2626' },
+    '.cm-selection-note-body p': { margin: '0 0 0.5em' },
+    '.cm-selection-note-close': { alignSelf: 'flex-start', border: 'none', background: 'none', cursor: 'pointer', fontSize: '1rem', lineHeight: '1', color: 'inherit' },
+});
+
+interface TrackedRange {
+    from: number;
+    to: number;
+}
+
+/** Starts following `range` through later edits under `id`, or stops when `range` is null. */
+const trackRange = StateEffect.define<{ id: string; range: TrackedRange | null }>();
+
+// Ranges of selections whose action is still running, so its answer lands where the selection has moved to.
+const trackedRangesField = StateField.define<ReadonlyMap<string, TrackedRange>>({
+    create: () => new Map(),
+    update: (ranges, transaction) => {
+        let next = ranges;
+        if (transaction.docChanged && ranges.size > 0) {
+            next = new Map([...ranges].map(([id, { from, to }]) => {
+                const mappedFrom = transaction.changes.mapPos(from, 1);
+                return [id, { from: mappedFrom, to: Math.max(mappedFrom, transaction.changes.mapPos(to, -1)) }];
+            }));
+        }
+        for (const effect of transaction.effects) {
+            if (!effect.is(trackRange)) continue;
+            const updated = new Map(next);
+            if (effect.value.range) updated.set(effect.value.id, effect.value.range); else updated.delete(effect.value.id);
+            next = updated;
+        }
+        return next;
+    },
+});
+
+/** Writes `text` over `from`-`to` if those positions still hold `original`; false when the code changed meanwhile. */
+const replaceRangeIfUnchanged = (view: EditorView, from: number, to: number, original: string, text: string): boolean => {
+    if (view.state.sliceDoc(from, to) !== original) return false;
+    view.dispatch({ changes: { from, to, insert: text }, selection: { anchor: from, head: from + text.length }, userEvent: 'input.apply' });
+    return true;
+};
+
+/**
+ * Opens a menu of selection actions when a selection is right-clicked or `key` is pressed (no key when null);
+ * `openMenu` gets the menu's position in viewport coordinates.
+ */
+const selectionMenu = (openMenu: (x: number, y: number) => void, key: string | null = SELECTION_MENU_KEY): Extension => [
+    selectionNoteField,
+    trackedRangesField,
+    selectionNoteTheme,
+    keymap.of(key ? [{
+        key,
+        run: view => {
+            const { main } = view.state.selection;
+            const coords = main.empty ? null : view.coordsAtPos(main.head);
+            if (!coords) return false;
+            openMenu(coords.left, coords.bottom);
+            return true;
+        },
+    }] : []),
+    EditorView.domEventHandlers({
+        contextmenu: (event, view) => {
+            const { main } = view.state.selection;
+            const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+            // Outside a selection the browser's own menu is more useful.
+            if (main.empty || pos === null || pos < main.from || pos > main.to) return false;
+            event.preventDefault();
+            openMenu(event.clientX, event.clientY);
+            return true;
+        },
+    }),
+];
+
+// --- BUNDLED: services/shortcuts.ts ---
+const SHORTCUT_STORAGE_KEY = 'shortcuts';
+
+// Decides what CodeMirror's `Mod` means: Cmd on Apple platforms, Ctrl elsewhere.
+const IS_MAC_PLATFORM = typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform);
+
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift', 'Meta'];
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'AltGraph', 'Shift', 'Meta', 'CapsLock']);
+const MAC_MODIFIER_SYMBOLS: Record<string, string> = { Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Meta: '⌘' };
+
+type ShortcutId = 'openPalette' | 'submit' | 'stop' | 'copyResponse' | 'formatCode' | 'openHistory' | 'toggleTheme' | 'showShortcuts' | 'selectionMenu';
+
+interface ShortcutDefinition {
+    /** A `ShortcutId`, or `mode:<mode id>` for switching to a mode. */
+    id: string;
+    label: string;
+    /** In CodeMirror's notation, e.g. `Mod-Shift-k`; null when the shortcut is unbound by default. */
+    defaultKey: string | null;
+    /** Editor shortcuts only work while a code editor has focus. */
+    scope: 'global' | 'editor';
+}
+
+/** Key per shortcut id; null when the shortcut is unbound. */
+type ShortcutBindings = Record<string, string | null>;
+
+/** The shortcuts the code editor handles itself, so they win over its own keymap. */
+interface EditorKeyBindings {
+    submit: string | null;
+    selectionMenu: string | null;
+}
+
+const DEFAULT_EDITOR_KEY_BINDINGS: EditorKeyBindings = { submit: 'Mod-Enter', selectionMenu: SELECTION_MENU_KEY };
+
+const APP_SHORTCUTS: ShortcutDefinition[] = [
+    { id: 'openPalette', label: 'Open the command palette', defaultKey: 'Mod-k', scope: 'global' },
+    { id: 'submit', label: 'Submit the request', defaultKey: DEFAULT_EDITOR_KEY_BINDINGS.submit, scope: 'global' },
+    { id: 'stop', label: 'Stop the request', defaultKey: null, scope: 'global' },
+    { id: 'copyResponse', label: 'Copy the response', defaultKey: 'Alt-Shift-c', scope: 'global' },
+    { id: 'formatCode', label: 'Format the code in the editor', defaultKey: 'Alt-Shift-f', scope: 'global' },
+    { id: 'openHistory', label: 'Open history', defaultKey: 'Alt-h', scope: 'global' },
+    { id: 'toggleTheme', label: 'Toggle light and dark theme', defaultKey: 'Alt-Shift-t', scope: 'global' },
+    { id: 'showShortcuts', label: 'Show keyboard shortcuts', defaultKey: 'F1', scope: 'global' },
+    { id: 'selectionMenu', label: 'Open the selection menu', defaultKey: DEFAULT_EDITOR_KEY_BINDINGS.selectionMenu, scope: 'editor' },
+];
+
+// The first modes get Alt-1 to Alt-9, in the order of the mode bar.
+const MODE_SHORTCUT_COUNT = 9;
+
+const MODE_SHORTCUT_PREFIX = 'mode:';
+
+const modeShortcutId = (mode: ModeId): string => `${MODE_SHORTCUT_PREFIX}${mode}`;
+
+const modeFromShortcutId = (id: string): ModeId | null => {
+    return id.startsWith(MODE_SHORTCUT_PREFIX) ? id.slice(MODE_SHORTCUT_PREFIX.length) as ModeId : null;
+};
+
+const buildShortcutDefinitions = (modes: ModeDefinition[]): ShortcutDefinition[] => [
+    ...APP_SHORTCUTS,
+    ...modes.map((mode, i): ShortcutDefinition => ({
+        id: modeShortcutId(mode.id),
+        label: `Switch to ${mode.label}`,
+        defaultKey: i < MODE_SHORTCUT_COUNT ? `Alt-${i + 1}` : null,
+        scope: 'global',
+    })),
+];
+
+/** The key of every shortcut: the user's override where there is one, else the default. */
+const resolveShortcutBindings = (definitions: ShortcutDefinition[], overrides: ShortcutBindings): ShortcutBindings => {
+    return Object.fromEntries(definitions.map(definition => [
+        definition.id,
+        Object.prototype.hasOwnProperty.call(overrides, definition.id) ? overrides[definition.id] : definition.defaultKey,
+    ]));
+};
+
+const loadShortcutOverrides = (): ShortcutBindings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SHORTCUT_STORAGE_KEY) ?? '{}');
+        if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {};
+        return Object.fromEntries(Object.entries(stored).filter(([, key]) => key === null || typeof key === 'string')) as ShortcutBindings;
+    } catch (e) {
+        console.error("Could not load keyboard shortcuts:", e);
+        return {};
+    }
+};
+
+const saveShortcutOverrides = (overrides: ShortcutBindings) => {
+    localStorage.setItem(SHORTCUT_STORAGE_KEY, JSON.stringify(overrides));
+};
+
+// Splits `Mod-Shift-k` into its parts; a trailing `-` is the minus key, as in `Ctrl--`.
+const splitShortcut = (key: string): string[] => key.split(/-(?!$)/);
+
+/** Resolves `Mod` for this platform and orders the modifiers, so equal shortcuts compare equal. */
+export const normalizeShortcut = (key: string): string => {
+    const parts = splitShortcut(key);
+    const name = parts.pop() ?? '';
+    const modifiers = new Set(parts.map(part => {
+        if (part === 'Mod') return IS_MAC_PLATFORM ? 'Meta' : 'Ctrl';
+        if (part === 'Cmd') return 'Meta';
+        if (part === 'Control') return 'Ctrl';
+        return part;
+    }));
+    return [...MODIFIER_ORDER.filter(modifier => modifiers.has(modifier)), name.length === 1 ? name.toLowerCase() : name].join('-');
+};
+
+/** The normalized shortcut a key press stands for; null while only modifiers are held. */
+export const shortcutFromEvent = (event: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.has(event.key)) return null;
+    // With modifiers held the character depends on the layout (Alt-1 types ¡ on a Mac), so letters and digits use the physical key.
+    const physical = /^(?:Key|Digit)(\w)$/.exec(event.code);
+    const name = physical && (event.ctrlKey || event.altKey || event.metaKey) ? physical[1] : event.key === ' ' ? 'Space' : event.key;
+    const modifiers = [event.ctrlKey && 'Ctrl', event.altKey && 'Alt', event.shiftKey && 'Shift', event.metaKey && 'Meta'].filter(Boolean);
+    return normalizeShortcut([...modifiers, name].join('-'));
+};
+
+/** Shortcuts without Ctrl, Alt or Cmd would type a character; they are ignored while a text field has focus. */
+const typesText = (shortcut: string): boolean => {
+    return !/(^|-)(Ctrl|Alt|Meta)-/.test(shortcut) && !/^F\d+$/.test(shortcut) && shortcut !== 'Escape';
+};
+
+/** The id of the shortcut bound to `shortcut` (as from `shortcutFromEvent`), if any. */
+const findShortcutId = (bindings: ShortcutBindings, shortcut: string): string | null => {
+    return Object.keys(bindings).find(id => bindings[id] !== null && normalizeShortcut(bindings[id]!) === shortcut) ?? null;
+};
+
+/**
+ * Binds `key` to the shortcut `id`, unbinding whichever other shortcut had it. Returns the new overrides; keys equal
+ * to the default are not stored, so changed defaults reach everyone who kept them.
+ */
+export const rebindShortcut = (definitions: ShortcutDefinition[], overrides: ShortcutBindings, id: string, key: string | null): ShortcutBindings => {
+    const bindings = resolveShortcutBindings(definitions, overrides);
+    const next = { ...overrides };
+    const bind = (definition: ShortcutDefinition, value: string | null) => {
+        if (value === definition.defaultKey) delete next[definition.id];
+        else next[definition.id] = value;
+    };
+    for (const definition of definitions) {
+        if (definition.id === id) {
+            bind(definition, key);
+        } else if (key && bindings[definition.id] && normalizeShortcut(bindings[definition.id]!) === normalizeShortcut(key)) {
+            bind(definition, null);
+        }
+    }
+    return next;
+};
+
+/** Shows a shortcut the way the platform does: `⌘K` on a Mac, `Ctrl+K` elsewhere. */
+export const formatShortcut = (key: string): string => {
+    const parts = splitShortcut(normalizeShortcut(key));
+    const name = parts.pop() ?? '';
+    const label = name.length === 1 ? name.toUpperCase() : name.replace(/^Arrow/, '');
+    return IS_MAC_PLATFORM
+        ? [...parts.map(modifier => MAC_MODIFIER_SYMBOLS[modifier] ?? modifier), label].join('')
+        : [...parts, label].join('+');
+};
+
+// --- BUNDLED: services/commandPalette.ts ---
+type PaletteGroup = 'Actions' | 'Modes' | 'Languages' | 'History';
+
+interface PaletteCommand {
+    id: string;
+    group: PaletteGroup;
+    label: string;
+    /** Searched along with the label, but matches in it rank lower. */
+    detail?: string;
+    /** Key of the shortcut that runs the command too. */
+    shortcut?: string | null;
+    run: () => void;
+}
+
+// Commands listed at most; the palette is for picking, not browsing.
+const MAX_PALETTE_RESULTS = 50;
+// How much a match in a command's detail ranks below the same match in its label.
+const DETAIL_MATCH_PENALTY = 2;
+
+const isWordStart = (text: string, index: number): boolean => {
+    if (index === 0) return true;
+    const previous = text[index - 1];
+    return !/[a-z0-9]/i.test(previous) || (/[A-Z]/.test(text[index]) && /[a-z]/.test(previous));
+};
+
+/**
+ * Scores `text` as a match for `query`, whose characters must appear in it in order, ignoring case and spaces:
+ * higher is better, null is no match. Runs of consecutive characters and matches at word starts count most, so
+ * "gt" ranks "Generate Tests" above "Getting started".
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    if (!needle) return 0;
+    const haystack = text.toLowerCase();
+    // Best score with the current query character matched at each position of the text.
+    let previous: number[] = [];
+    for (let i = 0; i < needle.length; i++) {
+        const current: number[] = new Array(haystack.length).fill(-Infinity);
+        // Best score of the previous character matched anywhere before the gap the current one needs.
+        let bestBefore = i === 0 ? 0 : -Infinity;
+        for (let j = 0; j < haystack.length; j++) {
+            if (i > 0 && j >= 2) bestBefore = Math.max(bestBefore, previous[j - 2]);
+            if (haystack[j] !== needle[i]) continue;
+            const consecutive = i > 0 && j > 0 ? previous[j - 1] + 2 : -Infinity;
+            current[j] = 1 + (isWordStart(text, j) ? 3 : 0) + Math.max(bestBefore, consecutive);
+        }
+        previous = current;
+    }
+    const best = previous.reduce((max, score) => Math.max(max, score), -Infinity);
+    // Shorter texts win ties: the query covers more of them.
+    return best === -Infinity ? null : best - haystack.length / 100;
+};
+
+/** Commands matching `query`, best first; all of them, in order, for an empty query. */
+export const searchCommands = (commands: PaletteCommand[], query: string): PaletteCommand[] => {
+    if (!query.trim()) return commands.slice(0, MAX_PALETTE_RESULTS);
+    return commands
+        .map((command, index) => {
+            const scores = [fuzzyScore(query, command.label), fuzzyScore(query, `${command.group} ${command.label}`)];
+            const detailScore = command.detail ? fuzzyScore(query, command.detail) : null;
+            if (detailScore !== null) scores.push(detailScore - DETAIL_MATCH_PENALTY);
+            const matches = scores.filter((score): score is number => score !== null);
+            return { command, index, score: matches.length > 0 ? Math.max(...matches) : null };
+        })
+        .filter((result): result is { command: PaletteCommand; index: number; score: number } => result.score !== null)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, MAX_PALETTE_RESULTS)
+        .map(result => result.command);
+};
+
+// --- BUNDLED: services/chatThread.ts ---
+// Compaction starts once the replayed history would use this share of the model's context window.
+const THREAD_COMPACTION_THRESHOLD = 0.75;
+// The most recent turns are always replayed verbatim, never summarized.
+const THREAD_VERBATIM_TURNS = 2;
+
+const EMPTY_THREAD: ChatThread = { turns: [], summary: '', summarizedTurns: 0 };
+
+// Stands in for the opening request of a thread in the history of follow-ups until the prompt that was sent is known,
+// and for good when the code was sent in parts.
+const describeThreadRequest = (modeLabel: string, code: string, userInput: string, language: Language): string => {
+    const parts = [`${modeLabel} request (${language}).`];
+    if (userInput) parts.push(`**Input:**\n${userInput}`);
+    if (code) parts.push(`**Code:**\n\`\`\`${language.toLowerCase()}\n${code}\n\`\`\``);
+    return parts.join('\n\n');
+};
+
+const getThreadTokenBudget = (): number => {
+    return Math.floor(PROVIDER_OPTIONS[activeProviderSettings.providerId].contextTokens * THREAD_COMPACTION_THRESHOLD);
+};
+
+
+/**
+ * Turns a thread into chat history: the summary (if any) followed by the unsummarized turns.
+ * The oldest turns are dropped when the history still exceeds `tokenBudget`.
+ */
+const buildThreadHistory = (thread: ChatThread, tokenBudget = getThreadTokenBudget()): ChatMessage[] => {
+    const summary: ChatMessage[] = thread.summary
+        ? [
+            { role: 'user', content: `Summary of our earlier conversation:\n${thread.summary}` },
+            { role: 'model', content: 'Understood. I will keep that context in mind.' },
+        ]
+        : [];
+    let turns = thread.turns.slice(thread.summarizedTurns).filter(turn => turn.response);
+    const toMessages = (selected: ThreadTurn[]): ChatMessage[] => selected.flatMap(turn => [
+        { role: 'user' as const, content: turn.prompt },
+        { role: 'model' as const, content: turn.response },
+    ]);
+    while (turns.length > 1 && estimateMessageTokens([...summary, ...toMessages(turns)]) > tokenBudget) {
+        turns = turns.slice(1);
+    }
+    return [...summary, ...toMessages(turns)];
+};
+
+/**
+ * Summarizes the oldest turns into `thread.summary` once the history nears the context limit. When the
+ * summary cannot be produced the thread is returned unchanged and `buildThreadHistory` truncates instead.
+ */
+const compactThread = async (thread: ChatThread, signal?: AbortSignal): Promise<ChatThread> => {
+    const tokenBudget = getThreadTokenBudget();
+    if (estimateMessageTokens(buildThreadHistory(thread, Infinity)) <= tokenBudget) {
+        return thread;
+    }
+    const toSummarize = thread.turns.slice(thread.summarizedTurns, -THREAD_VERBATIM_TURNS);
+    if (toSummarize.length === 0) {
+        return thread;
+    }
+    const transcript = toSummarize
+        .map(turn => `USER:\n${turn.prompt}\n\nASSISTANT:\n${turn.response}`)
+        .join('\n\n---\n\n');
+    const prompt = `
+    Summarize the following conversation between a developer and a coding assistant so it can replace the
+    original messages as context for later questions. Keep every decision, requirement, file or function
+    name and the latest version of any code that was agreed on. Be concise.
+
+    ${thread.summary ? `**Earlier Summary:**\n${thread.summary}\n\n` : ''}**Conversation:**
+    ${transcript}
+    `;
+    try {
+        const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+        let summary = '';
+        let usage: TokenUsage | null = null;
+        try {
+            for await (const delta of activeProvider.streamChat(messages, activeProviderSettings.model, signal, undefined, reported => { usage = reported; })) {
+                summary += delta;
+            }
+        } finally {
+            recordRequestUsage(null, messages, summary, usage);
+        }
+        if (!summary.trim()) {
+            return thread;
+        }
+        return { ...thread, summary: summary.trim(), summarizedTurns: thread.summarizedTurns + toSummarize.length };
+    } catch (error) {
+        console.warn("Could not summarize the conversation, falling back to truncation:", error);
+        return thread;
+    }
+};
+
+// --- BUNDLED: services/exporter.ts ---
+type ExportFormat = 'markdown' | 'html' | 'pdf' | 'files';
+
+interface SessionExport {
+    mode: ModeId;
+    modeLabel: string;
+    language: Language;
+    /** Path of the file the session worked on. */
+    path: string;
+    prompt: string;
+    model: string;
+    timestamp: number;
+    turns: ThreadTurn[];
+}
+
+interface ExportFile {
+    path: string;
+    content: string;
+}
+
+const DIFF_CONTEXT_LINES = 3;
+
+// How test files are usually named, where it isn't `<name>.test.<extension>`.
+const TEST_FILE_NAMES: Partial<Record<Language, (name: string) => string>> = {
+    'Python': name => `test_${name}.py`,
+    'Go': name => `${name}_test.go`,
+    'Java': name => `${name.charAt(0).toUpperCase()}${name.slice(1)}Test.java`,
+    'C++': name => `${name}_test.cpp`,
+    'Rust': name => `${name}_test.rs`,
+};
+
+// A file name on the line before a code block, e.g. "**`src/app.ts`**", "File: app.py" or "### utils/math.go".
+const PRECEDING_FILE_NAME_PATTERN = /(?:^|[\s*`#:(])([\w.-]+(?:\/[\w.-]+)*\.[A-Za-z0-9]{1,10})[`*):]*\s*$/;
+const FENCE_FILE_NAME_PATTERN = /\b(?:title|file|filename)=["']?([^"'\s]+)/;
+
+const escapeHtml = (text: string): string => {
+    return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+};
+
+const fenceFor = (code: string): string => {
+    const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    return '`'.repeat(longestRun + 1);
+};
+
+const codeFence = (code: string, info: string): string => {
+    const fence = fenceFor(code);
+    return `${fence}${info}\n${code.replace(/\n$/, '')}\n${fence}`;
+};
+
+// 0-based, end-exclusive line range covered by the positions `from`-`to` of a chunk.
+const chunkLineRange = (doc: Text, from: number, to: number): [number, number] => {
+    if (from === to) {
+        const start = from > doc.length ? doc.lines : doc.lineAt(from).number - 1;
+        return [start, start];
+    }
+    return [doc.lineAt(Math.min(from, doc.length)).number - 1, doc.lineAt(Math.min(to - 1, doc.length)).number];
+};
+
+/** A unified diff of two versions of a file, or an empty string when they are the same. */
+const createUnifiedDiff = (original: string, updated: string, path: string): string => {
+    const a = Text.of(original.split('\n'));
+    const b = Text.of(updated.split('\n'));
+    const changes = Chunk.build(a, b).map(chunk => ({ a: chunkLineRange(a, chunk.fromA, chunk.toA), b: chunkLineRange(b, chunk.fromB, chunk.toB) }));
+    if (changes.length === 0) return '';
+
+    // Changes whose context would overlap share a hunk.
+    const hunks: (typeof changes)[] = [];
+    for (const change of changes) {
+        const previous = hunks[hunks.length - 1]?.at(-1);
+        if (previous && change.a[0] - previous.a[1] <= DIFF_CONTEXT_LINES * 2) {
+            hunks[hunks.length - 1].push(change);
+        } else {
+            hunks.push([change]);
+        }
+    }
+
+    const lineA = (n: number) => a.line(n + 1).text;
+    const lineB = (n: number) => b.line(n + 1).text;
+    const output = [`--- a/${path}`, `+++ b/${path}`];
+    for (const hunk of hunks) {
+        const first = hunk[0];
+        const last = hunk[hunk.length - 1];
+        const startA = Math.max(0, first.a[0] - DIFF_CONTEXT_LINES);
+        const endA = Math.min(a.lines, last.a[1] + DIFF_CONTEXT_LINES);
+        const startB = first.b[0] - (first.a[0] - startA);
+        const endB = last.b[1] + (endA - last.a[1]);
+        const body: string[] = [];
+        let position = startA;
+        for (const change of hunk) {
+            for (; position < change.a[0]; position++) body.push(` ${lineA(position)}`);
+            for (let n = change.a[0]; n < change.a[1]; n++) body.push(`-${lineA(n)}`);
+            for (let n = change.b[0]; n < change.b[1]; n++) body.push(`+${lineB(n)}`);
+            position = change.a[1];
+        }
+        for (; position < endA; position++) body.push(` ${lineA(position)}`);
+        output.push(`@@ -${startA + 1},${endA - startA} +${startB + 1},${endB - startB} @@`, ...body);
+    }
+    return output.join('\n');
+};
+
+const formatReviewReportMarkdown = (report: ReviewReport): string => {
+    const findings = report.findings.map(finding => {
+        const lines = finding.startLine === finding.endLine ? `Line ${finding.startLine}` : `Lines ${finding.startLine}-${finding.endLine}`;
+        const fix = finding.fix !== undefined ? `\n\n  Suggested fix:\n\n${codeFence(finding.fix, '').replace(/^/gm, '  ')}` : '';
+        return `- **${lines}** · ${finding.severity} · ${REVIEW_CATEGORY_LABELS[finding.category]}: ${finding.message}${fix}`;
+    });
+    return `${report.summary}\n\n${findings.length > 0 ? findings.join('\n') : '_No issues found._'}`;
+};
+
+const formatSecurityReportMarkdown = (report: SecurityReport, language: Language): string => {
+    const findings = report.findings.map(finding => {
+        const lines = finding.startLine === finding.endLine ? `Line ${finding.startLine}` : `Lines ${finding.startLine}-${finding.endLine}`;
+        const url = cweUrl(finding.cwe);
+        const cwe = url ? `[${finding.cwe}](${url})` : finding.cwe;
+        const source = finding.source === 'pre-scan' ? ' _(pattern match, not confirmed by the model)_' : '';
+        const patch = finding.patch !== undefined ? `\n\n${codeFence(finding.patch, language.toLowerCase())}` : '';
+        return `### ${finding.title}\n\n**${lines}** · ${finding.severity} · ${cwe} · ${finding.owasp}${source}\n\n${finding.description}\n\n**Exploit scenario:** ${finding.exploitScenario}${patch}`;
+    });
+    return `${report.summary}\n\n${findings.length > 0 ? findings.join('\n\n') : '_No vulnerabilities found._'}`;
+};
+
+const formatExplanationMarkdown = (explanation: CodeExplanation): string => {
+    const lines = (range: LineRange) => range.startLine === range.endLine ? `line ${range.startLine}` : `lines ${range.startLine}-${range.endLine}`;
+    const sections = explanation.sections.map(section => `### ${section.title} (${lines(section)})\n\n${section.explanation}`);
+    const complexity = explanation.complexity.length === 0 ? [] : [
+        '### Complexity',
+        ['| Function | Lines | Time | Space | Notes |', '| --- | --- | --- | --- | --- |',
+            ...explanation.complexity.map(item => `| \`${item.name}\` | ${lines(item)} | ${item.time} | ${item.space} | ${item.notes.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`)].join('\n'),
+    ];
+    return [explanation.summary, ...sections, ...complexity].join('\n\n');
+};
+
+const formatTranslationMarkdown = (translation: CodeTranslation): string => {
+    const idioms = translation.idioms.length === 0 ? '_Everything has a direct counterpart._' : [
+        `| ${translation.sourceLanguage} | ${translation.targetLanguage} | Difference |`, '| --- | --- | --- |',
+        ...translation.idioms.map(idiom => `| ${[idiom.source, idiom.target, idiom.note].map(cell => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`),
+    ].join('\n');
+    const tests = translation.tests !== undefined ? [`### Tests`, codeFence(translation.tests, translation.targetLanguage.toLowerCase())] : [];
+    return [
+        codeFence(translation.code, translation.targetLanguage.toLowerCase()),
+        translation.notes,
+        `### Idioms that don't map one-to-one\n\n${idioms}`,
+        ...tests,
+    ].filter(Boolean).join('\n\n');
+};
+
+const formatTurnResponse = (session: SessionExport, turn: ThreadTurn, index: number): string => {
+    if (index !== 0) return turn.response;
+    try {
+        if (session.mode === 'REVIEW') return formatReviewReportMarkdown(parseReviewReport(turn.response));
+        if (session.mode === 'SECURITY_AUDIT') return formatSecurityReportMarkdown(parseSecurityReport(turn.response), session.language);
+        if (session.mode === 'EXPLAIN') return formatExplanationMarkdown(parseExplanation(turn.response));
+        if (session.mode === 'TRANSLATE') return formatTranslationMarkdown(parseTranslation(turn.response));
+    } catch {
+        // Not a valid report; export what the model sent.
+    }
+    return turn.response;
+};
+
+const sessionToMarkdown = (session: SessionExport): string => {
+    const languageId = session.language.toLowerCase();
+    const [opening, ...followUps] = session.turns;
+    const sections = [
+        `# ${session.modeLabel} session`,
+        [
+            `- **Mode:** ${session.modeLabel}`,
+            `- **Language:** ${session.language}`,
+            `- **File:** ${session.path}`,
+            `- **Model:** ${session.model}`,
+            `- **Date:** ${new Date(session.timestamp).toLocaleString()}`,
+        ].join('\n'),
+    ];
+    if (session.prompt) sections.push(`## Prompt\n\n${session.prompt}`);
+    if (opening.code) sections.push(`## Code\n\n${codeFence(opening.code, languageId)}`);
+
+    session.turns.forEach((turn, index) => {
+        sections.push(index === 0 ? '## Response' : `## Follow-up ${index}\n\n${turn.displayPrompt.replace(/^/gm, '> ')}`);
+        sections.push(formatTurnResponse(session, turn, index));
+        const suggested = turn.originalCode ? extractFirstCodeBlock(turn.response) : null;
+        const diff = suggested !== null ? createUnifiedDiff(turn.originalCode, suggested.replace(/\n$/, ''), session.path) : '';
+        if (diff) sections.push(`### Changes\n\n${codeFence(diff, 'diff')}`);
+    });
+    if (followUps.length > 0 && opening.code !== session.turns[session.turns.length - 1].code) {
+        sections.push(`## Final Code\n\n${codeFence(session.turns[session.turns.length - 1].code, languageId)}`);
+    }
+    return sections.join('\n\n') + '\n';
+};
+
+const EXPORT_STYLES = `
+body { margin: 0; background: #fff; color: #1e293b; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+main { max-width: 52rem; margin: 0 auto; padding: 2rem 1.5rem; }
+h1, h2, h3 { line-height: 1.25; margin: 1.6em 0 0.6em; }
+h1 { margin-top: 0; }
+h2 { padding-bottom: 0.3em; border-bottom: 1px solid #e2e8f0; }
+a { color: #0284c7; }
+code { font: 0.875em/1.5 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; background: #f1f5f9; padding: 0.1em 0.3em; border-radius: 4px; }
+pre { background: #0f172a; color: #e2e8f0; padding: 1rem; border-radius: 8px; overflow-x: auto; }
+pre code { background: none; padding: 0; color: inherit; }
+pre .diff-add { color: #86efac; }
+pre .diff-remove { color: #fca5a5; }
+pre .diff-hunk { color: #7dd3fc; }
+blockquote { margin: 0; padding: 0 1em; color: #475569; border-left: 4px solid #cbd5e1; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 0.4em 0.6em; text-align: left; vertical-align: top; }
+th { background: #f1f5f9; }
+@media print {
+    main { max-width: none; padding: 0; }
+    pre { white-space: pre-wrap; word-break: break-word; background: #f8fafc; color: #0f172a; border: 1px solid #e2e8f0; }
+    pre .diff-add { color: #15803d; }
+    pre .diff-remove { color: #b91c1c; }
+    pre .diff-hunk { color: #0369a1; }
+    h2, h3 { break-after: avoid; }
+    pre, blockquote, tr { break-inside: avoid; }
+}
+@page { margin: 1.5cm; }
+`;
+
+// Colors the lines of ```diff blocks, which would otherwise be plain text without a highlighter.
+const highlightDiffBlocks = (html: string): string => {
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    doc.querySelectorAll('pre > code.language-diff').forEach(code => {
+        const lines = (code.textContent ?? '').split('\n');
+        code.textContent = '';
+        lines.forEach((line, index) => {
+            const span = doc.createElement('span');
+            span.textContent = line + (index < lines.length - 1 ? '\n' : '');
+            if (line.startsWith('+') && !line.startsWith('+++')) span.className = 'diff-add';
+            else if (line.startsWith('-') && !line.startsWith('---')) span.className = 'diff-remove';
+            else if (line.startsWith('@@')) span.className = 'diff-hunk';
+            code.appendChild(span);
+        });
+    });
+    return doc.body.innerHTML;
+};
+
+/** A standalone HTML page for the Markdown: no scripts and no external resources. */
+const markdownToHtmlDocument = (markdown: string, title: string): string => {
+    const body = highlightDiffBlocks(markdownPurifier.sanitize(marked.parse(markdown, { gfm: true, async: false }) as string));
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoked on the next tick; some browsers start the download asynchronously.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Opens the browser's print dialog for an HTML document, from which it can be saved as PDF. */
+const printHtmlDocument = (html: string) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.srcdoc = html;
+    frame.onload = () => {
+        const printWindow = frame.contentWindow;
+        if (!printWindow) return;
+        printWindow.addEventListener('afterprint', () => frame.remove());
+        printWindow.focus();
+        printWindow.print();
+    };
+    document.body.appendChild(frame);
+};
+
+const fileExtensionFor = (fence: string, fallback: Language): string => {
+    return LANGUAGE_REGISTRY[findLanguage(fence) ?? fallback].extensions[0];
+};
+
+/**
+ * A model-supplied path made safe to put in a zip: relative, without `.`/`..` segments or drive letters, so
+ * extracting the zip can't write outside its folder. Empty when nothing usable is left.
+ */
+const toSafeRelativePath = (path: string): string => {
+    return path.split(/[\\/]+/)
+        .filter(segment => segment !== '' && segment !== '.' && segment !== '..' && !/^[a-z]:$/i.test(segment))
+        .join('/');
+};
+
+/** The files a response contains: one per code block, named after the path mentioned next to it when there is one. */
+const collectResponseFiles = (markdown: string, language: Language, baseName: string): ExportFile[] => {
+    const tokens = marked.lexer(markdown, { gfm: true });
+    const files: ExportFile[] = [];
+    let unnamed = 0;
+    tokens.forEach((token, index) => {
+        if (token.type !== 'code') return;
+        const { lang = '', text } = token as Tokens.Code;
+        const fence = lang.trim().split(/\s+/)[0].toLowerCase();
+        if (fence === 'output' || fence === 'mermaid') return;
+        const previous = tokens.slice(0, index).reverse().find(candidate => candidate.type !== 'space');
+        const previousLine = previous && previous.type !== 'code' ? previous.raw.trim().split('\n').pop() ?? '' : '';
+        const path = toSafeRelativePath(lang.match(FENCE_FILE_NAME_PATTERN)?.[1] ?? previousLine.match(PRECEDING_FILE_NAME_PATTERN)?.[1] ?? '')
+            || `${baseName}${unnamed++ > 0 ? `-${unnamed}` : ''}.${fileExtensionFor(fence, language)}`;
+        files.push({ path, content: text.endsWith('\n') ? text : `${text}\n` });
+    });
+    // Later blocks for the same path are revisions of it.
+    return Array.from(new Map(files.map(file => [file.path, file])).values());
+};
+
+/** Files to download for the latest response: the docs page, the test suite, or the response's code blocks. */
+const collectSessionFiles = (session: SessionExport): ExportFile[] => {
+    const response = session.turns[session.turns.length - 1].response;
+    const baseName = testModuleName(session.path);
+    switch (session.mode) {
+        case 'GENERATE_DOCS':
+            return [{ path: `${baseName}.md`, content: response }];
+        case 'GENERATE_TESTS': {
+            const tests = extractFirstCodeBlock(response);
+            const name = TEST_FILE_NAMES[session.language]?.(baseName) ?? `${baseName}.test.${LANGUAGE_REGISTRY[session.language].extensions[0]}`;
+            return tests === null ? [] : [{ path: name, content: tests }];
+        }
+        case 'TRANSLATE': {
+            let translation: CodeTranslation;
+            try {
+                translation = parseTranslation(session.turns[0].response);
+            } catch {
+                return [];
+            }
+            const extension = LANGUAGE_REGISTRY[translation.targetLanguage].extensions[0];
+            const files = [{ path: `${baseName}.${extension}`, content: translation.code }];
+            if (translation.tests !== undefined) {
+                const name = TEST_FILE_NAMES[translation.targetLanguage]?.(baseName) ?? `${baseName}.test.${extension}`;
+                files.push({ path: name, content: translation.tests });
+            }
+            return files;
+        }
+        case 'REVIEW':
+        case 'SECURITY_AUDIT':
+        case 'EXPLAIN':
+            return [];
+        default:
+            return collectResponseFiles(response, session.language, baseName);
+    }
+};
+
+const exportSession = (session: SessionExport, format: ExportFormat) => {
+    const baseName = `${session.modeLabel}-${testModuleName(session.path)}`.toLowerCase().replace(/[^a-z0-9_-]+/g, '-');
+    switch (format) {
+        case 'markdown':
+            downloadFile(`${baseName}.md`, sessionToMarkdown(session), 'text/markdown');
+            break;
+        case 'html':
+            downloadFile(`${baseName}.html`, markdownToHtmlDocument(sessionToMarkdown(session), `${session.modeLabel} – ${session.path}`), 'text/html');
+            break;
+        case 'pdf':
+            printHtmlDocument(markdownToHtmlDocument(sessionToMarkdown(session), `${session.modeLabel} – ${session.path}`));
+            break;
+        case 'files': {
+            const files = collectSessionFiles(session);
+            if (files.length === 1) {
+                downloadFile(files[0].path.split('/').pop()!, files[0].content, 'text/plain');
+            } else if (files.length > 1) {
+                const zip = zipSync(Object.fromEntries(files.map(file => [file.path, strToU8(file.content)])));
+                downloadFile(`${baseName}.zip`, zip, 'application/zip');
+            }
+            break;
+        }
+    }
+};
+
+// --- BUNDLED: services/sessionShare.ts ---
+// Sessions whose link stays this short carry themselves in the URL fragment; chat apps and mail clients cut longer URLs.
+const SHARE_FRAGMENT_MAX_CHARS = 8000;
+const SHARE_FRAGMENT_VERSION = '1';
+// Lifetimes offered for links stored by the share service.
+const SHARE_EXPIRY_DAYS = [1, 7, 30];
+const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+
+const THREAD_TURN_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        prompt: { type: 'string' },
+        displayPrompt: { type: 'string' },
+        response: { type: 'string' },
+        code: { type: 'string' },
+        originalCode: { type: 'string' },
+    },
+    required: ['id', 'prompt', 'displayPrompt', 'response', 'code', 'originalCode'],
+};
+
+const SHARED_SESSION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        mode: { type: 'string' },
+        modeLabel: { type: 'string' },
+        language: { type: 'string', enum: LANGUAGES },
+        path: { type: 'string' },
+        prompt: { type: 'string' },
+        model: { type: 'string' },
+        timestamp: { type: 'number' },
+        turns: { type: 'array', items: THREAD_TURN_SCHEMA },
+    },
+    required: ['mode', 'modeLabel', 'language', 'path', 'prompt', 'model', 'timestamp', 'turns'],
+};
+
+interface SharedSession {
+    session: SessionExport;
+    /** When the share service deletes the link; null for links that carry the session themselves. */
+    expiresAt: number | null;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (text: string): Uint8Array => base64ToBytes(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+/** The URL fragment (without `#`) of a link that carries `session` itself, deflated. */
+export const encodeSessionFragment = (session: SessionExport): string => {
+    const data = deflateSync(strToU8(JSON.stringify(session)), { level: 9 });
+    return `session=${SHARE_FRAGMENT_VERSION}.${toBase64Url(data)}`;
+};
+
+const parseSharedSession = (value: unknown): SessionExport => {
+    const errors = validateJson(value, SHARED_SESSION_SCHEMA);
+    if (errors.length > 0 || (value as SessionExport).turns.length === 0) {
+        throw new Error("The shared session is damaged and can't be shown.");
+    }
+    return value as SessionExport;
+};
+
+export const decodeSessionFragment = (data: string): SessionExport => {
+    const separator = data.indexOf('.');
+    if (data.slice(0, separator) !== SHARE_FRAGMENT_VERSION) {
+        throw new Error("This link was made by a different version of the app and can't be opened.");
+    }
+    let value: unknown;
+    try {
+        value = JSON.parse(strFromU8(inflateSync(fromBase64Url(data.slice(separator + 1)))));
+    } catch {
+        throw new Error("The link is incomplete. Check that it was copied in full.");
+    }
+    return parseSharedSession(value);
+};
+
+// Talks to the share service in server/, like the auth client.
+const shareRequest = async <T,>(query: string, body?: Record<string, unknown>): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`/api/shares${query}`, {
+            method: body ? 'POST' : 'GET',
+            credentials: 'same-origin',
+            headers: body ? { 'Content-Type': 'application/json' } : undefined,
+            body: body ? JSON.stringify(body) : undefined,
+        });
+    } catch {
+        throw new Error("Could not reach the share service. Is it running (npm run server)?");
+    }
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.error ?? `Share request failed (status: ${response.status}).`);
+    }
+    return data;
+};
+
+/** Whether a link to `session` can carry it in the URL; otherwise the share service stores it and the link expires. */
+const fitsInShareFragment = (session: SessionExport): boolean => {
+    return encodeSessionFragment(session).length <= SHARE_FRAGMENT_MAX_CHARS;
+};
+
+let shareMaxDaysPromise: Promise<number> | null = null;
+
+/** The longest lifetime the share service accepts for a link, in days; asked once per page load. */
+const fetchShareMaxDays = (): Promise<number> => {
+    if (!shareMaxDaysPromise) {
+        shareMaxDaysPromise = shareRequest<{ maxDays: number }>('/limits').then(limits => limits.maxDays);
+        shareMaxDaysPromise.catch(() => { shareMaxDaysPromise = null; });
+    }
+    return shareMaxDaysPromise;
+};
+
+/** The lifetimes to offer: the usual ones up to the service's cap, plus the cap itself when it falls between them. */
+export const shareExpiryOptions = (maxDays: number | null): number[] => {
+    if (maxDays === null) return SHARE_EXPIRY_DAYS;
+    const options = SHARE_EXPIRY_DAYS.filter(days => days <= maxDays);
+    return options.includes(maxDays) || maxDays > SHARE_EXPIRY_DAYS[SHARE_EXPIRY_DAYS.length - 1] ? options : [...options, maxDays];
+};
+
+const createShareLink = async (session: SessionExport, expiresInDays = DEFAULT_SHARE_EXPIRY_DAYS): Promise<{ url: string; expiresAt: number | null }> => {
+    const base = `${window.location.origin}${window.location.pathname}`;
+    const fragment = encodeSessionFragment(session);
+    if (fragment.length <= SHARE_FRAGMENT_MAX_CHARS) {
+        return { url: `${base}#${fragment}`, expiresAt: null };
+    }
+    const maxDays = await fetchShareMaxDays();
+    const { id, expiresAt } = await shareRequest<{ id: string; expiresAt: number }>('', { session, expiresInDays: Math.min(expiresInDays, maxDays) });
+    return { url: `${base}#share=${id}`, expiresAt };
+};
+
+/** The session a share link's fragment points to; null when `hash` is not a share link. */
+export const openShareLink = async (hash: string): Promise<SharedSession | null> => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const data = params.get('session');
+    if (data) return { session: decodeSessionFragment(data), expiresAt: null };
+    const id = params.get('share');
+    if (!id) return null;
+    const shared = await shareRequest<{ session: unknown; expiresAt: number }>(`?id=${encodeURIComponent(id)}`);
+    return { session: parseSharedSession(shared.session), expiresAt: shared.expiresAt };
+};
+
+// --- BUNDLED: components/IconComponents.tsx ---
+const CodeIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+  </svg>
+);
+const WandIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" />
+  </svg>
+);
+const BugIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+  </svg>
+);
+const SparklesIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-6.857 2.143L12 21l-2.143-6.857L3 12l6.857-2.143L12 3z" />
+    </svg>
+);
+const ChecklistIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+    </svg>
+);
+const DocumentTextIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+);
+const BeakerIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h8a2 2 0 002-2v-4a2 2 0 00-2-2h-8a2 2 0 00-2 2v4a2 2 0 002 2z" />
+    </svg>
+);
+const GitHubIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 16 16" fill="currentColor">
+      <path d="M8 0a8 8 0 0 0-2.53 15.59c.4.07.55-.17.55-.38l-.01-1.49c-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48l-.01 2.2c0 .21.15.46.55.38A8 8 0 0 0 8 0z"/>
+    </svg>
+);
+const PlayIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+    </svg>
+);
+const StopIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 20 20" fill="currentColor">
+        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+    </svg>
+);
+const CopyIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+  </svg>
+);
+const CheckIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+  </svg>
+);
+const SunIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+    </svg>
+);
+const MoonIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+    </svg>
+);
+const CogIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+    </svg>
+);
+const XIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+const ClockIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+);
+const TrashIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+    </svg>
+);
+const PinIcon: React.FC<{ className?: string; filled?: boolean }> = ({ className = "w-5 h-5", filled = false }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} fill={filled ? "currentColor" : "none"} viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+    </svg>
+);
+
+const LightbulbIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+  </svg>
+);
+const ShieldIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+  </svg>
+);
+const GlobeIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+const PencilIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+  </svg>
+);
+
+const DownloadIcon: React.FC<{ className?: string }> = ({ className = "w-5 h-5" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+  </svg>
+);
+const ChartBarIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+  </svg>
+);
+const SearchIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+  </svg>
+);
+const LinkIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+  </svg>
+);
+
+const MODE_ICONS: Record<ModeIconName, React.FC<{ className?: string }>> = {
+  code: CodeIcon,
+  wand: WandIcon,
+  bug: BugIcon,
+  sparkles: SparklesIcon,
+  checklist: ChecklistIcon,
+  document: DocumentTextIcon,
+  beaker: BeakerIcon,
+  github: GitHubIcon,
+  lightbulb: LightbulbIcon,
+  shield: ShieldIcon,
+  globe: GlobeIcon,
+  pencil: PencilIcon,
+};
+
+// --- BUNDLED: components/LoadingSpinner.tsx ---
+const LoadingSpinner: React.FC = () => {
+  return (
+    <div className="flex flex-col items-center justify-center space-y-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary"></div>
+        <p className="text-dark-text-secondary">AI is thinking...</p>
+    </div>
+  );
+};
+
+// --- BUNDLED: components/Auth.tsx ---
+type AuthView = 'login' | 'signup' | 'forgot' | 'reset';
+
+const Auth: React.FC<{
+  onLogin: (email: string, password: string) => Promise<void>;
+  onSignup: (email: string, password: string) => Promise<void>;
+  onRequestPasswordReset: (email: string) => Promise<void>;
+  onResetPassword: (token: string, password: string) => Promise<void>;
+  resetToken?: string | null;
+}> = ({ onLogin, onSignup, onRequestPasswordReset, onResetPassword, resetToken }) => {
+  const [view, setView] = useState<AuthView>(resetToken ? 'reset' : 'login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validateEmail = (email: string) => {
+    const re = /^(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
+    return re.test(String(email).toLowerCase());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
     setError(null);
+    setNotice(null);
+
+    if (view !== 'reset' && !validateEmail(email)) {
+      setError("Please enter a valid email address.");
+      return;
+    }
+
+    if (view !== 'forgot' && password.length < 6) {
+        setError("Password must be at least 6 characters long.");
+        return;
+    }
+
+    if ((view === 'signup' || view === 'reset') && password !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      switch (view) {
+        case 'login': await onLogin(email, password); break;
+        case 'signup': await onSignup(email, password); break;
+        case 'forgot':
+          await onRequestPasswordReset(email);
+          setNotice("If an account exists for that email, a password reset link has been sent.");
+          break;
+        case 'reset': await onResetPassword(resetToken ?? '', password); break;
+      }
+    } catch (e: any) {
+      setError(e.message || "Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchView = (next: AuthView) => {
+      setView(next);
+      setEmail('');
+      setPassword('');
+      setConfirmPassword('');
+      setError(null);
+      setNotice(null);
+  }
+
+  const titles: Record<AuthView, string> = {
+    login: 'Sign in to your account',
+    signup: 'Create a new account',
+    forgot: 'Reset your password',
+    reset: 'Choose a new password',
+  };
+  const submitLabels: Record<AuthView, string> = {
+    login: 'Sign in',
+    signup: 'Sign up',
+    forgot: 'Send reset link',
+    reset: 'Set new password',
+  };
+  const needsEmail = view !== 'reset';
+  const needsPassword = view !== 'forgot';
+  const needsConfirmation = view === 'signup' || view === 'reset';
+  const inputClasses = "appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-dark-border bg-gray-50 dark:bg-dark-bg placeholder-gray-500 dark:placeholder-dark-text-secondary text-gray-900 dark:text-dark-text-primary focus:outline-none focus:ring-brand-primary focus:border-brand-primary focus:z-10 sm:text-sm";
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-dark-bg">
+      <div className="w-full max-w-md p-8 space-y-8 bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
+        <div className="flex flex-col items-center">
+            <div className="p-3 bg-brand-secondary rounded-full mb-4">
+                <CodeIcon className="w-8 h-8 text-white"/>
+            </div>
+          <h2 className="text-3xl font-bold text-center text-gray-900 dark:text-dark-text-primary">
+            {titles[view]}
+          </h2>
+          <p className="mt-2 text-center text-md text-gray-600 dark:text-dark-text-secondary">
+            to continue to <span className="font-bold text-brand-primary">Code Assistant Pro</span>
+          </p>
+        </div>
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div className="rounded-md shadow-sm -space-y-px">
+            {needsEmail && (
+              <div>
+                <label htmlFor="email-address" className="sr-only">Email address</label>
+                <input
+                  id="email-address"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  className={`${inputClasses} rounded-t-md ${needsPassword ? '' : 'rounded-b-md'}`}
+                  placeholder="Email address"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            )}
+            {needsPassword && (
+              <div>
+                <label htmlFor="password" className="sr-only">Password</label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={view === 'login' ? "current-password" : "new-password"}
+                  required
+                  className={`${inputClasses} ${needsEmail ? '' : 'rounded-t-md'} ${needsConfirmation ? '' : 'rounded-b-md'}`}
+                  placeholder="Password (min. 6 characters)"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            {needsConfirmation && (
+              <div>
+                <label htmlFor="confirm-password" className="sr-only">Confirm Password</label>
+                <input
+                  id="confirm-password"
+                  name="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  className={`${inputClasses} rounded-b-md`}
+                  placeholder="Confirm Password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {view === 'login' && (
+            <div className="text-sm text-right">
+              <button type="button" onClick={() => switchView('forgot')} className="font-medium text-brand-primary hover:text-sky-400">
+                Forgot your password?
+              </button>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 my-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md text-center" role="alert">
+                {error}
+            </div>
+          )}
+          {notice && (
+            <div className="p-3 my-2 text-sm text-green-700 dark:text-green-200 bg-green-100 dark:bg-green-900/60 rounded-md text-center" role="status">
+                {notice}
+            </div>
+          )}
+
+          <div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-brand-primary hover:bg-sky-600 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-dark-bg focus:ring-brand-primary transition-colors duration-200"
+            >
+              {isSubmitting ? 'Please wait...' : submitLabels[view]}
+            </button>
+          </div>
+        </form>
+        <div className="text-sm text-center">
+          <button onClick={() => switchView(view === 'login' ? 'signup' : 'login')} className="font-medium text-brand-primary hover:text-sky-400">
+            {view === 'login' ? "Don't have an account? Sign up" : view === 'signup' ? "Already have an account? Sign in" : "Back to sign in"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- BUNDLED: components/Header.tsx ---
+type Theme = 'light' | 'dark';
+
+const Header: React.FC<{ userEmail: string; onLogout: () => void; theme: Theme; toggleTheme: () => void; onOpenSettings: () => void; onOpenUsage: () => void; }> = ({ userEmail, onLogout, theme, toggleTheme, onOpenSettings, onOpenUsage }) => {
+    return (
+        <header className="bg-white dark:bg-dark-surface shadow-md sticky top-0 z-50 border-b border-gray-200 dark:border-dark-border">
+            <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+                <div className="flex items-center justify-between h-16">
+                    <div className="flex items-center space-x-3">
+                        <CodeIcon className="h-8 w-8 text-brand-primary" />
+                        <h1 className="text-xl font-bold text-gray-900 dark:text-dark-text-primary">AI Code Assistant Pro</h1>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                        <span className="hidden sm:inline text-sm text-gray-500 dark:text-dark-text-secondary truncate max-w-xs" title={userEmail}>{userEmail}</span>
+                        <button
+                            onClick={onOpenUsage}
+                            className="p-2 text-gray-500 dark:text-dark-text-secondary rounded-full hover:bg-gray-200 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-dark-surface focus:ring-brand-primary transition-colors duration-200"
+                            aria-label="Usage"
+                        >
+                            <ChartBarIcon className="w-6 h-6" />
+                        </button>
+                        <button
+                            onClick={onOpenSettings}
+                            className="p-2 text-gray-500 dark:text-dark-text-secondary rounded-full hover:bg-gray-200 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-dark-surface focus:ring-brand-primary transition-colors duration-200"
+                            aria-label="Model settings"
+                        >
+                            <CogIcon className="w-6 h-6" />
+                        </button>
+                        <button
+                            onClick={toggleTheme}
+                            className="p-2 text-gray-500 dark:text-dark-text-secondary rounded-full hover:bg-gray-200 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-dark-surface focus:ring-brand-primary transition-colors duration-200"
+                            aria-label="Toggle theme"
+                        >
+                            {theme === 'light' ? <MoonIcon className="w-6 h-6" /> : <SunIcon className="w-6 h-6" />}
+                        </button>
+                        <button
+                            onClick={onLogout}
+                            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-dark-text-primary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-dark-surface focus:ring-brand-primary transition-colors duration-200"
+                        >
+                            Logout
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </header>
+    );
+};
+
+// --- BUNDLED: components/SettingsPanel.tsx ---
+const SettingsPanel: React.FC<{ settings: ProviderSettings; onSave: (settings: ProviderSettings) => void; onClose: () => void; }> = ({ settings, onSave, onClose }) => {
+    const [draft, setDraft] = useState<ProviderSettings>(settings);
+    const inputClasses = "w-full px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm";
+    const labelClasses = "block mb-1 text-sm font-medium text-gray-700 dark:text-dark-text-secondary";
+
+    const handleProviderChange = (providerId: ProviderId) => {
+        setDraft(prev => ({ ...prev, providerId, model: PROVIDER_OPTIONS[providerId].defaultModel }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...draft, model: draft.model.trim() || PROVIDER_OPTIONS[draft.providerId].defaultModel });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <form onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true" aria-label="Model settings" className="w-full max-w-md p-6 space-y-4 bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-dark-text-primary">Model Settings</h2>
+                    <button type="button" onClick={onClose} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-white" aria-label="Close settings">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div>
+                    <label htmlFor="provider-select" className={labelClasses}>Provider</label>
+                    <select id="provider-select" value={draft.providerId} onChange={(e) => handleProviderChange(e.target.value as ProviderId)} className={inputClasses}>
+                        {(Object.keys(PROVIDER_OPTIONS) as ProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_OPTIONS[id].label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="model-input" className={labelClasses}>Model</label>
+                    <input id="model-input" list="model-suggestions" value={draft.model} onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))} className={inputClasses} />
+                    <datalist id="model-suggestions">
+                        {PROVIDER_OPTIONS[draft.providerId].suggestedModels.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                </div>
+                {draft.providerId === 'gemini' && (
+                    <fieldset className="space-y-2">
+                        <legend className={labelClasses}>API Key</legend>
+                        <label className="flex items-start gap-2 text-sm">
+                            <input type="radio" name="gemini-key-source" checked={draft.geminiKeySource === 'proxy'} onChange={() => setDraft(prev => ({ ...prev, geminiKeySource: 'proxy' }))} className="mt-1" />
+                            <span>Server proxy <span className="block text-xs text-gray-500 dark:text-dark-text-secondary">The key stays on the local server (GEMINI_API_KEY) and requests are rate limited per user.</span></span>
+                        </label>
+                        <label className="flex items-start gap-2 text-sm">
+                            <input type="radio" name="gemini-key-source" checked={draft.geminiKeySource === 'own-key'} onChange={() => setDraft(prev => ({ ...prev, geminiKeySource: 'own-key' }))} className="mt-1" />
+                            <span>My own key <span className="block text-xs text-gray-500 dark:text-dark-text-secondary">Requests go from this browser to Gemini; the key is stored encrypted in this browser only.</span></span>
+                        </label>
+                        {draft.geminiKeySource === 'own-key' && (
+                            <input type="password" value={draft.geminiApiKey} onChange={(e) => setDraft(prev => ({ ...prev, geminiApiKey: e.target.value.trim() }))} placeholder="Gemini API key" autoComplete="off" aria-label="Gemini API key" className={inputClasses} />
+                        )}
+                    </fieldset>
+                )}
+                {draft.providerId === 'openai-compatible' && (
+                    <>
+                        <div>
+                            <label htmlFor="base-url-input" className={labelClasses}>Base URL</label>
+                            <input id="base-url-input" type="url" value={draft.baseUrl} onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))} placeholder="http://localhost:11434/v1" className={inputClasses} />
+                        </div>
+                        <div>
+                            <label htmlFor="api-key-input" className={labelClasses}>API Key (optional)</label>
+                            <input id="api-key-input" type="password" value={draft.apiKey} onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))} autoComplete="off" className={inputClasses} />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-dark-text-secondary">Stored encrypted in this browser only.</p>
+                        </div>
+                    </>
+                )}
+                <label className="flex items-start gap-2 text-sm">
+                    <input type="checkbox" checked={draft.inlineCompletions} onChange={(e) => setDraft(prev => ({ ...prev, inlineCompletions: e.target.checked }))} className="mt-1" />
+                    <span>Inline completions <span className="block text-xs text-gray-500 dark:text-dark-text-secondary">Suggest code as ghost text when typing pauses; Tab accepts. Each suggestion is a model request.</span></span>
+                </label>
+                <label className="flex items-start gap-2 text-sm">
+                    <input type="checkbox" checked={draft.syntaxRetry} onChange={(e) => setDraft(prev => ({ ...prev, syntaxRetry: e.target.checked }))} className="mt-1" />
+                    <span>Re-ask on syntax errors <span className="block text-xs text-gray-500 dark:text-dark-text-secondary">Ask once more, quoting the errors, when a response's code doesn't parse. Each re-ask is a model request.</span></span>
+                </label>
+                <label className="flex items-start gap-2 text-sm">
+                    <input type="checkbox" checked={draft.sampleRepository} onChange={(e) => setDraft(prev => ({ ...prev, sampleRepository: e.target.checked }))} className="mt-1" />
+                    <span>Offline sample repository <span className="block text-xs text-gray-500 dark:text-dark-text-secondary">The Repo mode analyzes a built-in sample instead of reading from GitHub, for trying it without network access.</span></span>
+                </label>
+                <div className="flex justify-end gap-2 pt-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-dark-text-primary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600">Cancel</button>
+                    <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded-md hover:bg-sky-600">Save</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+// --- BUNDLED: components/KeySetup.tsx ---
+/** First-run screen, shown in place of the assistant while Gemini is selected but has no usable key. */
+const KeySetup: React.FC<{
+    /** Whether the proxy server has a key; null when it could not be asked. */
+    proxyConfigured: boolean | null;
+    isCheckingProxy: boolean;
+    onCheckProxy: () => void;
+    onUseProxy: () => void;
+    onSaveKey: (key: string) => void;
+    onChooseProvider: () => void;
+}> = ({ proxyConfigured, isCheckingProxy, onCheckProxy, onUseProxy, onSaveKey, onChooseProvider }) => {
+    const [key, setKey] = useState('');
+    const sectionClasses = "p-4 space-y-3 rounded-lg border border-gray-200 dark:border-dark-border";
+    const buttonClasses = "px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded-md hover:bg-sky-600 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed";
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (key.trim()) onSaveKey(key.trim());
+    };
+
+    return (
+        <div className="container mx-auto p-4 flex justify-center">
+            <div className="w-full max-w-xl p-6 space-y-5 bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
+                <div>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-dark-text-primary">Connect a Gemini API key</h2>
+                    <p className="mt-1 text-sm text-gray-600 dark:text-dark-text-secondary">
+                        No API key is configured yet, so requests to Gemini would fail. Choose how the assistant should reach Gemini.
+                    </p>
+                </div>
+                <section className={sectionClasses}>
+                    <h3 className="font-semibold text-gray-800 dark:text-dark-text-primary">Use the server proxy</h3>
+                    {proxyConfigured ? (
+                        <>
+                            <p className="text-sm text-gray-600 dark:text-dark-text-secondary">The local server has a key. Requests go through it and the key never reaches the browser.</p>
+                            <button onClick={onUseProxy} className={buttonClasses}>Use the server proxy</button>
+                        </>
+                    ) : (
+                        <>
+                            <p className="text-sm text-gray-600 dark:text-dark-text-secondary">
+                                {proxyConfigured === null ? 'The local server could not be reached. ' : 'The local server has no key yet. '}
+                                Set <code className="px-1 rounded bg-gray-100 dark:bg-dark-bg">GEMINI_API_KEY</code> in <code className="px-1 rounded bg-gray-100 dark:bg-dark-bg">.env.local</code>, restart <code className="px-1 rounded bg-gray-100 dark:bg-dark-bg">npm run server</code> and check again.
+                            </p>
+                            <button onClick={onCheckProxy} disabled={isCheckingProxy} className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-dark-text-primary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50">
+                                {isCheckingProxy ? 'Checking...' : 'Check again'}
+                            </button>
+                        </>
+                    )}
+                </section>
+                <form onSubmit={handleSubmit} className={sectionClasses}>
+                    <h3 className="font-semibold text-gray-800 dark:text-dark-text-primary">Use your own key</h3>
+                    <p className="text-sm text-gray-600 dark:text-dark-text-secondary">
+                        Create a key in <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-brand-primary hover:underline">Google AI Studio</a>.
+                        It is stored encrypted in this browser only and requests go directly from here to Gemini.
+                    </p>
+                    <div className="flex gap-2">
+                        <input type="password" value={key} onChange={(e) => setKey(e.target.value)} placeholder="Gemini API key" autoComplete="off" aria-label="Gemini API key"
+                            className="flex-grow px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm" />
+                        <button type="submit" disabled={!key.trim()} className={buttonClasses}>Save key</button>
+                    </div>
+                </form>
+                <p className="text-sm text-center text-gray-600 dark:text-dark-text-secondary">
+                    Or <button onClick={onChooseProvider} className="text-brand-primary hover:underline">choose another provider</button>, such as a local model or the offline mock.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+// --- BUNDLED: components/HistorySidebar.tsx ---
+const HistorySidebar: React.FC<{
+    entries: HistoryEntry[];
+    onRestore: (entry: HistoryEntry) => void;
+    onDelete: (id: string) => void;
+    onTogglePin: (entry: HistoryEntry) => void;
+    onClose: () => void;
+    /** Display names of the modes that still exist; entries of deleted modes show their id. */
+    modeLabels: Partial<Record<ModeId, string>>;
+}> = ({ entries, onRestore, onDelete, onTogglePin, onClose, modeLabels }) => {
+    const [query, setQuery] = useState('');
+    const [modeFilter, setModeFilter] = useState<ModeId | ''>('');
+    const [languageFilter, setLanguageFilter] = useState<Language | ''>('');
+    const inputClasses = "w-full px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm";
+
+    const filteredEntries = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return entries.filter(entry =>
+            (!modeFilter || entry.mode === modeFilter) &&
+            (!languageFilter || entry.language === languageFilter) &&
+            (!needle || [entry.prompt, entry.code, entry.response].some(text => text.toLowerCase().includes(needle)))
+        );
+    }, [entries, query, modeFilter, languageFilter]);
+
+    const modes = useMemo(() => Array.from(new Set(entries.map(entry => entry.mode))), [entries]);
+
+    return (
+        <aside className="fixed inset-y-0 left-0 z-[55] w-full max-w-sm flex flex-col bg-white dark:bg-dark-surface shadow-2xl border-r border-gray-200 dark:border-dark-border">
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-dark-border">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-dark-text-primary">History</h2>
+                <button onClick={onClose} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-white" aria-label="Close history">
+                    <XIcon className="w-5 h-5" />
+                </button>
+            </div>
+            <div className="p-4 space-y-2 border-b border-gray-200 dark:border-dark-border">
+                <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search prompts, code and responses..." className={inputClasses} />
+                <div className="flex gap-2">
+                    <select value={modeFilter} onChange={(e) => setModeFilter(e.target.value as ModeId | '')} className={inputClasses} aria-label="Filter by mode">
+                        <option value="">All modes</option>
+                        {modes.map(mode => <option key={mode} value={mode}>{modeLabels[mode] ?? mode}</option>)}
+                    </select>
+                    <select value={languageFilter} onChange={(e) => setLanguageFilter(e.target.value as Language | '')} className={inputClasses} aria-label="Filter by language">
+                        <option value="">All languages</option>
+                        {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                    </select>
+                </div>
+            </div>
+            <ul className="flex-grow overflow-y-auto divide-y divide-gray-200 dark:divide-dark-border">
+                {filteredEntries.length === 0 && (
+                    <li className="p-4 text-sm text-center text-gray-500 dark:text-dark-text-secondary">No saved sessions.</li>
+                )}
+                {filteredEntries.map(entry => (
+                    <li key={entry.id} className="group p-3 hover:bg-gray-100 dark:hover:bg-slate-700/50">
+                        <div className="flex items-start justify-between gap-2">
+                            <button onClick={() => onRestore(entry)} className="flex-grow text-left min-w-0">
+                                <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-dark-text-secondary">
+                                    <span className="font-semibold text-brand-primary">{modeLabels[entry.mode] ?? entry.mode}</span>
+                                    <span>{entry.language}</span>
+                                    <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                                </div>
+                                <p className="mt-1 text-sm truncate text-gray-800 dark:text-dark-text-primary">
+                                    {entry.prompt || entry.code.split('\n').find(line => line.trim()) || '(empty)'}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-dark-text-secondary">
+                                    {entry.thread.turns.length} turn{entry.thread.turns.length === 1 ? '' : 's'} · {entry.model}
+                                </p>
+                            </button>
+                            <div className="flex flex-col gap-1">
+                                <button onClick={() => onTogglePin(entry)} className={entry.pinned ? 'text-brand-primary' : 'text-gray-400 hover:text-brand-primary'} aria-label={entry.pinned ? 'Unpin session' : 'Pin session'}>
+                                    <PinIcon className="w-4 h-4" filled={entry.pinned} />
+                                </button>
+                                <button onClick={() => onDelete(entry.id)} className="text-gray-400 hover:text-red-500" aria-label="Delete session">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+};
+
+// --- BUNDLED: components/ReviewFindingsPanel.tsx ---
+const SEVERITY_BADGE_CLASSES: Record<ReviewSeverity, string> = {
+    'high': 'bg-red-100 text-red-700 dark:bg-red-900/60 dark:text-red-200',
+    'medium': 'bg-amber-100 text-amber-700 dark:bg-amber-900/60 dark:text-amber-200',
+    'low': 'bg-sky-100 text-sky-700 dark:bg-sky-900/60 dark:text-sky-200',
+};
+
+const ReviewFindingsPanel: React.FC<{
+    report: ReviewReport;
+    appliedFindings: Set<ReviewFinding>;
+    onApplyFix: (finding: ReviewFinding) => void;
+    onReveal: (finding: ReviewFinding) => void;
+}> = ({ report, appliedFindings, onApplyFix, onReveal }) => {
+    const [severityFilter, setSeverityFilter] = useState<ReviewSeverity | ''>('');
+    const [categoryFilter, setCategoryFilter] = useState<ReviewCategory | ''>('');
+    const inputClasses = "px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm";
+
+    const filteredFindings = useMemo(() => report.findings.filter(finding =>
+        (!severityFilter || finding.severity === severityFilter) &&
+        (!categoryFilter || finding.category === categoryFilter)
+    ), [report.findings, severityFilter, categoryFilter]);
+
+    return (
+        <div className="space-y-4 text-sm">
+            {report.summary && <p className="text-gray-700 dark:text-dark-text-primary">{report.summary}</p>}
+            <div className="flex flex-wrap items-center gap-2">
+                <select value={severityFilter} onChange={(e) => setSeverityFilter(e.target.value as ReviewSeverity | '')} className={inputClasses} aria-label="Filter by severity">
+                    <option value="">All severities</option>
+                    {REVIEW_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                </select>
+                <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value as ReviewCategory | '')} className={inputClasses} aria-label="Filter by category">
+                    <option value="">All categories</option>
+                    {REVIEW_CATEGORIES.map(category => <option key={category} value={category}>{REVIEW_CATEGORY_LABELS[category]}</option>)}
+                </select>
+                <span className="ml-auto text-xs text-gray-500 dark:text-dark-text-secondary">{filteredFindings.length} of {report.findings.length} findings</span>
+            </div>
+            {filteredFindings.length === 0 ? (
+                <p className="py-4 text-center text-gray-500 dark:text-dark-text-secondary">{report.findings.length === 0 ? 'No issues found.' : 'No findings match the filters.'}</p>
+            ) : (
+                <table className="w-full text-left border-collapse">
+                    <thead className="text-xs uppercase text-gray-500 dark:text-dark-text-secondary border-b border-gray-200 dark:border-dark-border">
+                        <tr>
+                            <th className="py-2 pr-2">Lines</th>
+                            <th className="py-2 pr-2">Severity</th>
+                            <th className="py-2 pr-2">Category</th>
+                            <th className="py-2 pr-2">Finding</th>
+                            <th className="py-2"><span className="sr-only">Actions</span></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-dark-border">
+                        {filteredFindings.map((finding, i) => (
+                            <tr key={i} className="align-top">
+                                <td className="py-2 pr-2 whitespace-nowrap">
+                                    <button onClick={() => onReveal(finding)} className="font-mono text-brand-primary hover:underline" title="Show in editor">
+                                        {finding.startLine === finding.endLine ? finding.startLine : `${finding.startLine}-${finding.endLine}`}
+                                    </button>
+                                </td>
+                                <td className="py-2 pr-2"><span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_BADGE_CLASSES[finding.severity]}`}>{finding.severity}</span></td>
+                                <td className="py-2 pr-2 whitespace-nowrap text-gray-600 dark:text-dark-text-secondary">{REVIEW_CATEGORY_LABELS[finding.category]}</td>
+                                <td className="py-2 pr-2 text-gray-800 dark:text-dark-text-primary">{finding.message}</td>
+                                <td className="py-2 text-right whitespace-nowrap">
+                                    {finding.fix !== undefined && (appliedFindings.has(finding) ? (
+                                        <span className="text-xs text-green-600 dark:text-green-400">Applied</span>
+                                    ) : (
+                                        <button onClick={() => onApplyFix(finding)} className="px-2 py-1 text-xs rounded bg-brand-primary text-white hover:bg-sky-600" title={finding.fix}>
+                                            Apply fix
+                                        </button>
+                                    ))}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/SecurityFindingsPanel.tsx ---
+const SECURITY_SEVERITY_BADGE_CLASSES: Record<SecuritySeverity, string> = {
+    'critical': 'bg-red-600 text-white dark:bg-red-700',
+    ...SEVERITY_BADGE_CLASSES,
+};
+
+const SecurityFindingsPanel: React.FC<{
+    report: SecurityReport;
+    /** The editor's view of each finding, in the order of `report.findings`; omitted while only the pre-scan has run. */
+    reviewFindings?: ReviewFinding[];
+    /** The audited code, to show each patch against the lines it replaces. */
+    code: string;
+    language: Language;
+    theme: Theme;
+    appliedFindings: Set<ReviewFinding>;
+    onApplyPatch: (finding: ReviewFinding) => void;
+    onReveal: (finding: ReviewFinding) => void;
+}> = ({ report, reviewFindings, code, language, theme, appliedFindings, onApplyPatch, onReveal }) => {
+    const [severityFilter, setSeverityFilter] = useState<SecuritySeverity | ''>('');
+    const [owaspFilter, setOwaspFilter] = useState<OwaspCategory | ''>('');
+    const [openPatches, setOpenPatches] = useState<Set<number>>(new Set());
+    const inputClasses = "px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm";
+    const codeLines = useMemo(() => code.split('\n'), [code]);
+
+    const filteredIndexes = useMemo(() => report.findings.flatMap((finding, i) =>
+        (!severityFilter || finding.severity === severityFilter) && (!owaspFilter || finding.owasp === owaspFilter) ? [i] : []
+    ), [report.findings, severityFilter, owaspFilter]);
+
+    const togglePatch = (index: number) => {
+        setOpenPatches(prev => {
+            const next = new Set(prev);
+            if (!next.delete(index)) next.add(index);
+            return next;
+        });
+    };
+
+    const renderFinding = (index: number) => {
+        const finding = report.findings[index];
+        const reviewFinding = reviewFindings?.[index];
+        const url = cweUrl(finding.cwe);
+        const lines = finding.startLine === finding.endLine ? `Line ${finding.startLine}` : `Lines ${finding.startLine}-${finding.endLine}`;
+        return (
+            <li key={index} className="p-3 space-y-2 border border-gray-200 dark:border-dark-border rounded-lg">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${SECURITY_SEVERITY_BADGE_CLASSES[finding.severity]}`}>{finding.severity}</span>
+                    <span className="font-semibold text-gray-800 dark:text-dark-text-primary">{finding.title}</span>
+                    {finding.source === 'pre-scan' && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-gray-200 dark:bg-dark-border text-gray-600 dark:text-dark-text-secondary" title="Found by the local pattern pre-scan and neither confirmed nor dismissed by the model">Pattern match</span>
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600 dark:text-dark-text-secondary">
+                    {reviewFinding ? (
+                        <button onClick={() => onReveal(reviewFinding)} className="font-mono text-brand-primary hover:underline" title="Show in editor">{lines}</button>
+                    ) : <span className="font-mono">{lines}</span>}
+                    {url ? <a href={url} target="_blank" rel="noopener noreferrer" className="text-brand-primary hover:underline">{finding.cwe}</a> : <span>{finding.cwe}</span>}
+                    <span>{finding.owasp}</span>
+                </div>
+                <p className="text-gray-800 dark:text-dark-text-primary">{finding.description}</p>
+                <p className="text-gray-700 dark:text-dark-text-secondary"><span className="font-medium">Exploit scenario:</span> {finding.exploitScenario}</p>
+                {finding.patch !== undefined && (
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => togglePatch(index)} className="px-2 py-1 text-xs rounded bg-gray-200 dark:bg-dark-border hover:bg-gray-300 dark:hover:bg-slate-600" aria-expanded={openPatches.has(index)}>
+                                {openPatches.has(index) ? 'Hide patch' : 'Show patch'}
+                            </button>
+                            {reviewFinding && (appliedFindings.has(reviewFinding) ? (
+                                <span className="text-xs text-green-600 dark:text-green-400">Applied</span>
+                            ) : (
+                                <button onClick={() => onApplyPatch(reviewFinding)} className="px-2 py-1 text-xs rounded bg-brand-primary text-white hover:bg-sky-600">
+                                    Apply patch
+                                </button>
+                            ))}
+                        </div>
+                        {openPatches.has(index) && (
+                            <CodeComparison
+                                originalCode={codeLines.slice(finding.startLine - 1, finding.endLine).join('\n')}
+                                newCode={finding.patch}
+                                language={language}
+                                theme={theme}
+                            />
+                        )}
+                    </div>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            {report.summary && <p className="text-gray-700 dark:text-dark-text-primary">{report.summary}</p>}
+            <div className="flex flex-wrap items-center gap-2">
+                <select value={severityFilter} onChange={(e) => setSeverityFilter(e.target.value as SecuritySeverity | '')} className={inputClasses} aria-label="Filter by severity">
+                    <option value="">All severities</option>
+                    {SECURITY_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                </select>
+                <select value={owaspFilter} onChange={(e) => setOwaspFilter(e.target.value as OwaspCategory | '')} className={inputClasses} aria-label="Filter by OWASP category">
+                    <option value="">All OWASP categories</option>
+                    {OWASP_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                </select>
+                <span className="ml-auto text-xs text-gray-500 dark:text-dark-text-secondary">{filteredIndexes.length} of {report.findings.length} findings</span>
+            </div>
+            {filteredIndexes.length === 0 ? (
+                <p className="py-4 text-center text-gray-500 dark:text-dark-text-secondary">{report.findings.length === 0 ? 'No vulnerabilities found.' : 'No findings match the filters.'}</p>
+            ) : (
+                <ul className="space-y-3">{filteredIndexes.map(renderFinding)}</ul>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/ExplanationPanel.tsx ---
+const formatLineRange = (range: LineRange): string =>
+    range.startLine === range.endLine ? `Line ${range.startLine}` : `Lines ${range.startLine}-${range.endLine}`;
+
+const ExplanationPanel: React.FC<{
+    explanation: CodeExplanation;
+    language: Language;
+    theme: Theme;
+    /** The section or function highlighted in the editor; compared by identity. */
+    linkedRange: LineRange | null;
+    /** False when the editor no longer shows the explained code, so line ranges can't be highlighted. */
+    canLink: boolean;
+    onHoverRange: (range: LineRange | null) => void;
+    onSelectRange: (range: LineRange) => void;
+}> = ({ explanation, language, theme, linkedRange, canLink, onHoverRange, onSelectRange }) => {
+    const itemRefs = useRef(new Map<LineRange, HTMLElement>());
+
+    // Ranges picked in the editor may be out of view here.
+    useEffect(() => {
+        if (linkedRange) itemRefs.current.get(linkedRange)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [linkedRange]);
+
+    const linkProps = (range: LineRange) => canLink ? {
+        ref: (element: HTMLElement | null) => {
+            if (element) itemRefs.current.set(range, element);
+            else itemRefs.current.delete(range);
+        },
+        onMouseEnter: () => onHoverRange(range),
+        onMouseLeave: () => onHoverRange(null),
+    } : {};
+
+    const renderRangeButton = (range: LineRange, label = formatLineRange(range)) => canLink ? (
+        <button onClick={() => onSelectRange(range)} className="font-mono text-xs text-brand-primary hover:underline" title="Show in editor">{label}</button>
+    ) : <span className="font-mono text-xs text-gray-500 dark:text-dark-text-secondary">{label}</span>;
+
+    const renderSection = (section: ExplanationSection, index: number) => (
+        <li key={index} {...linkProps(section)}
+            className={`p-3 rounded-lg border transition-colors ${linkedRange === section ? 'border-brand-primary bg-brand-primary/10 dark:bg-brand-primary/20' : 'border-gray-200 dark:border-dark-border'}`}>
+            <div className="flex items-baseline justify-between gap-2 mb-1">
+                <h3 className="font-semibold text-gray-800 dark:text-dark-text-primary">{section.title}</h3>
+                {renderRangeButton(section)}
+            </div>
+            <MarkdownResponse content={section.explanation} language={language} theme={theme} />
+        </li>
+    );
+
+    const renderComplexity = (item: FunctionComplexity, index: number) => (
+        <tr key={index} {...linkProps(item)} className={`align-top ${linkedRange === item ? 'bg-brand-primary/10 dark:bg-brand-primary/20' : ''}`}>
+            <td className="py-2 pr-2">{renderRangeButton(item, item.name)}</td>
+            <td className="py-2 pr-2 font-mono whitespace-nowrap">{item.time}</td>
+            <td className="py-2 pr-2 font-mono whitespace-nowrap">{item.space}</td>
+            <td className="py-2 text-gray-700 dark:text-dark-text-secondary">{item.notes}</td>
+        </tr>
+    );
+
+    return (
+        <div className="space-y-4 text-sm">
+            {explanation.summary && <p className="text-gray-700 dark:text-dark-text-primary">{explanation.summary}</p>}
+            {!canLink && (
+                <p className="text-xs text-amber-700 dark:text-amber-300">The editor no longer shows the explained code, so sections are not linked to its lines.</p>
+            )}
+            <ol className="space-y-3">{explanation.sections.map(renderSection)}</ol>
+            {explanation.complexity.length > 0 && (
+                <div>
+                    <h3 className="mb-2 font-semibold text-gray-800 dark:text-dark-text-primary">Complexity</h3>
+                    <table className="w-full text-left border-collapse">
+                        <thead className="text-xs uppercase text-gray-500 dark:text-dark-text-secondary border-b border-gray-200 dark:border-dark-border">
+                            <tr>
+                                <th className="py-2 pr-2">Function</th>
+                                <th className="py-2 pr-2">Time</th>
+                                <th className="py-2 pr-2">Space</th>
+                                <th className="py-2">Notes</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-dark-border">{explanation.complexity.map(renderComplexity)}</tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/TranslationView.tsx ---
+const TranslationView: React.FC<{
+    translation: CodeTranslation;
+    /** The code that was translated. */
+    sourceCode: string;
+    theme: Theme;
+    /** Shown below the tests when the translated tests can run in the sandbox. */
+    testResults?: React.ReactNode;
+}> = ({ translation, sourceCode, theme, testResults }) => {
+    const renderSideBySide = (source: string, target: string, sourceLanguage: Language = translation.sourceLanguage) => (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {[{ language: sourceLanguage, code: source }, { language: translation.targetLanguage, code: target }].map((side, i) => (
+                <div key={i} className="min-w-0">
+                    <div className="mb-1 text-xs font-medium text-gray-500 dark:text-dark-text-secondary">{side.language}</div>
+                    <div className="h-80"><CodeEditor value={side.code} language={side.language} theme={theme} readOnly={true} /></div>
+                </div>
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="space-y-4 text-sm">
+            {renderSideBySide(sourceCode, translation.code)}
+            {translation.notes && <MarkdownResponse content={translation.notes} language={translation.targetLanguage} theme={theme} />}
+            <div>
+                <h3 className="mb-2 font-semibold text-gray-800 dark:text-dark-text-primary">Idioms that don't map one-to-one</h3>
+                {translation.idioms.length === 0 ? (
+                    <p className="text-gray-500 dark:text-dark-text-secondary">Everything has a direct counterpart.</p>
+                ) : (
+                    <table className="w-full text-left border-collapse">
+                        <thead className="text-xs uppercase text-gray-500 dark:text-dark-text-secondary border-b border-gray-200 dark:border-dark-border">
+                            <tr>
+                                <th className="py-2 pr-2">{translation.sourceLanguage}</th>
+                                <th className="py-2 pr-2">{translation.targetLanguage}</th>
+                                <th className="py-2">Difference</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-dark-border">
+                            {translation.idioms.map((idiom, i) => (
+                                <tr key={i} className="align-top">
+                                    <td className="py-2 pr-2 font-mono text-xs break-words">{idiom.source}</td>
+                                    <td className="py-2 pr-2 font-mono text-xs break-words">{idiom.target}</td>
+                                    <td className="py-2 text-gray-700 dark:text-dark-text-secondary">{idiom.note}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+            {translation.tests !== undefined && (
+                <div>
+                    <h3 className="mb-2 font-semibold text-gray-800 dark:text-dark-text-primary">Tests</h3>
+                    {renderSideBySide(translation.sourceTests ?? '', translation.tests, translation.sourceTestsLanguage)}
+                    {testResults}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/TestResultsPanel.tsx ---
+interface TestRun {
+    isRunning: boolean;
+    result?: ExecutionResult;
+}
+
+const TEST_STATUS_STYLES: Record<TestCaseResult['status'], { icon: string; className: string }> = {
+    'passed': { icon: '✓', className: 'text-green-600 dark:text-green-400' },
+    'failed': { icon: '✗', className: 'text-red-600 dark:text-red-400' },
+    'skipped': { icon: '○', className: 'text-gray-400 dark:text-gray-500' },
+};
+
+const TestResultsPanel: React.FC<{
+    run?: TestRun;
+    onRun: () => void;
+    onStop: () => void;
+    /** Omitted while a follow-up can't be sent. */
+    onFixFailing?: () => void;
+}> = ({ run, onRun, onStop, onFixFailing }) => {
+    const result = run?.result;
+    const tests = result?.tests ?? [];
+    const counts = { passed: 0, failed: 0, skipped: 0 };
+    tests.forEach(test => counts[test.status]++);
+    const hasFailures = counts.failed > 0 || (!!result && !result.killed && (!!result.error || result.timedOut || tests.length === 0));
+    const outputClasses = "mt-1 p-2 max-h-48 overflow-auto rounded bg-gray-100 dark:bg-slate-900/70 text-xs font-mono whitespace-pre-wrap";
+
+    return (
+        <div className="mt-2 p-3 rounded-lg border border-gray-200 dark:border-dark-border text-sm space-y-2">
+            <div className="flex items-center gap-2">
+                {run?.isRunning ? (
+                    <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-brand-primary"></div>
+                        <span className="text-gray-600 dark:text-dark-text-secondary">Running tests...</span>
+                        <button onClick={onStop} className="ml-auto px-3 py-1 text-xs rounded bg-red-600 text-white hover:bg-red-700">Stop</button>
+                    </>
+                ) : (
+                    <>
+                        {result && tests.length > 0 && (
+                            <span className="text-gray-700 dark:text-dark-text-primary">
+                                <span className="text-green-600 dark:text-green-400">{counts.passed} passed</span>
+                                {counts.failed > 0 && <>, <span className="text-red-600 dark:text-red-400">{counts.failed} failed</span></>}
+                                {counts.skipped > 0 && <>, {counts.skipped} skipped</>}
+                                <span className="text-gray-500 dark:text-dark-text-secondary"> ({result.durationMs} ms)</span>
+                            </span>
+                        )}
+                        {result && tests.length === 0 && !result.error && !result.killed && !result.timedOut && (
+                            <span className="text-gray-500 dark:text-dark-text-secondary">No tests were found in the suite.</span>
+                        )}
+                        {result?.killed && <span className="text-gray-500 dark:text-dark-text-secondary">Test run stopped.</span>}
+                        <div className="ml-auto flex gap-2">
+                            {hasFailures && onFixFailing && (
+                                <button onClick={onFixFailing} className="px-3 py-1 text-xs rounded bg-gray-200 dark:bg-dark-border text-gray-700 dark:text-dark-text-primary hover:bg-gray-300 dark:hover:bg-slate-600">
+                                    Fix failing tests
+                                </button>
+                            )}
+                            <button onClick={onRun} className="flex items-center gap-1 px-3 py-1 text-xs rounded bg-brand-primary text-white hover:bg-sky-600">
+                                <PlayIcon className="w-3.5 h-3.5" />{result ? 'Run again' : 'Run tests'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+            {result?.timedOut && <p className="text-red-600 dark:text-red-400">The test run timed out after {result.timeoutMs / 1000} seconds and was terminated.</p>}
+            {result?.error && <pre className={`${outputClasses} text-red-700 dark:text-red-300`}>{result.error}</pre>}
+            {tests.length > 0 && (
+                <ul className="space-y-1">
+                    {tests.map((test, i) => (
+                        <li key={i}>
+                            {test.status === 'failed' ? (
+                                <details open={counts.failed <= 3}>
+                                    <summary className={`cursor-pointer ${TEST_STATUS_STYLES.failed.className}`}>{TEST_STATUS_STYLES.failed.icon} {test.name}</summary>
+                                    {test.message && <pre className={outputClasses}>{test.message}</pre>}
+                                    {test.stack && test.stack !== test.message && (
+                                        <details className="mt-1">
+                                            <summary className="cursor-pointer text-xs text-gray-500 dark:text-dark-text-secondary">Stack trace</summary>
+                                            <pre className={outputClasses}>{test.stack}</pre>
+                                        </details>
+                                    )}
+                                </details>
+                            ) : (
+                                <span className={TEST_STATUS_STYLES[test.status].className}>
+                                    {TEST_STATUS_STYLES[test.status].icon} {test.name}
+                                    {test.status === 'skipped' && test.message && <span className="text-xs"> — {test.message}</span>}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {(result?.stdout || result?.stderr) && (
+                <details>
+                    <summary className="cursor-pointer text-xs text-gray-500 dark:text-dark-text-secondary">Console output</summary>
+                    {result.stdout && <pre className={outputClasses}>{result.stdout}</pre>}
+                    {result.stderr && <pre className={`${outputClasses} text-red-700 dark:text-red-300`}>{result.stderr}</pre>}
+                </details>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/ExportMenu.tsx ---
+const ExportMenu: React.FC<{
+    onExport: (format: ExportFormat) => void;
+    /** Files the latest response would download as; the item is hidden when there are none. */
+    files: ExportFile[];
+}> = ({ onExport, files }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const items: { format: ExportFormat; label: string }[] = [
+        { format: 'markdown', label: 'Markdown (.md)' },
+        { format: 'html', label: 'HTML page (.html)' },
+        { format: 'pdf', label: 'Print / Save as PDF' },
+    ];
+    if (files.length > 0) {
+        items.push({ format: 'files', label: files.length === 1 ? `Download ${files[0].path.split('/').pop()}` : `Download ${files.length} files (.zip)` });
+    }
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button onClick={() => setIsOpen(open => !open)} aria-haspopup="menu" aria-expanded={isOpen}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-dark-text-secondary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600">
+                <DownloadIcon className="w-4 h-4" />
+                <span>Export</span>
+            </button>
+            {isOpen && (
+                <ul role="menu" className="absolute right-0 z-20 mt-1 w-56 py-1 bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border rounded-md shadow-lg text-sm">
+                    {items.map(item => (
+                        <li key={item.format}>
+                            <button role="menuitem" onClick={() => { setIsOpen(false); onExport(item.format); }}
+                                className="w-full px-3 py-2 text-left text-gray-700 dark:text-dark-text-primary hover:bg-gray-100 dark:hover:bg-slate-700/50">
+                                {item.label}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/ShareMenu.tsx ---
+const ShareMenu: React.FC<{
+    onShare: (expiresInDays?: number) => void;
+    /** When false the session is too large for a self-contained link, and the stored link's lifetime can be picked. */
+    fitsInUrl: boolean;
+}> = ({ onShare, fitsInUrl }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    // Null until the share service has said how long its links may live; the usual lifetimes are offered meanwhile.
+    const [maxDays, setMaxDays] = useState<number | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen || maxDays !== null) return;
+        // Creating the link reports an unreachable service, so a failure here only keeps the usual lifetimes.
+        fetchShareMaxDays().then(setMaxDays).catch(() => {});
+    }, [isOpen, maxDays]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button onClick={() => fitsInUrl ? onShare() : setIsOpen(open => !open)} aria-haspopup={fitsInUrl ? undefined : 'menu'} aria-expanded={fitsInUrl ? undefined : isOpen}
+                title={fitsInUrl ? 'Copy a link to this session' : 'Copy an expiring link to this session'}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-dark-text-secondary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600">
+                <LinkIcon className="w-4 h-4" />
+                <span>Share</span>
+            </button>
+            {isOpen && (
+                <ul role="menu" className="absolute right-0 z-20 mt-1 w-56 py-1 bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border rounded-md shadow-lg text-sm">
+                    <li className="px-3 py-1 text-xs text-gray-500 dark:text-dark-text-secondary">Copy a read-only link that expires in</li>
+                    {shareExpiryOptions(maxDays).map(days => (
+                        <li key={days}>
+                            <button role="menuitem" onClick={() => { setIsOpen(false); onShare(days); }}
+                                className="w-full px-3 py-2 text-left text-gray-700 dark:text-dark-text-primary hover:bg-gray-100 dark:hover:bg-slate-700/50">
+                                {days === 1 ? '1 day' : `${days} days`}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/ModeEditor.tsx ---
+const ModeEditor: React.FC<{
+    definitions: ModeDefinition[];
+    onChange: (definitions: ModeDefinition[]) => void;
+    onClose: () => void;
+    initialModeId: ModeId;
+}> = ({ definitions, onChange, onClose, initialModeId }) => {
+    const [draft, setDraft] = useState<ModeDefinition>(() => definitions.find(definition => definition.id === initialModeId) ?? definitions[0]);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const templateRef = useRef<HTMLTextAreaElement | null>(null);
+    const importInputRef = useRef<HTMLInputElement | null>(null);
+    const inputClasses = "w-full px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm disabled:opacity-50";
+    const labelClasses = "block mb-1 text-sm font-medium text-gray-700 dark:text-dark-text-secondary";
+    const secondaryButtonClasses = "px-3 py-2 text-sm font-medium text-gray-700 dark:text-dark-text-primary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600";
+
+    const isBuiltIn = isBuiltInMode(draft.id);
+    const isSaved = definitions.some(definition => definition.id === draft.id);
+    const variables = useMemo(() => {
+        const specific = isBuiltInMode(draft.id) ? MODE_SPECIFIC_VARIABLES[draft.id] ?? [] : [];
+        return [
+            ...PROMPT_VARIABLES.filter(variable => !specific.some(other => other.name === variable.name)),
+            ...specific,
+            ...draft.fields.filter(field => field.name).map(field => ({ name: field.name, description: field.label })),
+        ];
+    }, [draft.id, draft.fields]);
+
+    const selectMode = (definition: ModeDefinition) => {
+        setDraft(definition);
+        setError(null);
+        setNotice(null);
+    };
+
+    const updateDraft = (patch: Partial<ModeDefinition>) => setDraft(prev => ({ ...prev, ...patch }));
+
+    const updateField = (index: number, patch: Partial<ModeInputField>) => {
+        setDraft(prev => ({ ...prev, fields: prev.fields.map((field, i) => i === index ? { ...field, ...patch } : field) }));
+    };
+
+    const insertVariable = (name: string) => {
+        const textarea = templateRef.current;
+        const placeholder = `{{${name}}}`;
+        const start = textarea?.selectionStart ?? draft.template.length;
+        const end = textarea?.selectionEnd ?? draft.template.length;
+        updateDraft({ template: draft.template.slice(0, start) + placeholder + draft.template.slice(end) });
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+        });
+    };
+
+    const handleSave = () => {
+        const definition = { ...draft, label: draft.label.trim(), fields: draft.fields.map(field => ({ ...field, name: field.name.trim() })) };
+        const problem = validateModeDefinition(definition);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        onChange(isSaved ? definitions.map(other => other.id === definition.id ? definition : other) : [...definitions, definition]);
+        setDraft(definition);
+        setError(null);
+        setNotice(`Saved "${definition.label}".`);
+    };
+
+    const handleReset = () => {
+        if (!isBuiltInMode(draft.id)) return;
+        const builtIn = BUILT_IN_MODES[draft.id];
+        onChange(definitions.map(other => other.id === builtIn.id ? builtIn : other));
+        selectMode(builtIn);
+    };
+
+    const handleDelete = () => {
+        if (isSaved && !window.confirm(`Delete the mode "${draft.label}"?`)) return;
+        const remaining = definitions.filter(other => other.id !== draft.id);
+        onChange(remaining);
+        selectMode(remaining[0]);
+    };
+
+    const handleExport = () => {
+        downloadFile('code-assistant-modes.json', exportModeDefinitions(definitions), 'application/json');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { definitions: merged, imported } = importModeDefinitions(await file.text(), definitions);
+            onChange(merged);
+            selectMode(merged.find(definition => definition.id === draft.id) ?? merged[0]);
+            setNotice(`Imported ${imported} mode${imported === 1 ? '' : 's'}.`);
+        } catch (err: any) {
+            setError(`Could not import modes. ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true" aria-label="Modes and prompt templates" className="w-full max-w-5xl max-h-full flex flex-col bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-dark-border">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-dark-text-primary">Modes &amp; Prompt Templates</h2>
+                    <button type="button" onClick={onClose} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-white" aria-label="Close mode editor">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="flex flex-col md:flex-row min-h-0 flex-grow">
+                    <div className="md:w-56 flex-shrink-0 flex flex-col border-b md:border-b-0 md:border-r border-gray-200 dark:border-dark-border">
+                        <ul className="flex-grow overflow-y-auto p-2 space-y-1">
+                            {[...definitions, ...(isSaved ? [] : [draft])].map(definition => {
+                                const Icon = MODE_ICONS[definition.icon];
+                                return (
+                                    <li key={definition.id}>
+                                        <button onClick={() => selectMode(definition)}
+                                            className={`w-full flex items-center gap-2 px-3 py-2 rounded-md text-sm text-left ${definition.id === draft.id ? 'bg-brand-primary text-white' : 'text-gray-700 dark:text-dark-text-primary hover:bg-gray-100 dark:hover:bg-slate-700/50'}`}>
+                                            <Icon className="w-4 h-4 flex-shrink-0" />
+                                            <span className="truncate">{definition.id === draft.id ? draft.label || 'Untitled' : definition.label}</span>
+                                            {!isBuiltInMode(definition.id) && <span className="ml-auto text-xs opacity-70">custom</span>}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        <div className="flex flex-wrap gap-2 p-2 border-t border-gray-200 dark:border-dark-border">
+                            <button onClick={() => selectMode(createCustomMode())} className={secondaryButtonClasses}>New</button>
+                            <button onClick={() => importInputRef.current?.click()} className={secondaryButtonClasses}>Import</button>
+                            <button onClick={handleExport} className={secondaryButtonClasses}>Export</button>
+                            <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                        </div>
+                    </div>
+                    <div className="flex-grow overflow-y-auto p-4 space-y-4">
+                        <div className="flex gap-4">
+                            <div className="flex-grow">
+                                <label htmlFor="mode-label-input" className={labelClasses}>Name</label>
+                                <input id="mode-label-input" value={draft.label} onChange={(e) => updateDraft({ label: e.target.value })} className={inputClasses} />
+                            </div>
+                            <div>
+                                <span className={labelClasses}>Icon</span>
+                                <div className="flex flex-wrap gap-1">
+                                    {MODE_ICON_NAMES.map(name => {
+                                        const Icon = MODE_ICONS[name];
+                                        return (
+                                            <button key={name} onClick={() => updateDraft({ icon: name })} aria-label={name} aria-pressed={draft.icon === name}
+                                                className={`p-1.5 rounded-md ${draft.icon === name ? 'bg-brand-primary text-white' : 'text-gray-600 dark:text-dark-text-secondary hover:bg-gray-200 dark:hover:bg-slate-700'}`}>
+                                                <Icon className="w-4 h-4" />
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="mode-template-input" className={labelClasses}>Prompt template</label>
+                            <div className="flex flex-wrap gap-1 mb-2">
+                                {variables.map(variable => (
+                                    <button key={variable.name} onClick={() => insertVariable(variable.name)} title={variable.description}
+                                        className="px-2 py-0.5 text-xs font-mono rounded bg-gray-200 dark:bg-dark-border text-gray-700 dark:text-dark-text-primary hover:bg-gray-300 dark:hover:bg-slate-600">
+                                        {`{{${variable.name}}}`}
+                                    </button>
+                                ))}
+                            </div>
+                            <textarea id="mode-template-input" ref={templateRef} value={draft.template} onChange={(e) => updateDraft({ template: e.target.value })} rows={14} spellCheck={false} className={`${inputClasses} font-mono resize-y`} />
+                        </div>
+                        <fieldset className="space-y-2">
+                            <legend className={labelClasses}>Inputs</legend>
+                            {isBuiltIn && (
+                                <p className="text-xs text-gray-500 dark:text-dark-text-secondary">Built-in modes keep their inputs. You can still change the name, icon, template and extra fields.</p>
+                            )}
+                            <div className="flex flex-wrap items-center gap-4 text-sm">
+                                <label className="flex items-center gap-2">
+                                    <span>Code</span>
+                                    <select value={draft.code} disabled={isBuiltIn} onChange={(e) => updateDraft({ code: e.target.value as ModeDefinition['code'] })} className={inputClasses}>
+                                        <option value="required">Required</option>
+                                        <option value="optional">Optional</option>
+                                        <option value="none">Not used</option>
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-2">
+                                    <input type="checkbox" checked={draft.input !== null} disabled={isBuiltIn}
+                                        onChange={(e) => updateDraft({ input: e.target.checked ? { placeholder: '', required: true } : null })} />
+                                    <span>Prompt box</span>
+                                </label>
+                                {draft.input && (
+                                    <>
+                                        <input value={draft.input.placeholder} disabled={isBuiltIn} placeholder="Placeholder text"
+                                            onChange={(e) => updateDraft({ input: { ...draft.input!, placeholder: e.target.value } })} className={`${inputClasses} flex-1 min-w-[12rem]`} />
+                                        <label className="flex items-center gap-2">
+                                            <input type="checkbox" checked={draft.input.required} disabled={isBuiltIn}
+                                                onChange={(e) => updateDraft({ input: { ...draft.input!, required: e.target.checked } })} />
+                                            <span>Required</span>
+                                        </label>
+                                    </>
+                                )}
+                            </div>
+                        </fieldset>
+                        <fieldset className="space-y-2">
+                            <legend className={labelClasses}>Extra fields</legend>
+                            {draft.fields.map((field, index) => (
+                                <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-md border border-gray-200 dark:border-dark-border text-sm">
+                                    <input value={field.name} onChange={(e) => updateField(index, { name: e.target.value })} placeholder="name" aria-label="Variable name" className={`${inputClasses} font-mono w-32`} />
+                                    <input value={field.label} onChange={(e) => updateField(index, { label: e.target.value })} placeholder="Label" aria-label="Label" className={`${inputClasses} flex-1 min-w-[8rem]`} />
+                                    <select value={field.type} onChange={(e) => updateField(index, { type: e.target.value as ModeInputField['type'] })} aria-label="Field type" className={`${inputClasses} w-28`}>
+                                        {MODE_FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    {field.type === 'select' ? (
+                                        <input value={(field.options ?? []).join(', ')} placeholder="Options, comma separated" aria-label="Options"
+                                            onChange={(e) => updateField(index, { options: e.target.value.split(',').map(option => option.trim()).filter(Boolean) })} className={`${inputClasses} flex-1 min-w-[10rem]`} />
+                                    ) : (
+                                        <input value={field.placeholder ?? ''} onChange={(e) => updateField(index, { placeholder: e.target.value })} placeholder="Placeholder" aria-label="Placeholder" className={`${inputClasses} flex-1 min-w-[10rem]`} />
+                                    )}
+                                    <label className="flex items-center gap-1">
+                                        <input type="checkbox" checked={field.required} onChange={(e) => updateField(index, { required: e.target.checked })} />
+                                        <span>Required</span>
+                                    </label>
+                                    <button onClick={() => updateDraft({ fields: draft.fields.filter((_, i) => i !== index) })} className="text-gray-400 hover:text-red-500" aria-label={`Remove field ${field.name}`}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                            <button onClick={() => updateDraft({ fields: [...draft.fields, { name: '', label: '', type: 'text', required: false }] })} className={secondaryButtonClasses}>Add field</button>
+                        </fieldset>
+                        {error && <div className="p-3 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">{error}</div>}
+                        {notice && !error && <div className="p-3 text-sm text-green-700 dark:text-green-200 bg-green-100 dark:bg-green-900/60 rounded-md">{notice}</div>}
+                        <div className="flex justify-end gap-2">
+                            {isBuiltIn ? (
+                                <button onClick={handleReset} className={secondaryButtonClasses}>Reset to default</button>
+                            ) : (
+                                <button onClick={handleDelete} className="px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700">{isSaved ? 'Delete' : 'Discard'}</button>
+                            )}
+                            <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded-md hover:bg-sky-600">Save</button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-    if (!validateEmail(email)) {
-      setError("Please enter a valid email address.");
-      return;
-    }
-    
-    if (password.length < 6) {
-        setError("Password must be at least 6 characters long.");
-        return;
-    }
+// --- BUNDLED: components/UsageDashboard.tsx ---
+const USAGE_RANGES = [7, 30, 90];
 
-    if (isLoginView) {
-      onLogin();
-    } else {
-      if (password !== confirmPassword) {
-        setError("Passwords do not match.");
-        return;
-      }
-      onSignup();
-    }
-  };
-  
-  const toggleView = () => {
-      setIsLoginView(!isLoginView);
-      setEmail('');
-      setPassword('');
-      setConfirmPassword('');
-      setError(null);
-  }
+const formatTokenCount = (tokens: number): string => {
+    if (tokens >= 1e6) return `${(tokens / 1e6).toFixed(1)}M`;
+    if (tokens >= 1e4) return `${Math.round(tokens / 1e3)}k`;
+    return tokens.toLocaleString();
+};
 
-  return (
-    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-dark-bg">
-      <div className="w-full max-w-md p-8 space-y-8 bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
-        <div className="flex flex-col items-center">
-            <div className="p-3 bg-brand-secondary rounded-full mb-4">
-                <CodeIcon className="w-8 h-8 text-white"/>
+const formatUsageCost = (totals: UsageTotals): string => {
+    const cost = totals.requests > totals.unpricedRequests ? formatCost(totals.cost) : '–';
+    return totals.unpricedRequests > 0 && totals.requests > totals.unpricedRequests ? `${cost}+` : cost;
+};
+
+const UsageDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const [records, setRecords] = useState<UsageRecord[]>(loadUsageRecords);
+    const [days, setDays] = useState<number>(USAGE_RANGES[0]);
+    const summary = useMemo(() => summarizeUsage(records, days), [records, days]);
+    const maxDayTokens = Math.max(1, ...summary.days.map(day => day.inputTokens + day.outputTokens));
+    const cellClasses = "px-2 py-1 text-right tabular-nums";
+
+    const handleClear = () => {
+        if (!window.confirm('Delete all usage records?')) return;
+        clearUsageRecords();
+        setRecords([]);
+    };
+
+    const renderTotals = (totals: UsageTotals) => (
+        <>
+            <td className={cellClasses}>{totals.requests}</td>
+            <td className={cellClasses}>{formatTokenCount(totals.inputTokens)}</td>
+            <td className={cellClasses}>{formatTokenCount(totals.outputTokens)}</td>
+            <td className={cellClasses}>{formatUsageCost(totals)}</td>
+        </>
+    );
+
+    const renderTableHead = (first: string) => (
+        <thead className="text-xs text-gray-500 dark:text-dark-text-secondary">
+            <tr>
+                <th className="px-2 py-1 text-left font-medium">{first}</th>
+                <th className="px-2 py-1 text-right font-medium">Requests</th>
+                <th className="px-2 py-1 text-right font-medium">Input</th>
+                <th className="px-2 py-1 text-right font-medium">Output</th>
+                <th className="px-2 py-1 text-right font-medium">Cost</th>
+            </tr>
+        </thead>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+            <div onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true" aria-label="Usage" className="w-full max-w-2xl max-h-full flex flex-col bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-dark-border">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-dark-text-primary">Usage</h2>
+                    <div className="flex items-center gap-2">
+                        <select value={days} onChange={(e) => setDays(Number(e.target.value))} aria-label="Time range"
+                            className="px-2 py-1 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm">
+                            {USAGE_RANGES.map(range => <option key={range} value={range}>Last {range} days</option>)}
+                        </select>
+                        <button onClick={onClose} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-white" aria-label="Close usage">
+                            <XIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+                <div className="p-4 space-y-6 overflow-y-auto text-sm">
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div className="p-3 rounded-lg bg-gray-100 dark:bg-dark-bg">
+                            <div className="text-xl font-semibold">{summary.total.requests}</div>
+                            <div className="text-xs text-gray-500 dark:text-dark-text-secondary">requests</div>
+                        </div>
+                        <div className="p-3 rounded-lg bg-gray-100 dark:bg-dark-bg">
+                            <div className="text-xl font-semibold">{formatTokenCount(summary.total.inputTokens + summary.total.outputTokens)}</div>
+                            <div className="text-xs text-gray-500 dark:text-dark-text-secondary">tokens</div>
+                        </div>
+                        <div className="p-3 rounded-lg bg-gray-100 dark:bg-dark-bg">
+                            <div className="text-xl font-semibold">{formatUsageCost(summary.total)}</div>
+                            <div className="text-xs text-gray-500 dark:text-dark-text-secondary">estimated cost</div>
+                        </div>
+                    </div>
+                    <section>
+                        <h3 className="mb-2 font-semibold text-gray-700 dark:text-dark-text-secondary">Per day</h3>
+                        <table className="w-full">
+                            {renderTableHead('Day')}
+                            <tbody>
+                                {[...summary.days].reverse().filter(day => day.requests > 0).map(day => (
+                                    <tr key={day.date} className="border-t border-gray-200 dark:border-dark-border">
+                                        <td className="px-2 py-1">
+                                            <div>{day.date}</div>
+                                            <div className="h-1.5 mt-1 rounded bg-brand-primary" style={{ width: `${(day.inputTokens + day.outputTokens) / maxDayTokens * 100}%` }} />
+                                        </td>
+                                        {renderTotals(day)}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {summary.total.requests === 0 && <p className="py-4 text-center text-gray-500 dark:text-dark-text-secondary">No requests in this period.</p>}
+                    </section>
+                    {summary.modes.length > 0 && (
+                        <section>
+                            <h3 className="mb-2 font-semibold text-gray-700 dark:text-dark-text-secondary">Per mode</h3>
+                            <table className="w-full">
+                                {renderTableHead('Mode')}
+                                <tbody>
+                                    {summary.modes.map(entry => (
+                                        <tr key={entry.mode ?? ''} className="border-t border-gray-200 dark:border-dark-border">
+                                            <td className="px-2 py-1">{entry.mode === null ? 'Conversation summaries' : entry.mode === 'inline-completion' ? 'Inline completions' : getModeDefinition(entry.mode)?.label ?? entry.mode}</td>
+                                            {renderTotals(entry)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </section>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-dark-text-secondary">
+                        Costs are estimates from list prices; "+" marks totals that leave out requests to models without a known price.
+                        Counts are stored in this browser only.
+                    </p>
+                </div>
+                <div className="flex justify-end p-4 border-t border-gray-200 dark:border-dark-border">
+                    <button onClick={handleClear} disabled={records.length === 0} className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed">
+                        Clear usage
+                    </button>
+                </div>
             </div>
-          <h2 className="text-3xl font-bold text-center text-gray-900 dark:text-dark-text-primary">
-            {isLoginView ? 'Sign in to your account' : 'Create a new account'}
-          </h2>
-          <p className="mt-2 text-center text-md text-gray-600 dark:text-dark-text-secondary">
-            to continue to <span className="font-bold text-brand-primary">Code Assistant Pro</span>
-          </p>
         </div>
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="email-address" className="sr-only">Email address</label>
-              <input
-                id="email-address"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-dark-border bg-gray-50 dark:bg-dark-bg placeholder-gray-500 dark:placeholder-dark-text-secondary text-gray-900 dark:text-dark-text-primary rounded-t-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary focus:z-10 sm:text-sm"
-                placeholder="Email address"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-              />
+    );
+};
+
+// --- BUNDLED: components/ErrorBanner.tsx ---
+const MODEL_ERROR_BANNERS: Record<ModelErrorKind, { title: string; hint: (provider: string) => string; action?: 'settings' }> = {
+    'auth': {
+        title: 'API key missing or invalid',
+        hint: provider => `${provider} did not accept the request's credentials. Check the API key and the selected model in Model Settings.`,
+        action: 'settings',
+    },
+    'quota': {
+        title: 'Rate limited',
+        hint: provider => `The ${provider} quota or rate limit was reached. Wait a minute before trying again, or switch to a model with a higher limit.`,
+        action: 'settings',
+    },
+    'safety': {
+        title: 'Blocked by safety filters',
+        hint: () => 'The model declined this request. Rephrase the prompt or remove the content that triggered the filter, then try again.',
+    },
+    'network': {
+        title: 'Network error',
+        hint: provider => `${provider} could not be reached. Check your connection, or the endpoint URL in Model Settings.`,
+        action: 'settings',
+    },
+    'timeout': {
+        title: 'Request timed out',
+        hint: () => 'The model stopped responding. Try again, or pick a faster model for large inputs.',
+        action: 'settings',
+    },
+    'server': {
+        title: 'Provider unavailable',
+        hint: provider => `${provider} reported a server error. This is usually temporary; try again in a few minutes.`,
+    },
+    'unknown': {
+        title: 'Request failed',
+        hint: () => 'The request failed unexpectedly. Try again; if it keeps failing, check the browser console for details.',
+    },
+};
+
+// Shown once a request has failed for good; while a transient failure is being retried, RetryBanner is shown instead.
+const ModelErrorBanner: React.FC<{ error: ModelError; providerLabel: string; onOpenSettings: () => void }> = ({ error, providerLabel, onOpenSettings }) => {
+    const banner = MODEL_ERROR_BANNERS[error.kind];
+    return (
+        <div className="p-3 my-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">
+            <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                    <p className="font-semibold">{banner.title}</p>
+                    <p className="mt-1">{banner.hint(providerLabel)}</p>
+                    <p className="mt-1 text-xs opacity-80 break-words">{error.message}</p>
+                </div>
+                {banner.action === 'settings' && (
+                    <button onClick={onOpenSettings} className="flex-shrink-0 px-3 py-1.5 text-xs font-medium rounded-md bg-red-200 dark:bg-red-800/60 hover:bg-red-300 dark:hover:bg-red-700/60">
+                        Model Settings
+                    </button>
+                )}
             </div>
-            <div>
-              <label htmlFor="password" className="sr-only">Password</label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete={isLoginView ? "current-password" : "new-password"}
-                required
-                className={`appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-dark-border bg-gray-50 dark:bg-dark-bg placeholder-gray-500 dark:placeholder-dark-text-secondary text-gray-900 dark:text-dark-text-primary ${isLoginView ? 'rounded-b-md' : ''} focus:outline-none focus:ring-brand-primary focus:border-brand-primary focus:z-10 sm:text-sm`}
-                placeholder="Password (min. 6 characters)"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
+        </div>
+    );
+};
+
+interface RetryNotice {
+    error: ModelError;
+    attempt: number;
+    retryAt: number;
+}
+
+const RetryBanner: React.FC<{ notice: RetryNotice }> = ({ notice }) => {
+    const [now, setNow] = useState<number>(Date.now);
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, [notice]);
+    const seconds = Math.max(0, Math.ceil((notice.retryAt - now) / 1000));
+    return (
+        <div className="p-3 my-2 text-sm text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/40 rounded-md" role="status">
+            <span className="font-semibold">{MODEL_ERROR_BANNERS[notice.error.kind].title}</span>
+            {seconds > 0 ? `, retrying in ${seconds}s` : ', retrying now'} (attempt {notice.attempt + 1} of {RETRY_LIMIT + 1}).
+        </div>
+    );
+};
+
+// --- BUNDLED: components/CommandPalette.tsx ---
+const KBD_CLASSES = "px-1.5 py-0.5 text-xs font-mono whitespace-nowrap rounded border border-gray-300 dark:border-dark-border bg-gray-100 dark:bg-dark-bg text-gray-600 dark:text-dark-text-secondary";
+
+const CommandPalette: React.FC<{ commands: PaletteCommand[]; onClose: () => void }> = ({ commands, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [selected, setSelected] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+    const results = useMemo(() => searchCommands(commands, query), [commands, query]);
+
+    useEffect(() => {
+        listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+    }, [selected]);
+
+    const run = (command: PaletteCommand) => {
+        onClose();
+        command.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (results.length > 0) setSelected(index => (index + (e.key === 'ArrowDown' ? 1 : results.length - 1)) % results.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (results[selected]) run(results[selected]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-start justify-center bg-black/50 p-4 pt-[15vh]" onClick={onClose}>
+            <div onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true" aria-label="Command palette"
+                className="w-full max-w-xl max-h-[70vh] flex flex-col bg-white dark:bg-dark-surface rounded-lg shadow-2xl overflow-hidden">
+                <input autoFocus value={query} onChange={(e) => { setQuery(e.target.value); setSelected(0); }} onKeyDown={handleKeyDown}
+                    placeholder="Search modes, languages, history and actions..." role="combobox" aria-expanded="true" aria-controls="command-palette-results"
+                    aria-activedescendant={results[selected] ? `command-palette-${selected}` : undefined}
+                    className="w-full px-4 py-3 bg-transparent border-b border-gray-200 dark:border-dark-border focus:outline-none text-sm text-gray-900 dark:text-dark-text-primary" />
+                {results.length > 0 ? (
+                    <ul ref={listRef} id="command-palette-results" role="listbox" className="overflow-y-auto py-1">
+                        {results.map((command, index) => (
+                            <li key={command.id} id={`command-palette-${index}`} role="option" aria-selected={index === selected}
+                                onMouseMove={() => setSelected(index)} onClick={() => run(command)}
+                                className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${index === selected ? 'bg-brand-primary/20' : ''}`}>
+                                <span className="w-20 flex-shrink-0 text-xs text-gray-500 dark:text-dark-text-secondary">{command.group}</span>
+                                <span className="flex-grow min-w-0 truncate text-gray-800 dark:text-dark-text-primary">
+                                    {command.label}
+                                    {command.detail && <span className="ml-2 text-xs text-gray-500 dark:text-dark-text-secondary">{command.detail}</span>}
+                                </span>
+                                {command.shortcut && <kbd className={KBD_CLASSES}>{formatShortcut(command.shortcut)}</kbd>}
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-dark-text-secondary">No matching commands.</p>
+                )}
             </div>
-            {!isLoginView && (
-              <div>
-                <label htmlFor="confirm-password" className="sr-only">Confirm Password</label>
-                <input
-                  id="confirm-password"
-                  name="confirm-password"
-                  type="password"
-                  autoComplete="new-password"
-                  required
-                  className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-dark-border bg-gray-50 dark:bg-dark-bg placeholder-gray-500 dark:placeholder-dark-text-secondary text-gray-900 dark:text-dark-text-primary rounded-b-md focus:outline-none focus:ring-brand-primary focus:border-brand-primary focus:z-10 sm:text-sm"
-                  placeholder="Confirm Password"
-                  value={confirmPassword}
-                  onChange={(e) => setConfirmPassword(e.target.value)}
-                />
-              </div>
-            )}
-          </div>
-          
-          {error && (
-            <div className="p-3 my-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md text-center" role="alert">
-                {error}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/ShortcutsHelp.tsx ---
+// Editor keys that can't be rebound, listed so the overlay covers everything the keyboard can do.
+const FIXED_EDITOR_SHORTCUTS: { key: string; label: string }[] = [
+    { key: 'Tab', label: 'Accept the inline suggestion' },
+    { key: 'Escape', label: 'Dismiss the inline suggestion' },
+    { key: 'Mod-z', label: 'Undo' },
+    { key: 'Mod-Shift-z', label: 'Redo' },
+];
+
+const ShortcutsHelp: React.FC<{
+    definitions: ShortcutDefinition[];
+    bindings: ShortcutBindings;
+    onRebind: (id: string, key: string | null) => void;
+    onReset: () => void;
+    onClose: () => void;
+}> = ({ definitions, bindings, onRebind, onReset, onClose }) => {
+    // The shortcut whose button is waiting for a key press.
+    const [recordingId, setRecordingId] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const sections: { title: string; definitions: ShortcutDefinition[] }[] = [
+        { title: 'General', definitions: definitions.filter(definition => definition.scope === 'global' && !modeFromShortcutId(definition.id)) },
+        { title: 'Editor', definitions: definitions.filter(definition => definition.scope === 'editor') },
+        { title: 'Modes', definitions: definitions.filter(definition => !!modeFromShortcutId(definition.id)) },
+    ];
+
+    const handleRecordKey = (e: React.KeyboardEvent, definition: ShortcutDefinition) => {
+        if (recordingId !== definition.id) return;
+        // The key press is the new binding; it must not run anything else.
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            setRecordingId(null);
+            return;
+        }
+        const shortcut = shortcutFromEvent(e.nativeEvent);
+        if (!shortcut) return;
+        const previous = definitions.find(other => other.id !== definition.id && bindings[other.id] && normalizeShortcut(bindings[other.id]!) === shortcut);
+        onRebind(definition.id, shortcut);
+        setRecordingId(null);
+        setNotice(previous ? `${formatShortcut(shortcut)} no longer runs "${previous.label}".` : null);
+    };
+
+    const renderRow = (definition: ShortcutDefinition) => {
+        const key = bindings[definition.id];
+        const isRecording = recordingId === definition.id;
+        return (
+            <li key={definition.id} className="flex items-center gap-2 py-1.5">
+                <span className="flex-grow min-w-0 truncate text-gray-700 dark:text-dark-text-primary">{definition.label}</span>
+                <button onClick={() => { setRecordingId(isRecording ? null : definition.id); setNotice(null); }} onKeyDown={(e) => handleRecordKey(e, definition)}
+                    onBlur={() => { if (isRecording) setRecordingId(null); }} title="Click, then press the new shortcut"
+                    className={`min-w-[6rem] px-2 py-1 text-xs rounded-md text-right ${isRecording ? 'ring-2 ring-brand-primary' : 'hover:bg-gray-100 dark:hover:bg-slate-700'}`}>
+                    {isRecording ? (
+                        <span className="text-brand-primary">Press keys...</span>
+                    ) : key ? (
+                        <kbd className={KBD_CLASSES}>{formatShortcut(key)}</kbd>
+                    ) : (
+                        <span className="text-gray-400 dark:text-gray-500">Not set</span>
+                    )}
+                </button>
+                <button onClick={() => onRebind(definition.id, null)} disabled={!key} className="text-gray-400 hover:text-red-500 disabled:invisible" aria-label={`Remove the shortcut for ${definition.label}`}>
+                    <XIcon className="w-3.5 h-3.5" />
+                </button>
+            </li>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4" onClick={onClose}
+            onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}>
+            <div onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true" aria-label="Keyboard shortcuts"
+                className="w-full max-w-2xl max-h-full flex flex-col bg-white dark:bg-dark-surface rounded-lg shadow-2xl">
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-dark-border">
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-dark-text-primary">Keyboard Shortcuts</h2>
+                    <button onClick={onClose} autoFocus className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-white" aria-label="Close keyboard shortcuts">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="p-4 overflow-y-auto text-sm grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-4">
+                    {sections.map(section => (
+                        <section key={section.title}>
+                            <h3 className="mb-1 text-xs font-semibold uppercase text-gray-500 dark:text-dark-text-secondary">{section.title}</h3>
+                            <ul>
+                                {section.definitions.map(renderRow)}
+                                {section.title === 'Editor' && FIXED_EDITOR_SHORTCUTS.map(shortcut => (
+                                    <li key={shortcut.key} className="flex items-center gap-2 py-1.5">
+                                        <span className="flex-grow min-w-0 truncate text-gray-700 dark:text-dark-text-primary">{shortcut.label}</span>
+                                        <span className="min-w-[6rem] px-2 text-right"><kbd className={KBD_CLASSES}>{formatShortcut(shortcut.key)}</kbd></span>
+                                        <span className="w-3.5" />
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+                <div className="flex items-center justify-between gap-2 p-4 border-t border-gray-200 dark:border-dark-border text-sm">
+                    <p className="text-gray-500 dark:text-dark-text-secondary">{notice ?? 'Click a shortcut, then press the new keys. Escape cancels.'}</p>
+                    <button onClick={() => { onReset(); setNotice(null); }}
+                        className="flex-shrink-0 px-3 py-1.5 text-xs font-medium rounded-md bg-gray-200 dark:bg-dark-border hover:bg-gray-300 dark:hover:bg-slate-600 text-gray-700 dark:text-dark-text-primary">
+                        Reset to defaults
+                    </button>
+                </div>
             </div>
-          )}
+        </div>
+    );
+};
 
-          <div>
-            <button
-              type="submit"
-              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-brand-primary hover:bg-sky-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 dark:focus:ring-offset-dark-bg focus:ring-brand-primary transition-colors duration-200"
-            >
-              {isLoginView ? 'Sign in' : 'Sign up'}
+// --- BUNDLED: components/CodeAssistant.tsx ---
+
+// A paste counts as new code, worth re-detecting the language for, once it makes up most of the document.
+const PASTE_DETECTION_SHARE = 0.5;
+
+const detectPastedLanguage = (update: ViewUpdate): Language | null => {
+  let pasted = 0;
+  for (const transaction of update.transactions) {
+    if (transaction.isUserEvent('input.paste')) {
+      transaction.changes.iterChanges((fromA, toA, fromB, toB) => { pasted += toB - fromB; });
+    }
+  }
+  const doc = update.state.doc;
+  return pasted > 0 && pasted >= doc.length * PASTE_DETECTION_SHARE ? detectLanguage(doc.toString()) : null;
+};
+
+// Reports hovered lines to `onLineActivity`, only when the line changes so moving within a line stays quiet.
+const lineActivityHandlers = (onLineActivity: (line: number | null) => void): Extension => {
+  let lastLine: number | null = null;
+  const report = (line: number | null) => {
+    if (line === lastLine) return;
+    lastLine = line;
+    onLineActivity(line);
+  };
+  return EditorView.domEventHandlers({
+    mousemove: (event, view) => {
+      const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+      if (pos !== null) report(view.state.doc.lineAt(pos).number);
+    },
+    mouseleave: (event, view) => {
+      report(view.hasFocus ? view.state.doc.lineAt(view.state.selection.main.head).number : null);
+    },
+  });
+};
+
+const SYNTAX_DIAGNOSTIC_SOURCE = 'Syntax';
+// Checking waits for a pause in typing.
+const SYNTAX_CHECK_DELAY_MS = 500;
+
+/** Replaces the syntax error diagnostic of `view`, keeping every other diagnostic where edits have moved it. */
+const setSyntaxDiagnostic = (view: EditorView, problem: SyntaxProblem | null) => {
+  const diagnostics: Diagnostic[] = [];
+  let hadSyntaxDiagnostic = false;
+  forEachDiagnostic(view.state, (diagnostic, from, to) => {
+    if (diagnostic.source === SYNTAX_DIAGNOSTIC_SOURCE) hadSyntaxDiagnostic = true;
+    else diagnostics.push(moveDiagnostic(diagnostic, from, to));
+  });
+  if (!problem && !hadSyntaxDiagnostic) return;
+  if (problem) {
+    const line = view.state.doc.line(Math.min(problem.line, view.state.doc.lines));
+    const from = Math.min(line.from + problem.column - 1, line.to);
+    diagnostics.push({ from, to: Math.min(from + 1, line.to), severity: 'error', source: SYNTAX_DIAGNOSTIC_SOURCE, message: problem.message });
+  }
+  view.dispatch(setDiagnostics(view.state, diagnostics));
+};
+
+/** Formats the document as one undoable change, keeping the cursor's line. Skipped if the document changes while the formatter runs. */
+const formatEditorDocument = async (view: EditorView, language: Language): Promise<void> => {
+  const original = view.state.doc.toString();
+  const formatted = await formatCode(original, language);
+  if (formatted === original || view.state.doc.toString() !== original) return;
+  const formattedDoc = Text.of(formatted.split('\n'));
+  const cursorLine = Math.min(view.state.doc.lineAt(view.state.selection.main.head).number, formattedDoc.lines);
+  view.dispatch({
+    changes: { from: 0, to: view.state.doc.length, insert: formattedDoc },
+    selection: { anchor: formattedDoc.line(cursorLine).from },
+    scrollIntoView: true,
+    userEvent: 'input.format',
+  });
+};
+
+const CodeEditor: React.FC<{
+  value: string;
+  onChange?: (value: string) => void;
+  language: Language;
+  theme: Theme;
+  readOnly?: boolean;
+  /** Receives the underlying EditorView so callers can dispatch transactions (e.g. to apply AI suggestions). */
+  editorViewRef?: React.MutableRefObject<EditorView | null>;
+  /** Builds lint diagnostics for the document; they are replaced whenever this function changes. */
+  buildDiagnostics?: (doc: Text) => Diagnostic[];
+  /** Called when pasted code looks like a different language than the current one. */
+  onLanguageDetected?: (language: Language) => void;
+  /** Called with the line under the mouse, or with the cursor's line when it moves or the mouse leaves (null if unfocused). */
+  onLineActivity?: (line: number | null) => void;
+  /** Enables ghost-text completions while typing. */
+  completionSource?: CompletionSource;
+  /** Enables the selection menu; called with the chosen action and the selected range. */
+  onSelectionAction?: (action: SelectionAction, range: { from: number; to: number }) => void;
+  /** Called when the submit shortcut is pressed in the editor. */
+  onSubmit?: () => void;
+  /** Keys of the shortcuts the editor handles; the defaults when omitted. */
+  keyBindings?: EditorKeyBindings;
+  /** Marks the first syntax error, for languages whose syntax can be checked. */
+  showSyntaxErrors?: boolean;
+}> = ({ value, onChange, language, theme, readOnly = false, editorViewRef, buildDiagnostics, onLanguageDetected, onLineActivity, completionSource, onSelectionAction, onSubmit, keyBindings, showSyntaxErrors = false }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  // Position of the open selection menu, relative to the editor.
+  const [menu, setMenu] = useState<{ left: number; top: number } | null>(null);
+
+  const getThemeExtension = useCallback((theme: Theme) => {
+      return theme === 'dark' ? oneDark : EditorView.theme({});
+  }, []);
+
+  const openMenu = useCallback((x: number, y: number) => {
+    const rect = editorRef.current?.getBoundingClientRect();
+    if (rect) setMenu({ left: x - rect.left, top: y - rect.top });
+  }, []);
+
+  const editorKeys = keyBindings ?? DEFAULT_EDITOR_KEY_BINDINGS;
+
+  const buildExtensions = () => [
+    lineNumbers(),
+    lintGutter(),
+    linter(null),
+    history(),
+    keymap.of([...defaultKeymap, ...historyKeymap]),
+    getThemeExtension(theme),
+    EditorView.lineWrapping,
+    getLanguageSupport(language),
+    EditorState.readOnly.of(readOnly),
+    EditorView.updateListener.of((update) => {
+      if (update.docChanged && onChange) {
+        onChange(update.state.doc.toString());
+      }
+      if (update.docChanged && onLanguageDetected) {
+        const detected = detectPastedLanguage(update);
+        if (detected && detected !== language) onLanguageDetected(detected);
+      }
+      if (update.selectionSet && onLineActivity) {
+        onLineActivity(update.state.doc.lineAt(update.state.selection.main.head).number);
+      }
+    }),
+    lineHighlightField,
+    lineHighlightTheme,
+    onLineActivity && lineActivityHandlers(onLineActivity),
+    !readOnly && completionSource && inlineCompletion(completionSource, language),
+    !readOnly && onSelectionAction && selectionMenu(openMenu, editorKeys.selectionMenu),
+    // Ahead of the default keymap, which binds Mod-Enter to inserting a line.
+    onSubmit && editorKeys.submit && Prec.highest(keymap.of([{ key: editorKeys.submit, run: () => { onSubmit(); return true; } }])),
+  ].filter((extension): extension is Extension => !!extension);
+
+  useEffect(() => {
+    if (!editorRef.current) return;
+
+    const startState = EditorState.create({
+      doc: value,
+      extensions: buildExtensions(),
+    });
+
+    const view = new EditorView({
+      state: startState,
+      parent: editorRef.current,
+    });
+    viewRef.current = view;
+    if (editorViewRef) editorViewRef.current = view;
+
+    return () => {
+      if (editorViewRef?.current === view) editorViewRef.current = null;
+      view.destroy();
+    };
+  }, []); // Should only run on mount
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && value !== view.state.doc.toString()) {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: value },
+      });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view) {
+      view.dispatch({
+        effects: StateEffect.reconfigure.of(buildExtensions()),
+      });
+    }
+  }, [language, readOnly, theme, getThemeExtension, onChange, onLanguageDetected, onLineActivity, completionSource, onSelectionAction, onSubmit, keyBindings]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view) {
+      view.dispatch(setDiagnostics(view.state, buildDiagnostics?.(view.state.doc) ?? []));
+    }
+  }, [buildDiagnostics]);
+
+  // Runs after the diagnostics above are replaced too, since that drops the syntax error.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const timer = setTimeout(() => {
+      setSyntaxDiagnostic(view, showSyntaxErrors ? checkSyntax(view.state.doc.toString(), language) : null);
+    }, SYNTAX_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value, language, showSyntaxErrors, buildDiagnostics]);
+
+  // The menu closes on any click outside it; it takes focus so it can be used from the keyboard.
+  useEffect(() => {
+    if (!menu) return;
+    menuRef.current?.querySelector('button')?.focus();
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setMenu(null);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [menu]);
+
+  const closeMenu = () => {
+    setMenu(null);
+    viewRef.current?.focus();
+  };
+
+  const handleMenuKeyDown = (e: React.KeyboardEvent) => {
+    const buttons: HTMLButtonElement[] = menuRef.current ? Array.from(menuRef.current.querySelectorAll('button')) : [];
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      closeMenu();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      buttons[(index + (e.key === 'ArrowDown' ? 1 : buttons.length - 1)) % buttons.length]?.focus();
+    }
+  };
+
+  const runAction = (action: SelectionAction) => {
+    const view = viewRef.current;
+    closeMenu();
+    if (!view || !onSelectionAction) return;
+    const { from, to } = view.state.selection.main;
+    if (from !== to) onSelectionAction(action, { from, to });
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={editorRef} className="w-full h-full border border-gray-300 dark:border-dark-border rounded-lg overflow-hidden [&>div]:h-full [&>div]:bg-white dark:[&>div]:bg-dark-bg" />
+      {menu && (
+        <div ref={menuRef} role="menu" onKeyDown={handleMenuKeyDown} style={{ left: menu.left, top: menu.top }}
+          className="absolute z-20 min-w-[14rem] py-1 bg-white dark:bg-dark-surface border border-gray-200 dark:border-dark-border rounded-md shadow-lg text-sm">
+          {SELECTION_ACTIONS.map(action => (
+            <button key={action.id} role="menuitem" onClick={() => runAction(action)}
+              className="block w-full px-3 py-1.5 text-left text-gray-700 dark:text-dark-text-primary hover:bg-gray-100 dark:hover:bg-slate-700 focus:bg-gray-100 dark:focus:bg-slate-700 focus:outline-none">
+              {action.label}
             </button>
-          </div>
-        </form>
-        <div className="text-sm text-center">
-          <button onClick={toggleView} className="font-medium text-brand-primary hover:text-sky-400">
-            {isLoginView ? "Don't have an account? Sign up" : "Already have an account? Sign in"}
-          </button>
+          ))}
         </div>
-      </div>
+      )}
     </div>
   );
 };
 
-// --- BUNDLED: components/Header.tsx ---
-type Theme = 'light' | 'dark';
+/** `code` formatted as `language` while `enabled`; it stays as it is while formatting runs or when it fails. */
+const useFormattedCode = (code: string, language: Language | null, enabled: boolean) => {
+    const [result, setResult] = useState<{ source: string; formatted?: string; error?: string } | null>(null);
 
-const Header: React.FC<{ onLogout: () => void; theme: Theme; toggleTheme: () => void; }> = ({ onLogout, theme, toggleTheme }) => {
-    return (
-        <header className="bg-white dark:bg-dark-surface shadow-md sticky top-0 z-50 border-b border-gray-200 dark:border-dark-border">
-            <div className="container mx-auto px-4 sm:px-6 lg:px-8">
-                <div className="flex items-center justify-between h-16">
-                    <div className="flex items-center space-x-3">
-                        <CodeIcon className="h-8 w-8 text-brand-primary" />
-                        <h1 className="text-xl font-bold text-gray-900 dark:text-dark-text-primary">AI Code Assistant Pro</h1>
-                    </div>
-                    <div className="flex items-center space-x-4">
-                        <button
-                            onClick={toggleTheme}
-                            className="p-2 text-gray-500 dark:text-dark-text-secondary rounded-full hover:bg-gray-200 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-dark-surface focus:ring-brand-primary transition-colors duration-200"
-                            aria-label="Toggle theme"
-                        >
-                            {theme === 'light' ? <MoonIcon className="w-6 h-6" /> : <SunIcon className="w-6 h-6" />}
-                        </button>
-                        <button
-                            onClick={onLogout}
-                            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-dark-text-primary bg-gray-200 dark:bg-dark-border rounded-md hover:bg-gray-300 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white dark:focus:ring-offset-dark-surface focus:ring-brand-primary transition-colors duration-200"
-                        >
-                            Logout
+    useEffect(() => {
+        if (!enabled || !language) {
+            setResult(null);
+            return;
+        }
+        let cancelled = false;
+        formatCode(code, language)
+            .then(formatted => { if (!cancelled) setResult({ source: code, formatted }); })
+            .catch(e => { if (!cancelled) setResult({ source: code, error: e.message }); });
+        return () => { cancelled = true; };
+    }, [code, language, enabled]);
+
+    const current = result?.source === code ? result : null;
+    return { code: current?.formatted ?? code, error: current?.error ?? null, isFormatting: enabled && !!language && !current };
+};
+
+const SyntaxProblemNote: React.FC<{ problem: SyntaxProblem }> = ({ problem }) => (
+    <p className="px-4 py-1.5 text-xs font-sans text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30">
+        This code doesn't parse: {formatSyntaxProblem(problem)}
+    </p>
+);
+
+const CodeBlock: React.FC<{
+    language: string;
+    code: string;
+    theme: Theme;
+    /** False while the block is still streaming in; formatting and the syntax check wait for it. */
+    closed?: boolean;
+}> = ({ language, code, theme, closed = true }) => {
+    const [copied, setCopied] = useState(false);
+    const [isFormatted, setIsFormatted] = useState(false);
+
+    const knownLanguage = useMemo(() => findLanguage(language), [language]);
+    const normalizedLanguage = knownLanguage ?? 'JavaScript';
+    const fenceLanguage = useMemo(() => findFenceLanguage(language), [language]);
+    const formattable = closed && !!fenceLanguage && canFormat(fenceLanguage);
+    const formatted = useFormattedCode(code, fenceLanguage, formattable && isFormatted);
+    const problem = useMemo(() => closed ? checkCodeBlockSyntax(language, code) : null, [closed, language, code]);
+
+    const handleCopy = useCallback(() => {
+        navigator.clipboard.writeText(formatted.code);
+        setCopied(true);
+        const timer = setTimeout(() => setCopied(false), 2000);
+        return () => clearTimeout(timer);
+    }, [formatted.code]);
+
+    return (
+        <div className="relative my-4 text-sm not-prose">
+            <div className="bg-gray-200 dark:bg-slate-900/70 rounded-t-lg px-4 py-2 flex justify-between items-center text-xs font-sans text-gray-500 dark:text-gray-400">
+                <span>{language || 'code'}</span>
+                <div className="flex items-center gap-3">
+                    {formattable && (
+                        <button onClick={() => setIsFormatted(value => !value)} disabled={formatted.isFormatting} className="hover:text-gray-900 dark:hover:text-white transition-colors disabled:opacity-50">
+                            {isFormatted ? 'Original' : 'Format'}
                         </button>
-                    </div>
+                    )}
+                    <button onClick={handleCopy} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors flex items-center gap-1.5">
+                        {copied ? (
+                            <><CheckIcon className="w-4 h-4 text-green-500" /><span>Copied!</span></>
+                        ) : (
+                            <><CopyIcon className="w-4 h-4" /><span>Copy</span></>
+                        )}
+                    </button>
                 </div>
             </div>
-        </header>
+            {problem && !isFormatted && <SyntaxProblemNote problem={problem} />}
+            {formatted.error && <p className="px-4 py-1.5 text-xs font-sans text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30">{formatted.error}</p>}
+            <div className="text-left h-64">
+              <CodeEditor
+                  value={formatted.code}
+                  language={normalizedLanguage}
+                  readOnly={true}
+                  theme={theme}
+                  showSyntaxErrors={!!problem}
+              />
+            </div>
+        </div>
     );
 };
 
+// Mirrors @codemirror/merge's own chunk revert: the edit that turns chunk's range in `a` into its content in `b`.
+const chunkToEdit = (chunk: Chunk, a: EditorState, b: EditorState): CodeEdit => {
+  let insert = b.doc.sliceString(chunk.fromB, Math.max(chunk.fromB, chunk.toB - 1));
+  if (chunk.fromB !== chunk.toB && chunk.toA <= a.doc.length) {
+    insert += a.lineBreak;
+  }
+  return { from: chunk.fromA, to: Math.min(a.doc.length, chunk.toA), insert };
+};
 
-// --- BUNDLED: components/CodeAssistant.tsx ---
-
-const CodeEditor: React.FC<{
-  value: string;
-  onChange?: (value: string) => void;
+const CodeComparison: React.FC<{
+  originalCode: string;
+  newCode: string;
   language: Language;
   theme: Theme;
-  readOnly?: boolean;
-}> = ({ value, onChange, language, theme, readOnly = false }) => {
+  /** Writes the given edits (positions relative to `originalCode`, in document order) into the editor; enables the Apply actions. */
+  onApply?: (edits: CodeEdit[]) => void;
+  /** False when the editor no longer matches `originalCode`, so individual hunks can't be placed. */
+  canApplyHunks?: boolean;
+  /** Offers to format the suggestion; the diff and the Apply actions then use the formatted code. */
+  formattable?: boolean;
+}> = ({ originalCode, newCode: suggestedCode, language, theme, onApply, canApplyHunks = true, formattable = false }) => {
   const editorRef = useRef<HTMLDivElement>(null);
-  const viewRef = useRef<EditorView | null>(null);
-
-  const getLanguageSupport = useCallback((lang: Language) => {
-    switch (lang) {
-      case 'JavaScript': return javascript({ jsx: true });
-      case 'TypeScript': return javascript({ typescript: true });
-      case 'Python': return python();
-      case 'Java': return java();
-      case 'C++': return cpp();
-      case 'HTML': return html();
-      case 'CSS': return css();
-      case 'SQL': return sql();
-      case 'Go':
-      case 'Rust':
-      case 'Shell':
-      default:
-        return javascript();
-    }
-  }, []);
+  const mergeViewRef = useRef<MergeView | null>(null);
+  const [chunks, setChunks] = useState<readonly Chunk[]>([]);
+  const [selectedChunks, setSelectedChunks] = useState<Set<number>>(new Set());
+  const [isFormatted, setIsFormatted] = useState(false);
+  const canFormatSuggestion = formattable && canFormat(language);
+  const formatted = useFormattedCode(suggestedCode, language, canFormatSuggestion && isFormatted);
+  const newCode = formatted.code;
 
   const getThemeExtension = useCallback((theme: Theme) => {
-      return theme === 'dark' ? oneDark : EditorView.theme({});
+    return theme === 'dark' ? oneDark : EditorView.theme({});
   }, []);
 
+  // (Re)create the merge view when the language or theme changes.
   useEffect(() => {
     if (!editorRef.current) return;
 
-    const extensions = [
-      lineNumbers(),
-      history(),
-      keymap.of([...defaultKeymap, ...historyKeymap]),
-      getThemeExtension(theme),
-      EditorView.lineWrapping,
-      getLanguageSupport(language),
-      EditorState.readOnly.of(readOnly),
-      EditorView.updateListener.of((update) => {
-        if (update.docChanged && onChange) {
-          onChange(update.state.doc.toString());
-        }
-      }),
+    const commonExtensions = [
+        lineNumbers(),
+        history(),
+        keymap.of([...defaultKeymap, ...historyKeymap]),
+        getThemeExtension(theme),
+        EditorState.readOnly.of(true),
+        getLanguageSupport(language),
+        EditorView.lineWrapping,
     ];
 
-    const startState = EditorState.create({
-      doc: value,
-      extensions: extensions.filter(Boolean),
-    });
-
-    const view = new EditorView({
-      state: startState,
+    const mv = new MergeView({
+      a: {
+        doc: originalCode,
+        extensions: commonExtensions.filter(Boolean),
+      },
+      b: {
+        doc: newCode,
+        extensions: commonExtensions.filter(Boolean),
+      },
       parent: editorRef.current,
     });
-    viewRef.current = view;
+    mergeViewRef.current = mv;
+    setChunks(mv.chunks);
 
-    return () => view.destroy();
-  }, []); // Should only run on mount
+    return () => {
+      mergeViewRef.current = null;
+      mv.destroy();
+    };
+  }, [language, theme, getThemeExtension]);
 
+  // Content updates (e.g. while a response streams in) are dispatched through the merge view so its chunks stay current.
   useEffect(() => {
-    const view = viewRef.current;
-    if (view && value !== view.state.doc.toString()) {
-      view.dispatch({
-        changes: { from: 0, to: view.state.doc.length, insert: value },
-      });
+    const mv = mergeViewRef.current;
+    if (!mv) return;
+
+    if (mv.a.state.doc.toString() !== originalCode) {
+      mv.a.dispatch({ changes: { from: 0, to: mv.a.state.doc.length, insert: originalCode } });
     }
-  }, [value]);
+    if (mv.b.state.doc.toString() !== newCode) {
+      mv.b.dispatch({ changes: { from: 0, to: mv.b.state.doc.length, insert: newCode } });
+    }
+    setChunks(mv.chunks);
+    setSelectedChunks(new Set());
+  }, [originalCode, newCode]);
 
-  useEffect(() => {
-    const view = viewRef.current;
-    if (view) {
-      const extensions = [
-        lineNumbers(),
-        history(),
-        keymap.of([...defaultKeymap, ...historyKeymap]),
-        getThemeExtension(theme),
-        EditorView.lineWrapping,
-        getLanguageSupport(language),
-        EditorState.readOnly.of(readOnly),
-        EditorView.updateListener.of((update) => {
-          if (update.docChanged && onChange) {
-            onChange(update.state.doc.toString());
-          }
-        }),
-      ];
-      view.dispatch({
-        effects: StateEffect.reconfigure.of(extensions.filter(Boolean)),
-      });
+  const editsFor = useCallback((indices: number[]): CodeEdit[] => {
+    const mv = mergeViewRef.current;
+    if (!mv) return [];
+    return indices.sort((x, y) => x - y).map(i => chunkToEdit(chunks[i], mv.a.state, mv.b.state));
+  }, [chunks]);
+
+  // Applying over an edited buffer replaces those edits with the suggestion, so it has to be confirmed.
+  const applyAll = () => {
+    if (!canApplyHunks && !window.confirm('The editor has changed since this suggestion was made. Replace its contents with the suggestion?')) return;
+    onApply?.(editsFor(chunks.map((_, i) => i)));
+  };
+
+  const toggleChunk = (index: number) => {
+    setSelectedChunks(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const lineRange = (from: number, to: number, doc?: Text) => {
+    if (!doc) return '';
+    const start = doc.lineAt(from).number;
+    const end = to > from ? doc.lineAt(Math.min(doc.length, to - 1)).number : start;
+    return start === end ? `line ${start}` : `lines ${start}-${end}`;
+  };
+
+  const actionButtonClasses = "px-2 py-1 rounded bg-brand-primary text-white hover:bg-sky-600 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors";
+
+  return (
+    <div className="relative my-4 text-sm border border-gray-300 dark:border-dark-border rounded-lg overflow-hidden not-prose">
+        <div className="grid grid-cols-2 text-center text-xs font-sans text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-slate-900/70">
+            <div className="p-2 border-r border-gray-300 dark:border-dark-border">Your Code</div>
+            <div className="p-2">
+                AI Suggestion
+                {canFormatSuggestion && (
+                    <button onClick={() => setIsFormatted(value => !value)} disabled={formatted.isFormatting} className="ml-3 hover:text-gray-900 dark:hover:text-white disabled:opacity-50">
+                        {isFormatted ? 'Original' : 'Format'}
+                    </button>
+                )}
+            </div>
+        </div>
+        {formatted.error && <p className="px-4 py-1.5 text-xs font-sans text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30">{formatted.error}</p>}
+        <div ref={editorRef} className="w-full h-96 [&>.cm-merge-container]:h-full [&>.cm-merge-container]:bg-white dark:[&>.cm-merge-container]:bg-dark-bg [&_.cm-changedLine]:bg-blue-100 dark:[&_.cm-changedLine]:bg-blue-900/40" />
+        {onApply && chunks.length > 0 && (
+            <div className="p-2 space-y-2 text-xs font-sans bg-gray-100 dark:bg-slate-900/70 border-t border-gray-300 dark:border-dark-border not-prose">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-gray-500 dark:text-gray-400">{chunks.length} change{chunks.length === 1 ? '' : 's'}</span>
+                    <div className="flex gap-2">
+                        <button onClick={() => onApply(editsFor(Array.from(selectedChunks)))} disabled={!canApplyHunks || selectedChunks.size === 0} className={actionButtonClasses}
+                            title={canApplyHunks ? undefined : 'The editor has changed since this suggestion was made.'}>
+                            Apply selected hunks{selectedChunks.size > 0 ? ` (${selectedChunks.size})` : ''}
+                        </button>
+                        <button onClick={applyAll} className={actionButtonClasses}>
+                            Apply
+                        </button>
+                    </div>
+                </div>
+                {canApplyHunks && (
+                    <ul className="space-y-1">
+                        {chunks.map((chunk, index) => (
+                            <li key={`${chunk.fromA}-${chunk.fromB}`}>
+                                <label className="flex items-center gap-2 cursor-pointer text-gray-600 dark:text-dark-text-secondary">
+                                    <input type="checkbox" checked={selectedChunks.has(index)} onChange={() => toggleChunk(index)} />
+                                    <span>
+                                        Hunk {index + 1}: {chunk.toA > chunk.fromA ? `replace ${lineRange(chunk.fromA, chunk.toA, mergeViewRef.current?.a.state.doc)}` : `insert at line ${mergeViewRef.current?.a.state.doc.lineAt(chunk.fromA).number ?? ''}`}
+                                    </span>
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+const MermaidDiagram: React.FC<{ source: string; theme: Theme }> = ({ source, theme }) => {
+    const [svg, setSvg] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        renderMermaidDiagram(source, theme === 'dark')
+            .then(result => { if (!cancelled) { setSvg(result); setError(null); } })
+            .catch(e => { if (!cancelled) setError(e?.message ?? String(e)); });
+        return () => { cancelled = true; };
+    }, [source, theme]);
+
+    if (error) {
+        return (
+            <div className="my-4">
+                <p className="text-xs text-red-600 dark:text-red-400">Could not render the diagram: {error}</p>
+                <CodeBlock language="mermaid" code={source} theme={theme} />
+            </div>
+        );
+    }
+    if (!svg) {
+        return <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>;
+    }
+    // Safe to insert: renderMermaidDiagram sanitizes the SVG, on top of Mermaid's strict security level.
+    return <div className="my-4 flex justify-center overflow-x-auto not-prose" dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+const MarkdownResponse: React.FC<{
+    content: string;
+    originalCode?: string;
+    language?: Language;
+    theme: Theme;
+    onApply?: (edits: CodeEdit[]) => void;
+    canApplyHunks?: boolean;
+}> = ({ content, originalCode, language, theme, onApply, canApplyHunks }) => {
+    const segments = useMemo(() => parseMarkdown(content), [content]);
+    // The first code block is diffed against the editor, except diagrams and program output (```output fences from DEBUG runs).
+    const diffIndex = originalCode && language
+        ? segments.findIndex(segment => segment.type !== 'html' && !['mermaid', 'output'].includes(segment.language.toLowerCase()))
+        : -1;
+    const diffBlock = diffIndex >= 0 ? segments[diffIndex] as Extract<MarkdownSegment, { type: 'code' }> : undefined;
+    // Keyed on the block's text, since the segments are parsed again for every chunk that streams in after it.
+    const diffProblem = useMemo(
+        () => diffBlock?.closed ? checkCodeBlockSyntax(diffBlock.language, diffBlock.code) : null,
+        [diffBlock?.closed, diffBlock?.language, diffBlock?.code]
+    );
+
+    return (
+        <div className="prose prose-sm md:prose-base prose-slate dark:prose-invert max-w-none text-gray-800 dark:text-dark-text-primary w-full leading-relaxed">
+            {segments.map((segment, index) => {
+                if (segment.type === 'html') {
+                    return <div key={index} dangerouslySetInnerHTML={{ __html: segment.html }} />;
+                }
+
+                const fence = segment.language.toLowerCase();
+                if (fence === 'mermaid') {
+                    // Half-streamed diagrams would only render as syntax errors.
+                    return segment.closed ? <MermaidDiagram key={index} source={segment.code} theme={theme} /> : <CodeBlock key={index} language="mermaid" code={segment.code} theme={theme} />;
+                }
+
+                if (index === diffIndex && originalCode && language) {
+                    return (
+                        <React.Fragment key={index}>
+                            {diffProblem && <div className="not-prose rounded-lg overflow-hidden"><SyntaxProblemNote problem={diffProblem} /></div>}
+                            <CodeComparison originalCode={originalCode} newCode={segment.code.trim()} language={language} theme={theme} onApply={onApply} canApplyHunks={canApplyHunks} formattable={segment.closed}/>
+                        </React.Fragment>
+                    );
+                }
+
+                return <CodeBlock key={index} language={segment.language} code={segment.code.trim()} theme={theme} closed={segment.closed}/>;
+            })}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/WorkspacePanel.tsx ---
+interface FileTreeNode {
+    name: string;
+    path: string;
+    file?: WorkspaceFile;
+    children: FileTreeNode[];
+}
+
+const buildFileTree = (files: WorkspaceFile[]): FileTreeNode[] => {
+    const root: FileTreeNode = { name: '', path: '', children: [] };
+    for (const file of files) {
+        let node = root;
+        const segments = file.path.split('/');
+        segments.forEach((segment, i) => {
+            const path = segments.slice(0, i + 1).join('/');
+            let child = node.children.find(c => c.name === segment && !c.file === (i < segments.length - 1));
+            if (!child) {
+                child = { name: segment, path, children: [], file: i === segments.length - 1 ? file : undefined };
+                node.children.push(child);
+            }
+            node = child;
+        });
     }
-  }, [language, readOnly, theme, getLanguageSupport, getThemeExtension, onChange]);
+    const sort = (nodes: FileTreeNode[]): FileTreeNode[] => nodes
+        .sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name))
+        .map(node => ({ ...node, children: sort(node.children) }));
+    return sort(root.children);
+};
+
+const WorkspacePanel: React.FC<{
+    workspace: Workspace;
+    onWorkspaceChange: (update: (workspace: Workspace) => Workspace) => void;
+    theme: Theme;
+    editorViewRef?: React.MutableRefObject<EditorView | null>;
+    /** Diagnostics builders for the editor, by file id. */
+    diagnostics?: Record<string, (doc: Text) => Diagnostic[]>;
+    /** Receives the line of the active file the user points at or moves the cursor to. */
+    onLineActivity?: (line: number | null) => void;
+    completionSource?: CompletionSource;
+    onSelectionAction?: (action: SelectionAction, range: { from: number; to: number }) => void;
+    onSubmit?: () => void;
+    keyBindings?: EditorKeyBindings;
+    /** Formats the active file, as the format shortcut does, so both report errors the same way; no Format button without it. */
+    onFormat?: () => void;
+}> = ({ workspace, onWorkspaceChange, theme, editorViewRef, diagnostics, onLineActivity, completionSource, onSelectionAction, onSubmit, keyBindings, onFormat }) => {
+    const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+    const [isDragging, setIsDragging] = useState(false);
+    const [newFilePath, setNewFilePath] = useState<string | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    const zipInputRef = useRef<HTMLInputElement>(null);
+
+    const activeFile = workspace.files.find(file => file.id === workspace.activeFileId) ?? workspace.files[0];
+    const tree = useMemo(() => buildFileTree(workspace.files), [workspace.files]);
+    const supportsDirectoryPicker = typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+    const updateFile = (fileId: string, patch: Partial<WorkspaceFile>) => {
+        onWorkspaceChange(ws => ({ ...ws, files: ws.files.map(file => file.id === fileId ? { ...file, ...patch } : file) }));
+    };
+
+    // Stable so CodeEditor doesn't reconfigure on every keystroke; the editor is remounted per file anyway.
+    const handleContentChange = useCallback((content: string) => {
+        onWorkspaceChange(ws => ({ ...ws, files: ws.files.map(file => file.id === ws.activeFileId ? { ...file, content } : file) }));
+    }, [onWorkspaceChange]);
+
+    // A file's extension wins over detection; only files without a known one follow what is pasted.
+    const handleLanguageDetected = useCallback((language: Language) => {
+        onWorkspaceChange(ws => ({
+            ...ws,
+            files: ws.files.map(file => file.id === ws.activeFileId && !detectLanguageFromPath(file.path) ? { ...file, language } : file),
+        }));
+    }, [onWorkspaceChange]);
+
+    const openFile = (fileId: string) => {
+        onWorkspaceChange(ws => ({
+            ...ws,
+            activeFileId: fileId,
+            openFileIds: ws.openFileIds.includes(fileId) ? ws.openFileIds : [...ws.openFileIds, fileId],
+        }));
+    };
+
+    const closeTab = (fileId: string) => {
+        onWorkspaceChange(ws => {
+            if (ws.openFileIds.length === 1) return ws;
+            const openFileIds = ws.openFileIds.filter(id => id !== fileId);
+            return { ...ws, openFileIds, activeFileId: ws.activeFileId === fileId ? openFileIds[openFileIds.length - 1] : ws.activeFileId };
+        });
+    };
+
+    const runImport = async (load: () => Promise<ImportedFile[]>) => {
+        try {
+            const imported = await load();
+            onWorkspaceChange(ws => addFilesToWorkspace(ws, imported));
+            setStatus(imported.length > 0 ? `Imported ${imported.length} file${imported.length === 1 ? '' : 's'}.` : 'No supported source files found.');
+        } catch (e: any) {
+            if (e?.name !== 'AbortError') setStatus(`Import failed: ${e.message}`);
+        }
+    };
+
+    const handleOpenFolder = () => runImport(async () => {
+        const handle = await (window as any).showDirectoryPicker();
+        return importFromDirectoryHandle(handle, handle.name);
+    });
+
+    const handleZipSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const zip = e.target.files?.[0];
+        e.target.value = '';
+        if (zip) runImport(() => importFromZip(zip, `${zip.name.replace(/\.zip$/i, '')}/`));
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const { dataTransfer } = e;
+        runImport(() => importFromDataTransfer(dataTransfer));
+    };
+
+    const handleCreateFile = (e: React.FormEvent) => {
+        e.preventDefault();
+        const path = newFilePath?.trim().replace(/^\/+/, '');
+        setNewFilePath(null);
+        if (!path) return;
+        if (workspace.files.some(file => file.path === path)) {
+            setStatus(`${path} already exists.`);
+            return;
+        }
+        const file = createWorkspaceFile(path, '', detectLanguageFromPath(path) ?? activeFile.language);
+        onWorkspaceChange(ws => ({ files: [...ws.files, file], activeFileId: file.id, openFileIds: [...ws.openFileIds, file.id] }));
+    };
 
-  return <div ref={editorRef} className="w-full h-full border border-gray-300 dark:border-dark-border rounded-lg overflow-hidden [&>div]:h-full [&>div]:bg-white dark:[&>div]:bg-dark-bg" />;
+    const toggleFolder = (path: string) => {
+        setCollapsedFolders(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path); else next.add(path);
+            return next;
+        });
+    };
+
+    const renderNodes = (nodes: FileTreeNode[], depth: number): React.ReactNode => nodes.map(node => (
+        <li key={node.path}>
+            {node.file ? (
+                <div className={`group flex items-center gap-1 pr-1 rounded ${node.file.id === activeFile.id ? 'bg-brand-primary/20' : 'hover:bg-gray-200 dark:hover:bg-slate-700'}`} style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}>
+                    <input type="checkbox" checked={node.file.includeInPrompt || node.file.id === activeFile.id} disabled={node.file.id === activeFile.id}
+                        onChange={(e) => updateFile(node.file!.id, { includeInPrompt: e.target.checked })}
+                        title="Include in prompt" aria-label={`Include ${node.path} in prompt`} />
+                    <button onClick={() => openFile(node.file!.id)} className="flex-grow truncate text-left py-0.5" title={node.path}>{node.name}</button>
+                    <button onClick={() => onWorkspaceChange(ws => removeFileFromWorkspace(ws, node.file!.id))} className="hidden group-hover:block text-gray-400 hover:text-red-500" aria-label={`Delete ${node.path}`}>
+                        <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <button onClick={() => toggleFolder(node.path)} className="w-full text-left py-0.5 font-medium text-gray-600 dark:text-dark-text-secondary truncate" style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}>
+                        {collapsedFolders.has(node.path) ? '▸' : '▾'} {node.name}
+                    </button>
+                    {!collapsedFolders.has(node.path) && <ul>{renderNodes(node.children, depth + 1)}</ul>}
+                </>
+            )}
+        </li>
+    ));
+
+    const toolbarButtonClasses = "px-2 py-1 rounded bg-gray-200 dark:bg-dark-border hover:bg-gray-300 dark:hover:bg-slate-600 text-gray-700 dark:text-dark-text-primary";
+
+    return (
+        <div
+            className={`relative flex w-full h-full min-h-[16rem] gap-2 ${isDragging ? 'ring-2 ring-brand-primary rounded-lg' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+            onDrop={handleDrop}
+        >
+            <div className="w-48 flex-shrink-0 flex flex-col text-xs border border-gray-300 dark:border-dark-border rounded-lg overflow-hidden">
+                <div className="flex flex-wrap gap-1 p-1 border-b border-gray-300 dark:border-dark-border">
+                    <button onClick={() => setNewFilePath('')} className={toolbarButtonClasses} title="New file">+ File</button>
+                    {supportsDirectoryPicker && <button onClick={handleOpenFolder} className={toolbarButtonClasses} title="Open a local folder">Folder</button>}
+                    <button onClick={() => zipInputRef.current?.click()} className={toolbarButtonClasses} title="Import a .zip archive">Zip</button>
+                    <input ref={zipInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleZipSelected} />
+                </div>
+                {newFilePath !== null && (
+                    <form onSubmit={handleCreateFile} className="p-1">
+                        <input autoFocus value={newFilePath} onChange={(e) => setNewFilePath(e.target.value)} onBlur={handleCreateFile} placeholder="src/file.ts"
+                            className="w-full px-2 py-1 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded focus:outline-none focus:ring-1 focus:ring-brand-primary" />
+                    </form>
+                )}
+                <ul className="flex-grow overflow-y-auto p-1">{renderNodes(tree, 0)}</ul>
+                <p className="p-1 text-gray-500 dark:text-dark-text-secondary border-t border-gray-300 dark:border-dark-border">{status ?? 'Drop files, folders or a .zip here.'}</p>
+            </div>
+            <div className="flex-grow flex flex-col min-w-0">
+                <div className="flex items-end overflow-x-auto text-xs">
+                    {workspace.openFileIds.map(id => workspace.files.find(file => file.id === id)).filter(Boolean).map(file => (
+                        <div key={file!.id} className={`flex items-center gap-1 px-3 py-1.5 border border-b-0 border-gray-300 dark:border-dark-border rounded-t-md ${file!.id === activeFile.id ? 'bg-white dark:bg-dark-bg text-gray-900 dark:text-dark-text-primary' : 'bg-gray-200 dark:bg-dark-surface text-gray-500 dark:text-dark-text-secondary'}`}>
+                            <button onClick={() => openFile(file!.id)} title={file!.path}>{file!.path.split('/').pop()}</button>
+                            {workspace.openFileIds.length > 1 && (
+                                <button onClick={() => closeTab(file!.id)} className="hover:text-red-500" aria-label={`Close ${file!.path}`}><XIcon className="w-3 h-3" /></button>
+                            )}
+                        </div>
+                    ))}
+                    {onFormat && canFormat(activeFile.language) && (
+                        <button onClick={onFormat} className="ml-auto mb-1 px-2 py-0.5 rounded text-gray-600 dark:text-dark-text-secondary hover:bg-gray-200 dark:hover:bg-slate-700" title={`Format the ${activeFile.language} code`}>Format</button>
+                    )}
+                </div>
+                <div className="flex-grow min-h-0">
+                    {/* Keyed by file so each tab gets its own undo history. */}
+                    <CodeEditor key={activeFile.id} value={activeFile.content} onChange={handleContentChange} onLanguageDetected={handleLanguageDetected} language={activeFile.language} theme={theme} editorViewRef={editorViewRef} buildDiagnostics={diagnostics?.[activeFile.id]} onLineActivity={onLineActivity} completionSource={completionSource} onSelectionAction={onSelectionAction} onSubmit={onSubmit} keyBindings={keyBindings} showSyntaxErrors />
+                </div>
+            </div>
+        </div>
+    );
 };
 
-const CodeBlock: React.FC<{ language: string; code: string; theme: Theme }> = ({ language, code, theme }) => {
-    const [copied, setCopied] = useState(false);
+// Counting waits for a pause in typing; Gemini counts with an API call.
+const TOKEN_COUNT_DEBOUNCE_MS = 600;
 
-    const handleCopy = useCallback(() => {
-        navigator.clipboard.writeText(code);
-        setCopied(true);
-        const timer = setTimeout(() => setCopied(false), 2000);
-        return () => clearTimeout(timer);
-    }, [code]);
+// Modes whose code can be trimmed or split into several requests when it is too large; the others only warn.
+const canFitCode = (definition: ModeDefinition): boolean => {
+    return definition.code !== 'none' && definition.id !== 'GENERATE' && definition.id !== 'DEBUG' && definition.id !== 'ANALYZE_REPO' && definition.id !== 'TRANSLATE';
+};
+
+const CodeAssistant: React.FC<{
+    theme: Theme;
+    providerSettings: ProviderSettings;
+    onOpenSettings: () => void;
+    onOpenUsage: () => void;
+    onToggleTheme: () => void;
+    /** A session forked from a share link, opened once when the assistant mounts or this changes. */
+    forkedSession?: SessionExport | null;
+    /** Called once the fork has been opened, so remounting the assistant doesn't open it again over later edits. */
+    onForkOpened?: () => void;
+}> = ({ theme, providerSettings, onOpenSettings, onOpenUsage, onToggleTheme, forkedSession, onForkOpened }) => {
+    const [mode, setMode] = useState<ModeId>('ASSIST');
+    const [modeDefinitions, setModeDefinitions] = useState<ModeDefinition[]>(loadModeDefinitions);
+    const [isModeEditorOpen, setIsModeEditorOpen] = useState<boolean>(false);
+    const [fieldValues, setFieldValues] = useState<Partial<Record<ModeId, Record<string, string>>>>({});
+    const [workspace, setWorkspace] = useState<Workspace>(createWorkspace);
+    const [userInput, setUserInput] = useState<string>('');
+    const [threads, setThreads] = useState<Partial<Record<ModeId, ChatThread>>>({});
+    const [followUp, setFollowUp] = useState<string>('');
+    const [githubToken, setGithubToken] = useState<string>('');
+    const [repoRef, setRepoRef] = useState<string>('');
+    const [repoBranches, setRepoBranches] = useState<string[]>([]);
+    const [isLoadingBranches, setIsLoadingBranches] = useState<boolean>(false);
+    const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const [isPaletteOpen, setIsPaletteOpen] = useState<boolean>(false);
+    const [isShortcutsHelpOpen, setIsShortcutsHelpOpen] = useState<boolean>(false);
+    const [shortcutOverrides, setShortcutOverrides] = useState<ShortcutBindings>(loadShortcutOverrides);
+    const [responseNotice, setResponseNotice] = useState<string | null>(null);
+    // The follow-up that asks again for the last answer of a thread because its code doesn't parse.
+    const [syntaxRetry, setSyntaxRetry] = useState<{ mode: ModeId; turnId: string; prompt: string } | null>(null);
+    const [reviewedFileId, setReviewedFileId] = useState<string | null>(null);
+    const [auditedFileId, setAuditedFileId] = useState<string | null>(null);
+    // The explanation range highlighted in the editor: the one hovered in the panel wins over the one picked last.
+    const [hoveredRange, setHoveredRange] = useState<LineRange | null>(null);
+    const [pinnedRange, setPinnedRange] = useState<LineRange | null>(null);
+    const [targetLanguage, setTargetLanguage] = useState<Language>('TypeScript');
+    const [translateTests, setTranslateTests] = useState<boolean>(false);
+    const [appliedFindings, setAppliedFindings] = useState<Set<ReviewFinding>>(new Set());
+    const [testRuns, setTestRuns] = useState<Record<string, TestRun>>({});
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    // Failed model requests keep their type so the banner can say what to do about them.
+    const [error, setError] = useState<string | ModelError | null>(null);
+    const [retryNotice, setRetryNotice] = useState<RetryNotice | null>(null);
+    const [tokenCount, setTokenCount] = useState<TokenCount | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const testAbortControllerRef = useRef<AbortController | null>(null);
+    const editorViewRef = useRef<EditorView | null>(null);
+
+    const activeFile = workspace.files.find(file => file.id === workspace.activeFileId) ?? workspace.files[0];
+    const code = activeFile.content;
+    const language = activeFile.language;
+    const relatedFiles = useMemo(
+        () => workspace.files.filter(file => file.includeInPrompt && file.id !== activeFile.id),
+        [workspace.files, activeFile.id]
+    );
+
+    const updateActiveFile = useCallback((patch: Partial<WorkspaceFile>) => {
+        setWorkspace(ws => ({ ...ws, files: ws.files.map(file => file.id === ws.activeFileId ? { ...file, ...patch } : file) }));
+    }, []);
+    const setCode = useCallback((content: string) => updateActiveFile({ content }), [updateActiveFile]);
+    const setLanguage = useCallback((language: Language) => updateActiveFile({ language }), [updateActiveFile]);
+
+    const modeDefinition = modeDefinitions.find(definition => definition.id === mode) ?? modeDefinitions[0];
+    const modeLabels = useMemo(
+        () => Object.fromEntries(modeDefinitions.map(definition => [definition.id, definition.label])) as Partial<Record<ModeId, string>>,
+        [modeDefinitions]
+    );
+
+    useEffect(() => {
+        configureModes(modeDefinitions);
+        saveModeDefinitions(modeDefinitions);
+        // A deleted mode can't stay selected.
+        setMode(current => modeDefinitions.some(definition => definition.id === current) ? current : 'ASSIST');
+    }, [modeDefinitions]);
+
+    const turns = threads[mode]?.turns ?? [];
+    const lastTurn = turns[turns.length - 1];
+
+    // The opening REVIEW turn is JSON; it is parsed once streaming ends (null until then).
+    const reviewResponse = threads['REVIEW']?.turns[0]?.response ?? '';
+    const isReviewStreaming = isLoading && mode === 'REVIEW' && turns.length === 1;
+    const reviewResult = useMemo((): { report: ReviewReport } | { error: string } | null => {
+        if (!reviewResponse || isReviewStreaming) return null;
+        try {
+            return { report: parseReviewReport(reviewResponse) };
+        } catch (e: any) {
+            return { error: `Could not read the review findings. ${e.message}` };
+        }
+    }, [reviewResponse, isReviewStreaming]);
+
+    // The audit works the same way; its findings are also shown as review findings so the editor can place them.
+    const auditResponse = threads['SECURITY_AUDIT']?.turns[0]?.response ?? '';
+    const isAuditStreaming = isLoading && mode === 'SECURITY_AUDIT' && turns.length === 1;
+    const securityResult = useMemo((): { report: SecurityReport; reviewFindings: ReviewFinding[] } | { error: string } | null => {
+        if (!auditResponse || isAuditStreaming) return null;
+        try {
+            const report = parseSecurityReport(auditResponse);
+            return { report, reviewFindings: report.findings.map(securityFindingToReviewFinding) };
+        } catch (e: any) {
+            return { error: `Could not read the audit findings. ${e.message}` };
+        }
+    }, [auditResponse, isAuditStreaming]);
+
+    // Shown while the model is still auditing.
+    const auditedCode = threads['SECURITY_AUDIT']?.turns[0]?.code ?? '';
+    const preScanReport = useMemo((): SecurityReport | null => {
+        if (!isAuditStreaming) return null;
+        const findings = preScanCode(auditedCode);
+        return { summary: `The pattern pre-scan flagged ${findings.length} line${findings.length === 1 ? '' : 's'}; the full audit is in progress.`, findings };
+    }, [isAuditStreaming, auditedCode]);
+
+    const translationResponse = threads['TRANSLATE']?.turns[0]?.response ?? '';
+    const isTranslationStreaming = isLoading && mode === 'TRANSLATE' && turns.length === 1;
+    const translationResult = useMemo((): { translation: CodeTranslation } | { error: string } | null => {
+        if (!translationResponse || isTranslationStreaming) return null;
+        try {
+            return { translation: parseTranslation(translationResponse) };
+        } catch (e: any) {
+            return { error: `Could not read the translation. ${e.message}` };
+        }
+    }, [translationResponse, isTranslationStreaming]);
+
+    const explanationTurn = threads['EXPLAIN']?.turns[0];
+    const isExplanationStreaming = isLoading && mode === 'EXPLAIN' && turns.length === 1;
+    const explanationResult = useMemo((): { explanation: CodeExplanation } | { error: string } | null => {
+        if (!explanationTurn?.response || isExplanationStreaming) return null;
+        try {
+            return { explanation: parseExplanation(explanationTurn.response) };
+        } catch (e: any) {
+            return { error: `Could not read the explanation. ${e.message}` };
+        }
+    }, [explanationTurn?.response, isExplanationStreaming]);
+    const explanation = explanationResult && 'explanation' in explanationResult ? explanationResult.explanation : null;
+    // Line numbers only match while the editor shows exactly the code that was explained.
+    const canLinkExplanation = mode === 'EXPLAIN' && !!explanation && code === explanationTurn?.code;
+    const linkedRange = canLinkExplanation ? hoveredRange ?? pinnedRange : null;
+
+    useEffect(() => {
+        setHoveredRange(null);
+        setPinnedRange(null);
+    }, [explanation]);
+
+    useEffect(() => {
+        const view = editorViewRef.current;
+        if (view) highlightLines(view, linkedRange);
+    }, [linkedRange]);
+
+    const handleLineActivity = useCallback((line: number | null) => {
+        if (!explanation) return;
+        setPinnedRange(line === null ? null : findRangeAtLine(explanation.sections, line) ?? findRangeAtLine(explanation.complexity, line));
+    }, [explanation]);
+
+    const handleSelectRange = useCallback((range: LineRange) => {
+        const view = editorViewRef.current;
+        if (view) highlightLines(view, range, true);
+        // After the reveal, whose cursor move would otherwise pin the innermost range at its first line.
+        setPinnedRange(range);
+    }, []);
+
+    const markFindingApplied = useCallback((finding: ReviewFinding) => {
+        setAppliedFindings(prev => new Set(prev).add(finding));
+    }, []);
+
+    // Deliberately independent of the buffer: the editor maps diagnostics through edits itself. Line numbers are only
+    // used while the file still holds the reviewed code, e.g. not when an edited file's editor is opened again.
+    const reviewedCode = threads['REVIEW']?.turns[0]?.code;
+    const reviewDiagnostics = useMemo(() => {
+        if (mode === 'REVIEW' && reviewedFileId && reviewResult && 'report' in reviewResult) {
+            const { findings } = reviewResult.report;
+            return { [reviewedFileId]: (doc: Text) => doc.toString() === reviewedCode ? findingsToDiagnostics(doc, findings, markFindingApplied) : [] };
+        }
+        if (mode === 'SECURITY_AUDIT' && auditedFileId && securityResult && 'report' in securityResult) {
+            const { reviewFindings } = securityResult;
+            return { [auditedFileId]: (doc: Text) => doc.toString() === auditedCode ? findingsToDiagnostics(doc, reviewFindings, markFindingApplied) : [] };
+        }
+        return undefined;
+    }, [mode, reviewedFileId, reviewResult, reviewedCode, auditedFileId, securityResult, auditedCode, markFindingApplied]);
+
+    const handleFindingAction = useCallback((finding: ReviewFinding, action: 'fix' | 'reveal') => {
+        const view = editorViewRef.current;
+        if (!view || activeFile.id !== (mode === 'SECURITY_AUDIT' ? auditedFileId : reviewedFileId)) {
+            setError(`Switch to the ${mode === 'SECURITY_AUDIT' ? 'audited' : 'reviewed'} file to use this finding.`);
+            return;
+        }
+        const found = action === 'fix' ? applyFindingFix(view, finding) : revealFinding(view, finding);
+        if (!found) {
+            setError("The lines of this finding are no longer in the editor.");
+        } else if (action === 'fix') {
+            markFindingApplied(finding);
+        }
+    }, [mode, activeFile.id, reviewedFileId, auditedFileId, markFindingApplied]);
+
+    useEffect(() => () => {
+        abortControllerRef.current?.abort();
+        testAbortControllerRef.current?.abort();
+    }, []);
+
+    const handleStop = useCallback(() => {
+        abortControllerRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        listHistoryEntries().then(setHistoryEntries).catch(e => console.error("Could not load history:", e));
+    }, []);
+
+    const recordHistory = useCallback(async (entry: Omit<HistoryEntry, 'id' | 'code' | 'response' | 'model' | 'timestamp'>) => {
+        const { turns } = entry.thread;
+        const saved: HistoryEntry = {
+            ...entry,
+            id: turns[0].id,
+            code: turns[0].code,
+            response: turns[turns.length - 1].response,
+            model: activeProviderSettings.model,
+            timestamp: Date.now(),
+        };
+        try {
+            await saveHistoryEntry(saved);
+            setHistoryEntries(await listHistoryEntries());
+        } catch (e) {
+            console.error("Could not save history:", e);
+        }
+    }, []);
+
+    const handleRestoreHistory = useCallback((entry: HistoryEntry) => {
+        if (!modeDefinitions.some(definition => definition.id === entry.mode)) {
+            setError(`The mode of this session no longer exists. Import or recreate it to continue the session.`);
+            setIsHistoryOpen(false);
+            return;
+        }
+        handleStop();
+        const { turns } = entry.thread;
+        setMode(entry.mode);
+        setLanguage(entry.language);
+        setCode(turns[turns.length - 1].code);
+        setUserInput(entry.prompt);
+        setFollowUp('');
+        setError(null);
+        // The session is restored into the active file.
+        setThreads(prev => ({ ...prev, [entry.mode]: { ...entry.thread, path: activeFile.path, language: entry.language } }));
+        if (entry.mode === 'REVIEW') {
+            setReviewedFileId(activeFile.id);
+            setAppliedFindings(new Set());
+        } else if (entry.mode === 'SECURITY_AUDIT') {
+            setAuditedFileId(activeFile.id);
+            setAppliedFindings(new Set());
+        }
+        setIsHistoryOpen(false);
+    }, [modeDefinitions, handleStop, setLanguage, setCode, activeFile.id, activeFile.path]);
+
+    const handleDeleteHistory = useCallback(async (id: string) => {
+        try {
+            await deleteHistoryEntry(id);
+            setHistoryEntries(await listHistoryEntries());
+        } catch (e) {
+            console.error("Could not delete history entry:", e);
+        }
+    }, []);
+
+    const handleTogglePin = useCallback(async (entry: HistoryEntry) => {
+        try {
+            await saveHistoryEntry({ ...entry, pinned: !entry.pinned });
+            setHistoryEntries(await listHistoryEntries());
+        } catch (e) {
+            console.error("Could not update history entry:", e);
+        }
+    }, []);
+
+    // The fork's file is added to the workspace and opened; its turns get new ids so the history keeps it apart from the original.
+    useEffect(() => {
+        if (!forkedSession) return;
+        onForkOpened?.();
+        const { turns } = forkedSession;
+        const file = createWorkspaceFile(forkedSession.path || UNTITLED_FILE_PATH, turns[turns.length - 1].code, forkedSession.language);
+        handleStop();
+        setWorkspace(ws => addWorkspaceFiles(ws, [file]));
+        setUserInput(forkedSession.prompt);
+        setFollowUp('');
+        if (!modeDefinitions.some(definition => definition.id === forkedSession.mode)) {
+            setError(`The mode of this session ("${forkedSession.modeLabel}") doesn't exist here. Import or recreate it to continue the session.`);
+            return;
+        }
+        setError(null);
+        setMode(forkedSession.mode);
+        setThreads(prev => ({
+            ...prev,
+            [forkedSession.mode]: { ...EMPTY_THREAD, path: file.path, language: file.language, turns: turns.map(turn => ({ ...turn, id: crypto.randomUUID() })) },
+        }));
+        if (forkedSession.mode === 'REVIEW') {
+            setReviewedFileId(file.id);
+            setAppliedFindings(new Set());
+        } else if (forkedSession.mode === 'SECURITY_AUDIT') {
+            setAuditedFileId(file.id);
+            setAppliedFindings(new Set());
+        }
+    }, [forkedSession]);
+
+    const updateLastTurn = useCallback((threadMode: ModeId, patch: Partial<ThreadTurn>) => {
+        setThreads(prev => {
+            const thread = prev[threadMode];
+            if (!thread) return prev;
+            const turns = thread.turns.map((turn, i) => i === thread.turns.length - 1 ? { ...turn, ...patch } : turn);
+            return { ...prev, [threadMode]: { ...thread, turns } };
+        });
+    }, []);
+
+    const dropLastTurn = useCallback((threadMode: ModeId) => {
+        setThreads(prev => {
+            const thread = prev[threadMode];
+            if (!thread) return prev;
+            return { ...prev, [threadMode]: thread.turns.length > 1 ? { ...thread, turns: thread.turns.slice(0, -1) } : undefined };
+        });
+    }, []);
+
+    // Only complete answers are checked; a stopped one is cut off anyway.
+    const queueSyntaxRetry = useCallback((threadMode: ModeId, turnId: string, response: string, signal: AbortSignal) => {
+        if (!providerSettings.syntaxRetry || signal.aborted) return;
+        const problems = findCodeBlockProblems(response);
+        if (problems.length > 0) setSyntaxRetry({ mode: threadMode, turnId, prompt: buildSyntaxRetryPrompt(problems) });
+    }, [providerSettings.syntaxRetry]);
+
+    const startRequest = useCallback(() => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsLoading(true);
+        setError(null);
+        return controller;
+    }, []);
 
-    const normalizedLanguage = useMemo(() => {
-        const lowerLang = language.toLowerCase();
-        const found = LANGUAGES.find(l => l.toLowerCase() === lowerLang);
-        return found || 'JavaScript';
-    }, [language]);
+    const finishRequest = useCallback((controller: AbortController) => {
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+        }
+        setIsLoading(false);
+        setRetryNotice(null);
+    }, []);
 
-    return (
-        <div className="relative my-4 text-sm">
-            <div className="bg-gray-200 dark:bg-slate-900/70 rounded-t-lg px-4 py-2 flex justify-between items-center text-xs font-sans text-gray-500 dark:text-gray-400">
-                <span>{language || 'code'}</span>
-                <button onClick={handleCopy} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors flex items-center gap-1.5">
-                    {copied ? (
-                        <><CheckIcon className="w-4 h-4 text-green-500" /><span>Copied!</span></>
-                    ) : (
-                        <><CopyIcon className="w-4 h-4" /><span>Copy</span></>
-                    )}
-                </button>
-            </div>
-            <div className="text-left h-64">
-              <CodeEditor
-                  value={code}
-                  language={normalizedLanguage}
-                  readOnly={true}
-                  theme={theme}
-              />
-            </div>
-        </div>
-    );
-};
+    const handleRetry = useCallback((error: ModelError, attempt: number, delayMs: number) => {
+        setRetryNotice({ error, attempt, retryAt: Date.now() + delayMs });
+    }, []);
 
-const CodeComparison: React.FC<{ originalCode: string; newCode: string; language: Language; theme: Theme; }> = ({ originalCode, newCode, language, theme }) => {
-  const editorRef = useRef<HTMLDivElement>(null);
-  const mergeViewRef = useRef<MergeView | null>(null);
+    const handleApplyEdits = useCallback((threadMode: ModeId, turnId: string, originalCode: string, edits: CodeEdit[]) => {
+        if (edits.length === 0) return;
+        const view = editorViewRef.current;
+        let updatedCode: string;
+        if (view && view.state.doc.toString() === originalCode) {
+            // Last hunk first so earlier positions stay valid; one transaction per hunk keeps each one separately undoable.
+            for (const edit of [...edits].reverse()) {
+                view.dispatch({ changes: edit, userEvent: 'input.apply', annotations: isolateHistory.of('full') });
+            }
+            updatedCode = view.state.doc.toString();
+        } else {
+            updatedCode = edits.reduceRight((text, edit) => text.slice(0, edit.from) + edit.insert + text.slice(edit.to), originalCode);
+            if (view) {
+                view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: updatedCode }, userEvent: 'input.apply', annotations: isolateHistory.of('full') });
+            } else {
+                setCode(updatedCode);
+            }
+        }
+        // Re-base the diff on the updated buffer so only the hunks that were not applied remain.
+        setThreads(prev => {
+            const thread = prev[threadMode];
+            if (!thread) return prev;
+            return { ...prev, [threadMode]: { ...thread, turns: thread.turns.map(turn => turn.id === turnId ? { ...turn, originalCode: updatedCode } : turn) } };
+        });
+    }, []);
 
-  const getLanguageSupport = useCallback((lang: Language) => {
-    switch (lang) {
-      case 'JavaScript': return javascript({ jsx: true });
-      case 'TypeScript': return javascript({ typescript: true });
-      case 'Python': return python();
-      case 'Java': return java();
-      case 'C++': return cpp();
-      case 'HTML': return html();
-      case 'CSS': return css();
-      case 'SQL': return sql();
-      default:
-        return javascript();
-    }
-  }, []);
+    // The mock provider pairs with a mock repository so ANALYZE_REPO can be exercised entirely offline.
+    const getGitHubClient = useCallback((): GitHubClient => {
+        return providerSettings.sampleRepository ? createMockGitHubClient() : createGitHubClient(githubToken.trim() || undefined);
+    }, [providerSettings.sampleRepository, githubToken]);
 
-  const getThemeExtension = useCallback((theme: Theme) => {
-    return theme === 'dark' ? oneDark : EditorView.theme({});
-  }, []);
-  
-  useEffect(() => {
-    if (!editorRef.current) return;
+    const handleLoadBranches = useCallback(async () => {
+        const parsed = parseGitHubRepoUrl(userInput);
+        if (!parsed) return;
+        setIsLoadingBranches(true);
+        setError(null);
+        try {
+            const client = getGitHubClient();
+            const [branches, defaultBranch] = await Promise.all([
+                client.listBranches(parsed.owner, parsed.repo),
+                client.getDefaultBranch(parsed.owner, parsed.repo),
+            ]);
+            setRepoBranches(branches);
+            setRepoRef(ref => ref || defaultBranch);
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setIsLoadingBranches(false);
+        }
+    }, [userInput, getGitHubClient]);
 
-    const commonExtensions = [
-        lineNumbers(),
-        history(),
-        keymap.of([...defaultKeymap, ...historyKeymap]),
-        getThemeExtension(theme),
-        EditorState.readOnly.of(true),
-        getLanguageSupport(language),
-        EditorView.lineWrapping,
-    ];
+    // Values of the mode's extra fields; a select without a choice uses its first option.
+    const modeVariables = useMemo(() => Object.fromEntries(modeDefinition.fields.map(field =>
+        [field.name, fieldValues[modeDefinition.id]?.[field.name] ?? (field.type === 'select' ? field.options?.[0] ?? '' : '')]
+    )), [modeDefinition, fieldValues]);
 
-    const mv = new MergeView({
-      a: {
-        doc: originalCode,
-        extensions: commonExtensions.filter(Boolean),
-      },
-      b: {
-        doc: newCode,
-        extensions: commonExtensions.filter(Boolean),
-      },
-      parent: editorRef.current,
-    });
-    mergeViewRef.current = mv;
+    // The test suite of the latest Tests session, which a translation can port along with the code.
+    // Only tests generated for the active file are offered; threads saved before their file was recorded match by code.
+    const testsThread = threads['GENERATE_TESTS'];
+    const testsToTranslate = useMemo(() => {
+        const lastTestTurn = testsThread?.turns[testsThread.turns.length - 1];
+        if (!lastTestTurn || (testsThread.path ? testsThread.path !== activeFile.path : lastTestTurn.code !== code)) return null;
+        const tests = extractFirstCodeBlock(lastTestTurn.response);
+        return tests ? { tests, language: testsThread.language ?? language } : null;
+    }, [testsThread, activeFile.path, code, language]);
 
-    return () => mv.destroy();
-  }, []); // Reruns only on mount
+    // The field values plus what the request needs from inputs outside the fields.
+    const requestVariables = useMemo((): Record<string, string> => mode === 'TRANSLATE'
+        ? {
+            ...modeVariables,
+            targetLanguage,
+            tests: translateTests ? testsToTranslate?.tests ?? '' : '',
+            testsLanguage: testsToTranslate?.language ?? language,
+        }
+        : modeVariables, [mode, modeVariables, targetLanguage, translateTests, testsToTranslate, language]);
 
-  // Handle updates
-  useEffect(() => {
-    const mv = mergeViewRef.current;
-    if (!mv) return;
+    useEffect(() => {
+        if (targetLanguage === language) setTargetLanguage(defaultTargetLanguage(language));
+    }, [language, targetLanguage]);
 
-     const commonExtensions = [
-        lineNumbers(),
-        history(),
-        // FIX: Corrected typo from defaultKeykeymap to defaultKeymap.
-        keymap.of([...defaultKeymap, ...historyKeymap]),
-        getThemeExtension(theme),
-        EditorState.readOnly.of(true),
-        getLanguageSupport(language),
-        EditorView.lineWrapping,
-    ];
+    const setFieldValue = (name: string, value: string) => {
+        setFieldValues(prev => ({ ...prev, [modeDefinition.id]: { ...prev[modeDefinition.id], [name]: value } }));
+    };
 
-    mv.a.setState(EditorState.create({ doc: originalCode, extensions: commonExtensions.filter(Boolean) }));
-    mv.b.setState(EditorState.create({ doc: newCode, extensions: commonExtensions.filter(Boolean) }));
-  }, [originalCode, newCode, language, theme, getLanguageSupport, getThemeExtension]);
+    // The code a request of the current mode would send.
+    const requestCode = modeDefinition.code === 'none' || mode === 'GENERATE' || mode === 'ANALYZE_REPO' ? '' : code;
 
-  return (
-    <div className="relative my-4 text-sm border border-gray-300 dark:border-dark-border rounded-lg overflow-hidden">
-        <div className="grid grid-cols-2 text-center text-xs font-sans text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-slate-900/70">
-            <div className="p-2 border-r border-gray-300 dark:border-dark-border">Your Code</div>
-            <div className="p-2">AI Suggestion</div>
-        </div>
-        <div ref={editorRef} className="w-full h-96 [&>.cm-merge-container]:h-full [&>.cm-merge-container]:bg-white dark:[&>.cm-merge-container]:bg-dark-bg [&_.cm-changedLine]:bg-blue-100 dark:[&_.cm-changedLine]:bg-blue-900/40" />
-    </div>
-  );
-};
+    // The prompt of ANALYZE_REPO depends on the repository, whose sample is budgeted when it is fetched.
+    const requestPrompt = useMemo(
+        () => mode === 'ANALYZE_REPO' ? null : buildRequestPrompt(mode, requestCode, userInput, language, relatedFiles, testModuleName(activeFile.path), { variables: requestVariables }),
+        [mode, requestCode, userInput, language, relatedFiles, activeFile.path, requestVariables]
+    );
 
-const MarkdownResponse: React.FC<{ content: string; originalCode?: string; language?: Language; theme: Theme }> = ({ content, originalCode, language, theme }) => {
-    const parts = useMemo(() => content.split(/(```(?:[a-zA-Z]*\n)?[\s\S]*?```)/g).filter(Boolean), [content]);
-    let diffHasBeenRendered = false;
+    useEffect(() => {
+        if (requestPrompt === null) {
+            setTokenCount(null);
+            return;
+        }
+        const estimate = estimateTokenCount(mode, requestPrompt, requestCode);
+        const messages: ChatMessage[] = [{ role: 'user', content: requestPrompt }];
+        const controller = new AbortController();
+        // Read the provider when the timer fires: App configures it after this effect runs on a settings change.
+        const timer = setTimeout(async () => {
+            let tokens: number;
+            try {
+                tokens = await activeProvider.countTokens(messages, activeProviderSettings.model, controller.signal);
+            } catch (e) {
+                if (controller.signal.aborted) return;
+                console.warn("Could not count tokens, estimating instead:", e);
+                tokens = estimate.tokens;
+            }
+            if (!controller.signal.aborted) setTokenCount({ ...estimate, tokens });
+        }, TOKEN_COUNT_DEBOUNCE_MS);
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [mode, requestPrompt, requestCode, providerSettings]);
 
-    return (
-        <div className="prose prose-sm md:prose-base prose-slate dark:prose-invert max-w-none text-gray-800 dark:text-dark-text-primary w-full leading-relaxed">
-            {parts.map((part, index) => {
-                const isCodeBlock = part.startsWith('```');
+    // Size and cost of the request, including the answer it is expected to get.
+    const budgetFor = useCallback((count: TokenCount): RequestBudget => {
+        const contextTokens = PROVIDER_OPTIONS[providerSettings.providerId].contextTokens;
+        const outputTokens = estimateOutputTokens(count.mode, count.codeTokens);
+        return {
+            inputTokens: count.tokens,
+            outputTokens,
+            contextTokens,
+            cost: estimateCost(providerSettings.providerId, providerSettings.model, { inputTokens: count.tokens, outputTokens }),
+            isOverLimit: count.tokens + outputTokens > contextTokens,
+            maxCodeTokens: maxCodeTokensPerRequest(count.mode, contextTokens, count.overheadTokens),
+        };
+    }, [providerSettings]);
 
-                if (isCodeBlock && originalCode && language && !diffHasBeenRendered) {
-                    diffHasBeenRendered = true;
-                    const code = part.replace(/^```[a-zA-Z]*\n?/, '').replace(/```$/, '').trim();
-                    return <CodeComparison key={index} originalCode={originalCode} newCode={code} language={language} theme={theme}/>;
-                }
+    const requestBudget = useMemo(
+        () => tokenCount && tokenCount.mode === mode ? budgetFor(tokenCount) : null,
+        [tokenCount, mode, budgetFor]
+    );
 
-                if (isCodeBlock) {
-                    const lang = part.match(/^```([a-zA-Z]*)/)?.[1] || '';
-                    const code = part.replace(/^```[a-zA-Z]*\n?/, '').replace(/```$/, '').trim();
-                    return <CodeBlock key={index} language={lang} code={code} theme={theme}/>;
-                } else {
-                    const formattedPart = part
-                        .split(/(\*\*.*?\*\*)/g)
-                        .map((text, i) => {
-                            if (text.startsWith('**') && text.endsWith('**')) {
-                                return <strong key={i}>{text.slice(2, -2)}</strong>;
-                            }
-                            if (text.trim().startsWith('* ') || text.trim().startsWith('- ')) {
-                                return (
-                                    <ul className="list-disc pl-5 my-2" key={i}>
-                                        {text.trim().split('\n').map((item, j) => (
-                                            (item.trim().startsWith('* ') || item.trim().startsWith('- ')) && <li key={j}>{item.trim().substring(2)}</li>
-                                        ))}
-                                    </ul>
-                                );
-                            }
-                            return <span key={i}>{text}</span>;
-                        });
-                    return <div key={index} className="whitespace-pre-wrap my-2">{formattedPart}</div>;
-                }
-            })}
-        </div>
+    const canFitBudget = (budget: RequestBudget | null): budget is RequestBudget =>
+        !!budget && canFitCode(modeDefinition) && budget.maxCodeTokens > 0 && !!requestCode;
+    const canFitRequest = canFitBudget(requestBudget);
+    const chunkCount = useMemo(
+        () => canFitRequest && requestBudget!.isOverLimit ? splitCodeIntoChunks(requestCode, requestBudget!.maxCodeTokens).length : 0,
+        [canFitRequest, requestBudget, requestCode]
     );
-};
 
-const CodeAssistant: React.FC<{ theme: Theme }> = ({ theme }) => {
-    const [mode, setMode] = useState<AiMode>('ASSIST');
-    const [language, setLanguage] = useState<Language>('JavaScript');
-    const [code, setCode] = useState<string>('');
-    const [userInput, setUserInput] = useState<string>('');
-    const [response, setResponse] = useState<string>('');
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
-    const [originalCodeForDiff, setOriginalCodeForDiff] = useState<string>('');
+    const getValidationError = (): string | null => {
+        const missingField = modeDefinition.fields.find(field => field.required && !modeVariables[field.name]?.trim());
+        if (missingField) return `Please fill in "${missingField.label || missingField.name}".`;
+        switch (mode) {
+            case 'ASSIST':
+                return !code || !userInput ? "Please provide both code and a problem description." : null;
+            case 'GENERATE':
+                return !userInput ? "Please provide a description for the code to generate." : null;
+            case 'DEBUG':
+                return !code ? "Please provide code to debug." : null;
+            case 'REFACTOR':
+                return !code ? "Please provide code to refactor." : null;
+            case 'REVIEW':
+                return !code ? "Please provide code to review." : null;
+            case 'SECURITY_AUDIT':
+                return !code ? "Please provide code to audit." : null;
+            case 'EXPLAIN':
+                return !code ? "Please provide code to explain." : null;
+            case 'TRANSLATE':
+                if (!code) return "Please provide code to translate.";
+                return targetLanguage === language ? "Pick a target language different from the source language." : null;
+            case 'GENERATE_DOCS':
+                return !code ? "Please provide code to generate documentation for." : null;
+            case 'GENERATE_TESTS':
+                return !code ? "Please provide code to generate tests for." : null;
+            case 'ANALYZE_REPO':
+                if (!userInput) return "Please provide a GitHub repository URL.";
+                return !parseGitHubRepoUrl(userInput) ? "Invalid GitHub repository URL. Use format: https://github.com/owner/repo" : null;
+            default:
+                if (modeDefinition.code === 'required' && !code) return `Please provide code for ${modeDefinition.label}.`;
+                return modeDefinition.input?.required && !userInput ? `Please fill in the prompt for ${modeDefinition.label}.` : null;
+        }
+    };
 
-    const handleSubmit = useCallback(async () => {
-        setIsLoading(true);
-        setResponse('');
-        setError(null);
-        setOriginalCodeForDiff('');
-        let result = '';
-        let originalCode = '';
-        try {
-            switch (mode) {
+    /**
+     * Sends the request of the current mode. Code that doesn't fit the context window is either cut to its
+     * leading lines (`trim`) or sent in parts whose answers are combined (`chunk`).
+     */
+    const submitRequest = useCallback(async (fit?: 'trim' | 'chunk') => {
+        const validationError = getValidationError();
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        // The count waits for a pause in typing; when it lags behind the inputs, the prompt as it is now is estimated instead.
+        const isCountCurrent = requestPrompt === null || (tokenCount?.mode === mode && tokenCount.prompt === requestPrompt);
+        const budget = isCountCurrent ? requestBudget : budgetFor(estimateTokenCount(mode, requestPrompt, requestCode));
+        if (!fit && budget?.isOverLimit) {
+            setError(canFitBudget(budget)
+                ? "This request is larger than the model's context window. Trim the code or split it into parts below."
+                : "This request is larger than the model's context window. Shorten the input or exclude related files.");
+            return;
+        }
+        const submittedMode = mode;
+        const parts = !fit || !budget ? null
+            : fit === 'chunk' ? splitCodeIntoChunks(code, budget.maxCodeTokens) : [trimCodeToTokens(code, budget.maxCodeTokens)];
+        const controller = startRequest();
+        // Diffs against the editor only make sense when the whole file was sent.
+        const originalCode = !parts && (submittedMode === 'ASSIST' || submittedMode === 'DEBUG' || submittedMode === 'REFACTOR') ? code : '';
+        const turn: ThreadTurn = {
+            id: crypto.randomUUID(),
+            prompt: describeThreadRequest(modeDefinition.label, fit === 'chunk' ? '' : parts?.[0].code ?? code, userInput, language),
+            displayPrompt: '',
+            response: '',
+            code,
+            originalCode,
+        };
+        const thread: ChatThread = { ...EMPTY_THREAD, path: activeFile.path, language, turns: [turn] };
+        setThreads(prev => ({ ...prev, [submittedMode]: thread }));
+        if (submittedMode === 'REVIEW') {
+            setReviewedFileId(activeFile.id);
+            setAppliedFindings(new Set());
+        } else if (submittedMode === 'SECURITY_AUDIT') {
+            setAuditedFileId(activeFile.id);
+            setAppliedFindings(new Set());
+        }
+        // The turn is replayed with the prompt that was sent, unless the code goes out in several parts.
+        let sentPrompt = turn.prompt;
+        const options: StreamOptions = {
+            onChunk: text => {
+                setRetryNotice(null);
+                updateLastTurn(submittedMode, { response: text });
+            },
+            onRetry: handleRetry,
+            onPrompt: fit === 'chunk' ? undefined : prompt => {
+                sentPrompt = prompt;
+                updateLastTurn(submittedMode, { prompt });
+            },
+            signal: controller.signal,
+            variables: requestVariables,
+            mode: submittedMode,
+        };
+        const runMode = async (requestCode: string, options: StreamOptions): Promise<string> => {
+            switch (submittedMode) {
                 case 'ASSIST':
-                    if (!code || !userInput) { setError("Please provide both code and a problem description."); setIsLoading(false); return; }
-                    originalCode = code;
-                    result = await analyzeCode(code, userInput, language);
-                    break;
+                    return analyzeCode(requestCode, userInput, language, relatedFiles, options);
                 case 'GENERATE':
-                    if (!userInput) { setError("Please provide a description for the code to generate."); setIsLoading(false); return; }
-                    result = await generateCode(userInput, language);
-                    break;
+                    return generateCode(userInput, language, relatedFiles, options);
                 case 'DEBUG':
-                    if (!code) { setError("Please provide code to debug."); setIsLoading(false); return; }
-                    originalCode = code;
-                    result = await debugAndExecuteCode(code, language);
-                    break;
+                    return debugAndExecuteCode(requestCode, language, options);
                 case 'REFACTOR':
-                    if (!code) { setError("Please provide code to refactor."); setIsLoading(false); return; }
-                    originalCode = code;
-                    result = await refactorCode(code, language);
-                    break;
+                    return refactorCode(requestCode, language, relatedFiles, options);
                 case 'REVIEW':
-                    if (!code) { setError("Please provide code to review."); setIsLoading(false); return; }
-                    result = await reviewCode(code, language);
-                    break;
+                    return reviewCode(requestCode, language, relatedFiles, options);
+                case 'SECURITY_AUDIT':
+                    return auditSecurity(requestCode, language, relatedFiles, options);
+                case 'EXPLAIN':
+                    return explainCode(requestCode, language, relatedFiles, options);
+                case 'TRANSLATE':
+                    return translateCode(requestCode, language, targetLanguage, requestVariables.tests, testModuleName(activeFile.path), relatedFiles, options);
                 case 'GENERATE_DOCS':
-                    if (!code) { setError("Please provide code to generate documentation for."); setIsLoading(false); return; }
-                    result = await generateDocs(code, language);
-                    break;
+                    return generateDocs(requestCode, language, relatedFiles, options);
                 case 'GENERATE_TESTS':
-                    if (!code) { setError("Please provide code to generate tests for."); setIsLoading(false); return; }
-                    result = await generateTests(code, language);
-                    break;
+                    return generateTests(requestCode, language, testModuleName(activeFile.path), relatedFiles, options);
                 case 'ANALYZE_REPO':
-                    if (!userInput) { setError("Please provide a public GitHub repository URL."); setIsLoading(false); return; }
-                    const match = userInput.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-                    if (!match) { setError("Invalid GitHub repository URL. Use format: https://github.com/owner/repo"); setIsLoading(false); return; }
-                    const [, owner, repo] = match;
-                    try {
-                        const readmeMetaResponse = await fetch(`https://api.github.com/repos/${owner}/${repo.replace(/\.git$/, '')}/readme`);
-                        if (!readmeMetaResponse.ok) throw new Error(`Failed to fetch repo metadata (status: ${readmeMetaResponse.status}). Check URL or API rate limits.`);
-                        const readmeMeta = await readmeMetaResponse.json();
-                        const readmeContentResponse = await fetch(readmeMeta.download_url);
-                        if(!readmeContentResponse.ok) throw new Error("Failed to download README content.");
-                        result = await analyzeRepo(await readmeContentResponse.text());
-                    } catch(e: any) { setError(e.message); setIsLoading(false); return; }
-                    break;
+                    const { owner, repo } = parseGitHubRepoUrl(userInput)!;
+                    const snapshot = await collectRepoSnapshot(getGitHubClient(), owner, repo, repoRef, {
+                        tokenBudget: Math.min(DEFAULT_REPO_TOKEN_BUDGET, Math.floor(getThreadTokenBudget() / 2)),
+                        signal: controller.signal,
+                    });
+                    const summary = `_Analyzed ${snapshot.sampledFiles.length} of ${snapshot.totalFiles} files of \`${owner}/${repo}\` at \`${snapshot.ref}\` (~${snapshot.estimatedTokens.toLocaleString()} tokens)._\n\n`;
+                    return summary + await analyzeRepo(snapshot, { ...options, onChunk: text => options.onChunk?.(summary + text) });
+                default:
+                    return runCustomMode(submittedMode, modeDefinition.code === 'none' ? '' : requestCode, userInput, language, relatedFiles, options);
+            }
+        };
+        let result = '';
+        try {
+            if (!parts) {
+                result = await runMode(code, options);
+            } else if (submittedMode === 'REVIEW' || submittedMode === 'SECURITY_AUDIT') {
+                // Each part is reviewed on its own; the reports are merged into one so findings map onto the whole file.
+                const parseReport = submittedMode === 'REVIEW' ? parseReviewReport : parseSecurityReport;
+                const reports: { report: ReviewReport | SecurityReport; startLine: number; endLine: number }[] = [];
+                for (const part of parts) {
+                    const text = await runMode(part.code, { ...options, onChunk: undefined });
+                    if (controller.signal.aborted) break;
+                    reports.push({ report: parseReport(text), startLine: part.startLine, endLine: part.endLine });
+                }
+                result = reports.length > 0 ? JSON.stringify(mergeReviewReports<ReviewFinding | SecurityFinding>(reports), null, 2) : '';
+            } else if (submittedMode === 'EXPLAIN') {
+                const explanations: { explanation: CodeExplanation; startLine: number; endLine: number }[] = [];
+                for (const part of parts) {
+                    const text = await runMode(part.code, { ...options, onChunk: undefined });
+                    if (controller.signal.aborted) break;
+                    explanations.push({ explanation: parseExplanation(text), startLine: part.startLine, endLine: part.endLine });
+                }
+                result = explanations.length > 0 ? JSON.stringify(mergeExplanations(explanations), null, 2) : '';
+            } else {
+                const lineCount = code.split('\n').length;
+                const answers: string[] = [];
+                for (const [index, part] of parts.entries()) {
+                    if (controller.signal.aborted) break;
+                    const heading = fit === 'chunk'
+                        ? `### Part ${index + 1} of ${parts.length} (lines ${part.startLine}–${part.endLine})\n\n`
+                        : `_Only lines 1–${part.endLine} of ${lineCount} were sent to fit the model's context window._\n\n`;
+                    const previous = answers.map(answer => answer + '\n\n').join('');
+                    answers.push(heading + await runMode(part.code, { ...options, onChunk: text => options.onChunk?.(previous + heading + text) }));
+                }
+                result = answers.join('\n\n');
+            }
+            if (result) {
+                updateLastTurn(submittedMode, { response: result });
+                recordHistory({
+                    mode: submittedMode,
+                    language,
+                    prompt: userInput,
+                    pinned: false,
+                    thread: { ...thread, turns: [{ ...turn, prompt: sentPrompt, response: result }] },
+                });
+                queueSyntaxRetry(submittedMode, turn.id, result, controller.signal);
+            } else {
+                dropLastTurn(submittedMode);
             }
-            setOriginalCodeForDiff(originalCode);
-            setResponse(result);
         } catch (e: any) {
-            setError(e.message || "An unexpected error occurred.");
-            setResponse('');
+            if (!controller.signal.aborted) setError(e instanceof ModelError ? e : e.message || "An unexpected error occurred.");
+            dropLastTurn(submittedMode);
         } finally {
-            setIsLoading(false);
+            finishRequest(controller);
         }
-    }, [mode, code, userInput, language]);
+    }, [mode, modeDefinition, modeVariables, requestVariables, targetLanguage, code, userInput, language, relatedFiles, activeFile.id, activeFile.path, repoRef, requestPrompt, requestCode, tokenCount, requestBudget, budgetFor, getGitHubClient, startRequest, finishRequest, handleRetry, updateLastTurn, dropLastTurn, recordHistory, queueSyntaxRetry]);
 
-    const ModeButton = ({ value, label, icon }: { value: AiMode; label: string; icon: React.ReactNode }) => (
-        <button onClick={() => { setMode(value); setResponse(''); setCode(''); setUserInput(''); setError(null); setOriginalCodeForDiff(''); }}
-            className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${ mode === value ? 'bg-brand-primary text-white shadow-lg' : 'bg-gray-200 dark:bg-dark-surface text-gray-600 dark:text-dark-text-secondary hover:bg-gray-300 dark:hover:bg-slate-700' }`}>
-            {icon}
-            <span className="hidden sm:inline">{label}</span>
-        </button>
-    );
+    const handleSubmit = useCallback(() => submitRequest(), [submitRequest]);
+
+    /** Asks a follow-up in the current mode's thread; `isSyntaxRetry` marks the automatic re-ask, whose answer isn't re-asked again. */
+    const sendFollowUp = useCallback(async (question: string, displayPrompt = question, isSyntaxRetry = false) => {
+        const thread = threads[mode];
+        if (!thread || !question || isLoading) return;
+        const submittedMode = mode;
+        const controller = startRequest();
+        const previousTurn = thread.turns[thread.turns.length - 1];
+        const prompt = buildFollowUpPrompt(question, code, language, code !== previousTurn.code);
+        const turn: ThreadTurn = {
+            id: crypto.randomUUID(),
+            prompt,
+            displayPrompt,
+            response: '',
+            code,
+            originalCode: thread.turns[0].originalCode ? code : '',
+        };
+        setThreads(prev => ({ ...prev, [submittedMode]: { ...thread, turns: [...thread.turns, turn] } }));
+        try {
+            const compacted = await compactThread(thread, controller.signal);
+            if (compacted !== thread) {
+                setThreads(prev => ({ ...prev, [submittedMode]: { ...compacted, turns: [...compacted.turns, turn] } }));
+            }
+            const result = await continueConversation(prompt, buildThreadHistory(compacted), {
+                onChunk: text => {
+                    setRetryNotice(null);
+                    updateLastTurn(submittedMode, { response: text });
+                },
+                onRetry: handleRetry,
+                signal: controller.signal,
+                mode: submittedMode,
+            });
+            if (result) {
+                updateLastTurn(submittedMode, { response: result });
+                const existing = historyEntries.find(entry => entry.id === thread.turns[0].id);
+                recordHistory({
+                    mode: submittedMode,
+                    language,
+                    prompt: existing?.prompt ?? '',
+                    pinned: existing?.pinned ?? false,
+                    thread: { ...compacted, turns: [...compacted.turns, { ...turn, response: result }] },
+                });
+                if (!isSyntaxRetry) queueSyntaxRetry(submittedMode, turn.id, result, controller.signal);
+            } else {
+                dropLastTurn(submittedMode);
+            }
+        } catch (e: any) {
+            if (!controller.signal.aborted) setError(e instanceof ModelError ? e : e.message || "An unexpected error occurred.");
+            dropLastTurn(submittedMode);
+        } finally {
+            finishRequest(controller);
+        }
+    }, [threads, mode, isLoading, code, language, historyEntries, startRequest, finishRequest, handleRetry, updateLastTurn, dropLastTurn, recordHistory, queueSyntaxRetry]);
+
+    // Sent once the answer's request has finished, unless the user has moved on to another mode or request since.
+    useEffect(() => {
+        if (!syntaxRetry || isLoading) return;
+        setSyntaxRetry(null);
+        const turns = threads[syntaxRetry.mode]?.turns;
+        if (syntaxRetry.mode !== mode || turns?.at(-1)?.id !== syntaxRetry.turnId) return;
+        sendFollowUp(syntaxRetry.prompt, syntaxRetry.prompt, true);
+    }, [syntaxRetry, isLoading, threads, mode, sendFollowUp]);
+
+    const handleFollowUp = useCallback((e?: React.FormEvent) => {
+        e?.preventDefault();
+        const question = followUp.trim();
+        if (!threads[mode] || !question || isLoading) return;
+        setFollowUp('');
+        sendFollowUp(question);
+    }, [threads, mode, followUp, isLoading, sendFollowUp]);
+
+    const startTestRun = useCallback(async (runId: string, code: string, tests: string, language: Language) => {
+        testAbortControllerRef.current?.abort();
+        const controller = new AbortController();
+        testAbortControllerRef.current = controller;
+        setTestRuns(prev => ({ ...prev, [runId]: { ...prev[runId], isRunning: true } }));
+        let result: ExecutionResult;
+        try {
+            result = await runTestSuite(code, tests, language, testModuleName(activeFile.path), controller.signal);
+        } catch (e: any) {
+            // E.g. the browser refused to start the sandbox worker.
+            result = { stdout: '', stderr: '', timedOut: false, timeoutMs: TEST_RUN_TIMEOUT_MS, killed: false, runtimeUnavailable: true, durationMs: 0, tests: [], error: `Could not run the tests: ${e?.message ?? e}` };
+        } finally {
+            if (testAbortControllerRef.current === controller) {
+                testAbortControllerRef.current = null;
+            }
+        }
+        setTestRuns(prev => ({ ...prev, [runId]: { isRunning: false, result } }));
+    }, [activeFile.path]);
+
+    const handleRunTests = useCallback((turn: ThreadTurn) => {
+        const tests = extractFirstCodeBlock(turn.response);
+        if (tests) startTestRun(turn.id, code, tests, language);
+    }, [code, language, startTestRun]);
+
+    // The translated tests run against the translated code, not the editor.
+    const handleRunTranslatedTests = useCallback((turn: ThreadTurn, translation: CodeTranslation) => {
+        if (translation.tests !== undefined) startTestRun(turn.id, translation.code, translation.tests, translation.targetLanguage);
+    }, [startTestRun]);
+
+    /**
+     * Runs a selection action and puts its answer where it belongs: a note on the selection, the selection itself,
+     * or the test file next to the active file (created if needed, opened in a tab but not focused).
+     */
+    const handleSelectionAction = useCallback(async (action: SelectionAction, range: { from: number; to: number }) => {
+        const view = editorViewRef.current;
+        if (!view) return;
+        const selection = view.state.sliceDoc(range.from, range.to);
+        const fileLanguage = activeFile.language;
+        const filePath = activeFile.path;
+        const moduleName = testModuleName(filePath);
+        const trackingId = crypto.randomUUID();
+        view.dispatch({ effects: [setSelectionNote.of({ pos: range.from, content: `${action.progress}…`, pending: true }), trackRange.of({ id: trackingId, range })] });
+        const showNote = (content: string, isError = false) => {
+            // The editor is replaced when another file is opened; the note goes with it.
+            if (editorViewRef.current === view) view.dispatch({ effects: setSelectionNote.of({ content, isError }) });
+        };
+        try {
+            const result = await runSelectionAction(action, selection, view.state.doc.toString(), fileLanguage, moduleName);
+            if (!result.trim()) {
+                showNote("The model returned nothing.", true);
+            } else if (action.result === 'annotate') {
+                showNote(result);
+            } else if (action.result === 'replace') {
+                const current = view.state.field(trackedRangesField, false)?.get(trackingId);
+                if (editorViewRef.current !== view || !current || !replaceRangeIfUnchanged(view, current.from, current.to, selection, result)) {
+                    showNote("The selected code changed while waiting, so the result was not applied.", true);
+                } else {
+                    view.dispatch({ effects: setSelectionNote.of(null) });
+                }
+            } else {
+                const directory = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/') + 1) : '';
+                const testPath = directory + (TEST_FILE_NAMES[fileLanguage]?.(moduleName) ?? `${moduleName}.test.${LANGUAGE_REGISTRY[fileLanguage].extensions[0]}`);
+                setWorkspace(current => {
+                    const existing = current.files.find(file => file.path === testPath);
+                    if (existing) {
+                        return { ...current, files: current.files.map(file => file === existing ? { ...file, content: `${file.content.replace(/\s*$/, '')}
+
+${result}
+` } : file) };
+                    }
+                    const testFile = createWorkspaceFile(testPath, `${result}
+`, fileLanguage);
+                    return { ...current, files: [...current.files, testFile], openFileIds: [...current.openFileIds, testFile.id] };
+                });
+                showNote(`Added the test to \`${testPath}\`.`);
+            }
+        } catch (e: any) {
+            showNote(e instanceof ModelError ? `${MODEL_ERROR_BANNERS[e.kind].title}: ${e.message}` : e.message || "The action failed.", true);
+        } finally {
+            if (editorViewRef.current === view) view.dispatch({ effects: trackRange.of({ id: trackingId, range: null }) });
+        }
+    }, [activeFile.language, activeFile.path]);
+
+    const handleStopTests = useCallback(() => {
+        testAbortControllerRef.current?.abort();
+    }, []);
+
+    // The exchange as shown: its prompt is the one saved with the session, or the current input before it is saved.
+    const sessionExport = useMemo((): SessionExport | null => {
+        const thread = threads[mode];
+        if (!thread || thread.turns.length === 0) return null;
+        const { turns } = thread;
+        const entry = historyEntries.find(candidate => candidate.id === turns[0].id);
+        return {
+            mode,
+            modeLabel: modeDefinition.label,
+            language: thread.language ?? entry?.language ?? language,
+            path: thread.path ?? activeFile.path,
+            prompt: entry?.prompt ?? userInput,
+            model: entry?.model ?? providerSettings.model,
+            timestamp: entry?.timestamp ?? Date.now(),
+            turns,
+        };
+    }, [threads, historyEntries, mode, modeDefinition, language, activeFile.path, userInput, providerSettings.model]);
+
+    const exportFiles = useMemo(() => sessionExport && !isLoading ? collectSessionFiles(sessionExport) : [], [sessionExport, isLoading]);
+
+    const handleExport = useCallback((format: ExportFormat) => {
+        if (sessionExport) exportSession(sessionExport, format);
+    }, [sessionExport]);
+
+    const canShareInUrl = useMemo(() => !!sessionExport && !isLoading && fitsInShareFragment(sessionExport), [sessionExport, isLoading]);
+
+    const handleShare = useCallback(async (expiresInDays?: number) => {
+        if (!sessionExport) return;
+        let link: { url: string; expiresAt: number | null };
+        try {
+            link = await createShareLink(sessionExport, expiresInDays);
+        } catch (e: any) {
+            setError(e.message);
+            return;
+        }
+        try {
+            await navigator.clipboard.writeText(link.url);
+            setResponseNotice(link.expiresAt ? `Link copied; it expires on ${new Date(link.expiresAt).toLocaleDateString()}` : 'Link copied to the clipboard');
+        } catch {
+            // Clipboard access can lapse while the share service answers; let the user copy it instead.
+            window.prompt('Copy the link to this session:', link.url);
+        }
+    }, [sessionExport]);
+
+    const handleFixFailingTests = useCallback((result: ExecutionResult) => {
+        const failed = (result.tests ?? []).filter(test => test.status === 'failed').length;
+        sendFollowUp(buildFixFailingTestsPrompt(result), failed > 0 ? `Fix the ${failed} failing test${failed === 1 ? '' : 's'}.` : 'Fix the test suite so it runs.');
+    }, [sendFollowUp]);
+
+    const selectMode = useCallback((id: ModeId) => {
+        handleStop();
+        setMode(id);
+        setFollowUp('');
+        setError(null);
+    }, [handleStop]);
+
+    const shortcutDefinitions = useMemo(() => buildShortcutDefinitions(modeDefinitions), [modeDefinitions]);
+    const shortcutBindings = useMemo(() => resolveShortcutBindings(shortcutDefinitions, shortcutOverrides), [shortcutDefinitions, shortcutOverrides]);
+
+    useEffect(() => {
+        saveShortcutOverrides(shortcutOverrides);
+    }, [shortcutOverrides]);
+
+    const handleRebindShortcut = useCallback((id: string, key: string | null) => {
+        setShortcutOverrides(overrides => rebindShortcut(shortcutDefinitions, overrides, id, key));
+    }, [shortcutDefinitions]);
+
+    useEffect(() => {
+        if (!responseNotice) return;
+        const timer = setTimeout(() => setResponseNotice(null), 4000);
+        return () => clearTimeout(timer);
+    }, [responseNotice]);
+
+    const copyResponse = () => {
+        if (!sessionExport || !lastTurn?.response || isLoading) return;
+        navigator.clipboard.writeText(formatTurnResponse(sessionExport, lastTurn, turns.length - 1))
+            .then(() => setResponseNotice('Copied to the clipboard'), () => setResponseNotice('Could not copy the response'));
+    };
+
+    // Errors are the formatter's own, usually pointing at the code it couldn't parse.
+    const formatActiveFile = useCallback(() => {
+        const view = editorViewRef.current;
+        if (!view || !canFormat(activeFile.language)) return;
+        formatEditorDocument(view, activeFile.language).catch(e => setError(e.message));
+    }, [activeFile.language]);
+
+    const runShortcut = (id: string) => {
+        const modeId = modeFromShortcutId(id);
+        if (modeId) {
+            if (modeDefinitions.some(definition => definition.id === modeId)) selectMode(modeId);
+            return;
+        }
+        switch (id as ShortcutId) {
+            case 'openPalette': setIsPaletteOpen(open => !open); break;
+            case 'submit': if (!isLoading) handleSubmit(); break;
+            case 'stop': handleStop(); break;
+            case 'copyResponse': copyResponse(); break;
+            case 'formatCode': formatActiveFile(); break;
+            case 'openHistory': setIsHistoryOpen(true); break;
+            case 'toggleTheme': onToggleTheme(); break;
+            case 'showShortcuts': setIsShortcutsHelpOpen(true); break;
+        }
+    };
+    // Listeners and the editor keep their handler between renders; it runs with the latest state through the ref.
+    const runShortcutRef = useRef(runShortcut);
+    runShortcutRef.current = runShortcut;
+
+    // Editor shortcuts are handled by the editor, so they can take precedence over its own keymap.
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.defaultPrevented || event.isComposing) return;
+            const shortcut = shortcutFromEvent(event);
+            const id = shortcut && findShortcutId(shortcutBindings, shortcut);
+            if (!shortcut || !id || shortcutDefinitions.find(definition => definition.id === id)?.scope !== 'global') return;
+            // An open dialog owns the keyboard, e.g. Mod-Enter in the mode editor must not submit the main request.
+            if (document.querySelector('[aria-modal="true"]')) return;
+            if (typesText(shortcut) && (event.target as HTMLElement | null)?.closest('input, textarea, select, [contenteditable="true"]')) return;
+            event.preventDefault();
+            runShortcutRef.current(id);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [shortcutBindings, shortcutDefinitions]);
+
+    const handleEditorSubmit = useCallback(() => runShortcutRef.current('submit'), []);
+    const editorKeyBindings = useMemo((): EditorKeyBindings => ({
+        submit: shortcutBindings.submit,
+        selectionMenu: shortcutBindings.selectionMenu,
+    }), [shortcutBindings.submit, shortcutBindings.selectionMenu]);
+
+    // Inline completions, the selection menu and the submit shortcut, for every editor the modes show.
+    const editorAssist = useMemo(() => ({
+        completionSource: providerSettings.inlineCompletions ? requestInlineCompletion : undefined,
+        onSelectionAction: handleSelectionAction,
+        onSubmit: handleEditorSubmit,
+        keyBindings: editorKeyBindings,
+        onFormat: formatActiveFile,
+    }), [providerSettings.inlineCompletions, handleSelectionAction, handleEditorSubmit, editorKeyBindings, formatActiveFile]);
+
+    const buildPaletteCommands = (): PaletteCommand[] => {
+        const commands: PaletteCommand[] = [];
+        const addAction = (id: string, label: string, run: () => void) => {
+            commands.push({ id, group: 'Actions', label, shortcut: shortcutBindings[id], run });
+        };
+        if (!isLoading) addAction('submit', submitButtonTextAndIcon.text, () => runShortcut('submit'));
+        if (isLoading) addAction('stop', 'Stop the request', handleStop);
+        if (sessionExport && lastTurn?.response && !isLoading) {
+            addAction('copyResponse', 'Copy the response', copyResponse);
+            addAction('share', 'Share a link to the session', () => handleShare());
+            addAction('export:markdown', 'Export the session as Markdown', () => handleExport('markdown'));
+            addAction('export:html', 'Export the session as HTML', () => handleExport('html'));
+            addAction('export:pdf', 'Print the session or save it as PDF', () => handleExport('pdf'));
+        }
+        if (canFormat(activeFile.language)) addAction('formatCode', 'Format the code in the editor', formatActiveFile);
+        addAction('openHistory', 'Open history', () => setIsHistoryOpen(true));
+        addAction('toggleTheme', theme === 'dark' ? 'Switch to the light theme' : 'Switch to the dark theme', onToggleTheme);
+        addAction('showShortcuts', 'Show keyboard shortcuts', () => setIsShortcutsHelpOpen(true));
+        addAction('openSettings', 'Open model settings', onOpenSettings);
+        addAction('openUsage', 'Show usage', onOpenUsage);
+        addAction('editModes', 'Edit modes', () => setIsModeEditorOpen(true));
+        for (const definition of modeDefinitions) {
+            const id = modeShortcutId(definition.id);
+            commands.push({ id, group: 'Modes', label: definition.label, detail: definition.id === mode ? 'current' : undefined, shortcut: shortcutBindings[id], run: () => selectMode(definition.id) });
+        }
+        for (const lang of LANGUAGES) {
+            commands.push({ id: `language:${lang}`, group: 'Languages', label: lang, detail: lang === language ? 'current' : undefined, run: () => setLanguage(lang) });
+        }
+        if (mode === 'TRANSLATE') {
+            for (const lang of LANGUAGES.filter(lang => lang !== language)) {
+                commands.push({ id: `target-language:${lang}`, group: 'Languages', label: `Translate to ${lang}`, run: () => setTargetLanguage(lang) });
+            }
+        }
+        for (const entry of historyEntries) {
+            commands.push({
+                id: `history:${entry.id}`,
+                group: 'History',
+                label: entry.prompt.split('\n').find(line => line.trim()) || entry.code.split('\n').find(line => line.trim()) || '(empty)',
+                detail: `${modeLabels[entry.mode] ?? entry.mode} · ${entry.language} · ${new Date(entry.timestamp).toLocaleString()}`,
+                run: () => handleRestoreHistory(entry),
+            });
+        }
+        return commands;
+    };
+
+    const renderModeButton = (definition: ModeDefinition) => {
+        const Icon = MODE_ICONS[definition.icon];
+        return (
+            <button key={definition.id} onClick={() => selectMode(definition.id)}
+                className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${ mode === definition.id ? 'bg-brand-primary text-white shadow-lg' : 'bg-gray-200 dark:bg-dark-surface text-gray-600 dark:text-dark-text-secondary hover:bg-gray-300 dark:hover:bg-slate-700' }`}>
+                <Icon className="w-5 h-5" />
+                <span className="hidden sm:inline">{definition.label}</span>
+            </button>
+        );
+    };
 
     const renderInputFields = () => {
         const commonTextAreaClasses = "w-full p-4 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-lg focus:ring-2 focus:ring-brand-primary focus:outline-none resize-y text-sm";
@@ -840,7 +8777,7 @@ const CodeAssistant: React.FC<{ theme: Theme }> = ({ theme }) => {
         switch (mode) {
             case 'ASSIST':
                 return (
-                    <><div className="h-64 sm:flex-grow"><CodeEditor value={code} onChange={setCode} language={language} theme={theme} /></div>
+                    <><div className="h-64 sm:flex-grow"><WorkspacePanel workspace={workspace} onWorkspaceChange={setWorkspace} theme={theme} editorViewRef={editorViewRef} {...editorAssist} /></div>
                     <textarea value={userInput} onChange={(e) => setUserInput(e.target.value)} placeholder="Describe the issue..." className={`${commonTextAreaClasses} h-24`} /></>
                 );
             case 'GENERATE':
@@ -848,13 +8785,76 @@ const CodeAssistant: React.FC<{ theme: Theme }> = ({ theme }) => {
             case 'DEBUG':
             case 'REFACTOR':
             case 'REVIEW':
+            case 'SECURITY_AUDIT':
             case 'GENERATE_DOCS':
             case 'GENERATE_TESTS':
-                return <div className="w-full h-full"><CodeEditor value={code} onChange={setCode} language={language} theme={theme} /></div>;
+                return <div className="w-full h-full"><WorkspacePanel workspace={workspace} onWorkspaceChange={setWorkspace} theme={theme} editorViewRef={editorViewRef} {...editorAssist} diagnostics={reviewDiagnostics} /></div>;
+            case 'TRANSLATE':
+                return (
+                    <>
+                        <div className="h-64 sm:flex-grow"><WorkspacePanel workspace={workspace} onWorkspaceChange={setWorkspace} theme={theme} editorViewRef={editorViewRef} {...editorAssist} /></div>
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-dark-text-secondary">
+                            <input type="checkbox" checked={translateTests && !!testsToTranslate} disabled={!testsToTranslate} onChange={(e) => setTranslateTests(e.target.checked)} />
+                            <span>Also translate the generated tests{!testsToTranslate && ' (generate tests for this file in the Tests mode first)'}</span>
+                        </label>
+                    </>
+                );
+            case 'EXPLAIN':
+                return <div className="w-full h-full"><WorkspacePanel workspace={workspace} onWorkspaceChange={setWorkspace} theme={theme} editorViewRef={editorViewRef} {...editorAssist} onLineActivity={canLinkExplanation ? handleLineActivity : undefined} /></div>;
             case 'ANALYZE_REPO':
-                return <input type="url" value={userInput} onChange={(e) => setUserInput(e.target.value)} placeholder="Enter public GitHub repo URL" className={commonInputClasses} />
+                return (
+                    <>
+                        <input type="url" value={userInput} onChange={(e) => { setUserInput(e.target.value); setRepoBranches([]); }} placeholder="Enter GitHub repo URL" className={commonInputClasses} />
+                        <input type="password" value={githubToken} onChange={(e) => setGithubToken(e.target.value)} placeholder="Access token for private repos (optional, not saved)" autoComplete="off" className={commonInputClasses} />
+                        <div className="flex gap-2">
+                            <input list="repo-branches" value={repoRef} onChange={(e) => setRepoRef(e.target.value)} placeholder="Branch, tag or commit SHA (default branch if empty)" className={commonInputClasses} />
+                            <datalist id="repo-branches">
+                                {repoBranches.map(branch => <option key={branch} value={branch} />)}
+                            </datalist>
+                            <button onClick={handleLoadBranches} disabled={!parseGitHubRepoUrl(userInput) || isLoadingBranches}
+                                className="flex-shrink-0 px-4 py-2 text-sm font-medium text-gray-700 dark:text-dark-text-primary bg-gray-200 dark:bg-dark-border rounded-lg hover:bg-gray-300 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                                {isLoadingBranches ? 'Loading...' : 'Load branches'}
+                            </button>
+                        </div>
+                    </>
+                );
+            default:
+                return (
+                    <>
+                        {modeDefinition.code !== 'none' && (
+                            <div className="h-64 sm:flex-grow"><WorkspacePanel workspace={workspace} onWorkspaceChange={setWorkspace} theme={theme} editorViewRef={editorViewRef} {...editorAssist} /></div>
+                        )}
+                        {modeDefinition.input && (
+                            <textarea value={userInput} onChange={(e) => setUserInput(e.target.value)} placeholder={modeDefinition.input.placeholder}
+                                className={`${commonTextAreaClasses} ${modeDefinition.code === 'none' ? 'h-full' : 'h-24'}`} />
+                        )}
+                    </>
+                );
         }
     };
+
+    const renderModeFields = () => {
+        if (modeDefinition.fields.length === 0) return null;
+        const fieldClasses = "w-full px-3 py-2 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-lg focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm";
+        return (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {modeDefinition.fields.map(field => (
+                    <label key={field.name} className={`text-sm ${field.type === 'textarea' ? 'sm:col-span-2' : ''}`}>
+                        <span className="block mb-1 font-medium text-gray-700 dark:text-dark-text-secondary">{field.label || field.name}{field.required && ' *'}</span>
+                        {field.type === 'select' ? (
+                            <select value={modeVariables[field.name]} onChange={(e) => setFieldValue(field.name, e.target.value)} className={fieldClasses}>
+                                {(field.options ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                        ) : field.type === 'textarea' ? (
+                            <textarea value={modeVariables[field.name]} onChange={(e) => setFieldValue(field.name, e.target.value)} placeholder={field.placeholder} rows={3} className={`${fieldClasses} resize-y`} />
+                        ) : (
+                            <input value={modeVariables[field.name]} onChange={(e) => setFieldValue(field.name, e.target.value)} placeholder={field.placeholder} className={fieldClasses} />
+                        )}
+                    </label>
+                ))}
+            </div>
+        );
+    };
     
     const submitButtonTextAndIcon = useMemo(() => {
         switch (mode) {
@@ -863,36 +8863,91 @@ const CodeAssistant: React.FC<{ theme: Theme }> = ({ theme }) => {
             case 'DEBUG': return { text: 'Debug & Run', icon: <PlayIcon className="w-5 h-5" /> };
             case 'REFACTOR': return { text: 'Refactor Code', icon: <SparklesIcon className="w-5 h-5" /> };
             case 'REVIEW': return { text: 'Review Code', icon: <ChecklistIcon className="w-5 h-5" /> };
+            case 'SECURITY_AUDIT': return { text: 'Audit Security', icon: <ShieldIcon className="w-5 h-5" /> };
+            case 'EXPLAIN': return { text: 'Explain Code', icon: <LightbulbIcon className="w-5 h-5" /> };
+            case 'TRANSLATE': return { text: `Translate to ${targetLanguage}`, icon: <GlobeIcon className="w-5 h-5" /> };
             case 'GENERATE_DOCS': return { text: 'Generate Docs', icon: <DocumentTextIcon className="w-5 h-5" /> };
             case 'GENERATE_TESTS': return { text: 'Generate Tests', icon: <BeakerIcon className="w-5 h-5" /> };
             case 'ANALYZE_REPO': return { text: 'Analyze Repo', icon: <GitHubIcon className="w-5 h-5" /> };
+            default:
+                const Icon = MODE_ICONS[modeDefinition.icon];
+                return { text: `Run ${modeDefinition.label}`, icon: <Icon className="w-5 h-5" /> };
         }
-    }, [mode]);
+    }, [mode, modeDefinition, targetLanguage]);
 
     return (
         <div className="container mx-auto p-4"><div className="grid grid-cols-1 lg:grid-cols-2 lg:gap-8">
             <div className="flex flex-col space-y-4">
                 <div className="flex flex-wrap justify-center gap-2 mb-2">
-                    <ModeButton value="ASSIST" label="Assist" icon={<CodeIcon className="w-5 h-5" />} />
-                    <ModeButton value="GENERATE" label="Generate" icon={<WandIcon className="w-5 h-5" />} />
-                    <ModeButton value="DEBUG" label="Debug" icon={<BugIcon className="w-5 h-5" />} />
-                    <ModeButton value="REFACTOR" label="Refactor" icon={<SparklesIcon className="w-5 h-5" />} />
-                    <ModeButton value="REVIEW" label="Review" icon={<ChecklistIcon className="w-5 h-5" />} />
-                    <ModeButton value="GENERATE_DOCS" label="Docs" icon={<DocumentTextIcon className="w-5 h-5" />} />
-                    <ModeButton value="GENERATE_TESTS" label="Tests" icon={<BeakerIcon className="w-5 h-5" />} />
-                    <ModeButton value="ANALYZE_REPO" label="Repo" icon={<GitHubIcon className="w-5 h-5" />} />
+                    <button onClick={() => setIsHistoryOpen(true)} className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors bg-gray-200 dark:bg-dark-surface text-gray-600 dark:text-dark-text-secondary hover:bg-gray-300 dark:hover:bg-slate-700" aria-label="Open history">
+                        <ClockIcon className="w-5 h-5" />
+                        <span className="hidden sm:inline">History</span>
+                    </button>
+                    <button onClick={() => setIsPaletteOpen(true)} className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors bg-gray-200 dark:bg-dark-surface text-gray-600 dark:text-dark-text-secondary hover:bg-gray-300 dark:hover:bg-slate-700" aria-label="Open command palette">
+                        <SearchIcon className="w-5 h-5" />
+                        {shortcutBindings.openPalette && <kbd className="hidden sm:inline text-xs font-mono">{formatShortcut(shortcutBindings.openPalette)}</kbd>}
+                    </button>
+                    {modeDefinitions.map(renderModeButton)}
+                    <button onClick={() => setIsModeEditorOpen(true)} className="flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors bg-gray-200 dark:bg-dark-surface text-gray-600 dark:text-dark-text-secondary hover:bg-gray-300 dark:hover:bg-slate-700" aria-label="Edit modes">
+                        <PencilIcon className="w-5 h-5" />
+                        <span className="hidden sm:inline">Modes</span>
+                    </button>
                 </div>
                 <div className="bg-white/80 dark:bg-dark-surface/50 backdrop-blur-sm p-4 rounded-xl shadow-lg flex flex-col flex-grow h-full min-h-[40rem]">
                     <div className="flex items-center space-x-4 mb-4">
-                        <label htmlFor="language-select" className="font-medium text-sm text-gray-700 dark:text-dark-text-secondary">Language:</label>
+                        <label htmlFor="language-select" className="font-medium text-sm text-gray-700 dark:text-dark-text-secondary">{mode === 'TRANSLATE' ? 'From:' : 'Language:'}</label>
                         <select id="language-select" value={language} onChange={(e) => setLanguage(e.target.value as Language)}
                             className="bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md px-3 py-2 focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm">
                             {LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
                         </select>
+                        {mode === 'TRANSLATE' && (
+                            <>
+                                <label htmlFor="target-language-select" className="font-medium text-sm text-gray-700 dark:text-dark-text-secondary">To:</label>
+                                <select id="target-language-select" value={targetLanguage} onChange={(e) => setTargetLanguage(e.target.value as Language)}
+                                    className="bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-md px-3 py-2 focus:ring-2 focus:ring-brand-primary focus:outline-none text-sm">
+                                    {LANGUAGES.filter(lang => lang !== language).map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                                </select>
+                            </>
+                        )}
                     </div>
-                    <div className="space-y-4 flex-grow flex flex-col">{renderInputFields()}</div>
-                    {error && <div className="p-3 my-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md text-center" role="alert">{error}</div>}
-                    <div className="flex justify-end pt-4 mt-auto">
+                    <div className="space-y-4 flex-grow flex flex-col">{renderInputFields()}{renderModeFields()}</div>
+                    {retryNotice && isLoading && <RetryBanner notice={retryNotice} />}
+                    {error instanceof ModelError ? (
+                        <ModelErrorBanner error={error} providerLabel={PROVIDER_OPTIONS[providerSettings.providerId].label} onOpenSettings={onOpenSettings} />
+                    ) : error && (
+                        <div className="p-3 my-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md text-center" role="alert">{error}</div>
+                    )}
+                    {requestBudget?.isOverLimit && !isLoading && (
+                        <div className="p-3 my-2 text-sm text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-900/40 rounded-md" role="status">
+                            <p>
+                                This request needs about {(requestBudget.inputTokens + requestBudget.outputTokens).toLocaleString()} tokens including the answer,
+                                but {providerSettings.model} accepts {requestBudget.contextTokens.toLocaleString()}.
+                                {!canFitRequest && ' Shorten the input or exclude related files from the prompt.'}
+                            </p>
+                            {canFitRequest && (
+                                <div className="flex flex-wrap gap-2 mt-2">
+                                    <button onClick={() => submitRequest('trim')} className="px-3 py-1.5 text-xs font-medium rounded-md bg-amber-200 dark:bg-amber-800/60 hover:bg-amber-300 dark:hover:bg-amber-700/60">
+                                        Trim to fit
+                                    </button>
+                                    <button onClick={() => submitRequest('chunk')} className="px-3 py-1.5 text-xs font-medium rounded-md bg-amber-200 dark:bg-amber-800/60 hover:bg-amber-300 dark:hover:bg-amber-700/60">
+                                        Split into {chunkCount} parts
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="flex items-center justify-end gap-2 pt-4 mt-auto">
+                        {requestBudget && (
+                            <span className={`mr-auto text-xs tabular-nums ${requestBudget.isOverLimit ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-dark-text-secondary'}`}
+                                title={`Input tokens of the request. The cost estimate assumes an answer of about ${requestBudget.outputTokens.toLocaleString()} tokens.`}>
+                                {requestBudget.inputTokens.toLocaleString()} tokens{requestBudget.cost !== null && ` · est. ${formatCost(requestBudget.cost)}`}
+                            </span>
+                        )}
+                        {isLoading && (
+                            <button onClick={handleStop} className="flex items-center justify-center space-x-2 px-4 py-3 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors duration-200 shadow-md">
+                                <StopIcon className="w-5 h-5" /><span>Stop</span>
+                            </button>
+                        )}
                         <button onClick={handleSubmit} disabled={isLoading} className="flex items-center justify-center space-x-2 w-full sm:w-auto px-6 py-3 bg-brand-primary text-white font-semibold rounded-lg hover:bg-sky-600 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200 shadow-md">
                             {isLoading ? (<><div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div><span>Processing...</span></>) : (<>{submitButtonTextAndIcon.icon}<span>{submitButtonTextAndIcon.text}</span></>)}
                         </button>
@@ -901,13 +8956,243 @@ const CodeAssistant: React.FC<{ theme: Theme }> = ({ theme }) => {
             </div>
             <div className="mt-8 lg:mt-0">
                  <div className="bg-white/80 dark:bg-dark-surface/50 backdrop-blur-sm p-4 rounded-xl shadow-lg h-full min-h-[20rem] lg:min-h-0 flex flex-col sticky top-20">
-                    <h2 className="text-lg font-semibold mb-4 text-gray-600 dark:text-dark-text-secondary flex-shrink-0">AI Response</h2>
+                    <div className="flex items-center justify-between mb-4 flex-shrink-0">
+                        <h2 className="text-lg font-semibold text-gray-600 dark:text-dark-text-secondary">AI Response</h2>
+                        {isLoading && lastTurn?.response && <span className="text-xs text-brand-primary animate-pulse">Streaming...</span>}
+                        {responseNotice && <span className="ml-auto mr-2 text-xs text-gray-500 dark:text-dark-text-secondary" role="status">{responseNotice}</span>}
+                        {!isLoading && sessionExport && (
+                            <div className="flex items-center gap-2">
+                                <ShareMenu onShare={handleShare} fitsInUrl={canShareInUrl} />
+                                <ExportMenu onExport={handleExport} files={exportFiles} />
+                            </div>
+                        )}
+                    </div>
                     <div className="flex-grow overflow-y-auto">
-                        {isLoading ? ( <div className="flex items-center justify-center h-full"><LoadingSpinner /></div>) 
-                        : response ? ( <MarkdownResponse content={response} originalCode={originalCodeForDiff} language={language} theme={theme}/>) 
-                        : (<div className="flex items-center justify-center h-full text-center text-gray-500 dark:text-dark-text-secondary"><p>Your AI-generated response will appear here.</p></div>)}
+                        {turns.length > 0 ? (
+                            <>
+                                {(threads[mode]?.summarizedTurns ?? 0) > 0 && (
+                                    <p className="mb-2 text-xs text-center text-gray-500 dark:text-dark-text-secondary">Earlier turns were summarized to fit the model's context window.</p>
+                                )}
+                                {turns.map((turn, index) => (
+                                    <div key={turn.id}>
+                                        {turn.displayPrompt && (
+                                            <div className="ml-auto my-4 max-w-[85%] w-fit p-3 rounded-lg bg-brand-primary/10 dark:bg-brand-primary/20 text-sm whitespace-pre-wrap">{turn.displayPrompt}</div>
+                                        )}
+                                        {turn.response && mode === 'REVIEW' && index === 0 ? (
+                                            reviewResult === null ? (
+                                                <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>
+                                            ) : 'report' in reviewResult ? (
+                                                <ReviewFindingsPanel
+                                                    report={reviewResult.report}
+                                                    appliedFindings={appliedFindings}
+                                                    onApplyFix={finding => handleFindingAction(finding, 'fix')}
+                                                    onReveal={finding => handleFindingAction(finding, 'reveal')}
+                                                />
+                                            ) : (
+                                                <>
+                                                    <div className="p-3 mb-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">{reviewResult.error}</div>
+                                                    <MarkdownResponse content={turn.response} originalCode="" language={language} theme={theme} />
+                                                </>
+                                            )
+                                        ) : turn.response && mode === 'EXPLAIN' && index === 0 ? (
+                                            explanationResult === null ? (
+                                                <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>
+                                            ) : 'explanation' in explanationResult ? (
+                                                <ExplanationPanel
+                                                    explanation={explanationResult.explanation}
+                                                    language={language}
+                                                    theme={theme}
+                                                    linkedRange={linkedRange}
+                                                    canLink={canLinkExplanation}
+                                                    onHoverRange={setHoveredRange}
+                                                    onSelectRange={handleSelectRange}
+                                                />
+                                            ) : (
+                                                <>
+                                                    <div className="p-3 mb-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">{explanationResult.error}</div>
+                                                    <MarkdownResponse content={turn.response} originalCode="" language={language} theme={theme} />
+                                                </>
+                                            )
+                                        ) : turn.response && mode === 'TRANSLATE' && index === 0 ? (
+                                            translationResult === null ? (
+                                                <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>
+                                            ) : 'translation' in translationResult ? (
+                                                <TranslationView
+                                                    translation={translationResult.translation}
+                                                    sourceCode={turn.code}
+                                                    theme={theme}
+                                                    testResults={canRunTests(translationResult.translation.targetLanguage) && (
+                                                        <TestResultsPanel
+                                                            run={testRuns[turn.id]}
+                                                            onRun={() => handleRunTranslatedTests(turn, translationResult.translation)}
+                                                            onStop={handleStopTests}
+                                                        />
+                                                    )}
+                                                />
+                                            ) : (
+                                                <>
+                                                    <div className="p-3 mb-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">{translationResult.error}</div>
+                                                    <MarkdownResponse content={turn.response} originalCode="" language={language} theme={theme} />
+                                                </>
+                                            )
+                                        ) : mode === 'SECURITY_AUDIT' && index === 0 && (turn.response || preScanReport) ? (
+                                            securityResult !== null && 'report' in securityResult ? (
+                                                <SecurityFindingsPanel
+                                                    report={securityResult.report}
+                                                    reviewFindings={securityResult.reviewFindings}
+                                                    code={turn.code}
+                                                    language={language}
+                                                    theme={theme}
+                                                    appliedFindings={appliedFindings}
+                                                    onApplyPatch={finding => handleFindingAction(finding, 'fix')}
+                                                    onReveal={finding => handleFindingAction(finding, 'reveal')}
+                                                />
+                                            ) : securityResult !== null ? (
+                                                <>
+                                                    <div className="p-3 mb-2 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">{securityResult.error}</div>
+                                                    <MarkdownResponse content={turn.response} originalCode="" language={language} theme={theme} />
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <SecurityFindingsPanel report={preScanReport!} code={turn.code} language={language} theme={theme} appliedFindings={appliedFindings} onApplyPatch={() => {}} onReveal={() => {}} />
+                                                    <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>
+                                                </>
+                                            )
+                                        ) : turn.response ? (
+                                            <MarkdownResponse
+                                                content={turn.response}
+                                                originalCode={turn.originalCode}
+                                                language={language}
+                                                theme={theme}
+                                                onApply={turn.originalCode && !(isLoading && index === turns.length - 1) ? edits => handleApplyEdits(mode, turn.id, turn.originalCode, edits) : undefined}
+                                                canApplyHunks={code === turn.originalCode}
+                                            />
+                                        ) : isLoading && index === turns.length - 1 && (
+                                            <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>
+                                        )}
+                                        {mode === 'GENERATE_TESTS' && canRunTests(language) && !(isLoading && index === turns.length - 1) && extractFirstCodeBlock(turn.response) && (
+                                            <TestResultsPanel
+                                                run={testRuns[turn.id]}
+                                                onRun={() => handleRunTests(turn)}
+                                                onStop={handleStopTests}
+                                                onFixFailing={!isLoading && testRuns[turn.id]?.result ? () => handleFixFailingTests(testRuns[turn.id].result!) : undefined}
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+                            </>
+                        ) : (<div className="flex items-center justify-center h-full text-center text-gray-500 dark:text-dark-text-secondary"><p>Your AI-generated response will appear here.</p></div>)}
+                    </div>
+                    {turns.length > 0 && (
+                        <form onSubmit={handleFollowUp} className="flex gap-2 pt-4 flex-shrink-0 border-t border-gray-200 dark:border-dark-border mt-4">
+                            <textarea
+                                value={followUp}
+                                onChange={(e) => setFollowUp(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleFollowUp(); } }}
+                                placeholder='Ask a follow-up, e.g. "now also handle the null case"...'
+                                rows={2}
+                                className="flex-grow p-3 bg-white dark:bg-dark-bg border border-gray-300 dark:border-dark-border rounded-lg focus:ring-2 focus:ring-brand-primary focus:outline-none resize-none text-sm"
+                            />
+                            <button type="submit" disabled={isLoading || !followUp.trim()} className="px-4 py-2 bg-brand-primary text-white text-sm font-semibold rounded-lg hover:bg-sky-600 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200">
+                                Send
+                            </button>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+        {isHistoryOpen && (
+            <HistorySidebar
+                entries={historyEntries}
+                onRestore={handleRestoreHistory}
+                onDelete={handleDeleteHistory}
+                onTogglePin={handleTogglePin}
+                onClose={() => setIsHistoryOpen(false)}
+                modeLabels={modeLabels}
+            />
+        )}
+        {isModeEditorOpen && (
+            <ModeEditor definitions={modeDefinitions} onChange={setModeDefinitions} onClose={() => setIsModeEditorOpen(false)} initialModeId={mode} />
+        )}
+        {isPaletteOpen && <CommandPalette commands={buildPaletteCommands()} onClose={() => setIsPaletteOpen(false)} />}
+        {isShortcutsHelpOpen && (
+            <ShortcutsHelp
+                definitions={shortcutDefinitions}
+                bindings={shortcutBindings}
+                onRebind={handleRebindShortcut}
+                onReset={() => setShortcutOverrides({})}
+                onClose={() => setIsShortcutsHelpOpen(false)}
+            />
+        )}
+        </div>
+    );
+};
+
+// --- BUNDLED: components/SharedSessionView.tsx ---
+/** A session opened from a share link: read-only, with the code as it was sent and every answer. */
+const SharedSessionView: React.FC<{
+    /** Null while the link is loading or when it could not be opened. */
+    shared: SharedSession | null;
+    error: string | null;
+    theme: Theme;
+    isSignedIn: boolean;
+    onFork: (session: SessionExport) => void;
+    onClose: () => void;
+}> = ({ shared, error, theme, isSignedIn, onFork, onClose }) => {
+    const session = shared?.session;
+
+    return (
+        <div role="dialog" aria-modal="true" aria-label="Shared session" className="fixed inset-0 z-[60] overflow-y-auto bg-gray-100 dark:bg-dark-bg"><div className="container mx-auto p-4 max-w-4xl">
+            <div className="bg-white/80 dark:bg-dark-surface/50 backdrop-blur-sm p-4 rounded-xl shadow-lg">
+                <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-dark-text-primary">Shared session</h2>
+                        {session && (
+                            <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+                                {session.modeLabel} · {session.language} · <code>{session.path}</code> · {session.model} · {new Date(session.timestamp).toLocaleString()}
+                            </p>
+                        )}
+                        {shared?.expiresAt && (
+                            <p className="text-xs text-gray-500 dark:text-dark-text-secondary">This link expires on {new Date(shared.expiresAt).toLocaleString()}.</p>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {session && (
+                            <button onClick={() => onFork(session)} className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary rounded-lg hover:bg-sky-600 transition-colors duration-200">
+                                {isSignedIn ? 'Fork into my workspace' : 'Sign in to fork'}
+                            </button>
+                        )}
+                        <button onClick={onClose} className="p-2 text-gray-500 dark:text-dark-text-secondary hover:text-gray-900 dark:hover:text-white" aria-label="Close shared session">
+                            <XIcon className="w-5 h-5" />
+                        </button>
                     </div>
                 </div>
+                {error ? (
+                    <div className="p-3 text-sm text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/60 rounded-md" role="alert">{error}</div>
+                ) : !session ? (
+                    <div className="flex items-center justify-center py-8"><LoadingSpinner /></div>
+                ) : (
+                    <div className="space-y-4">
+                        {session.prompt && (
+                            <div className="p-3 rounded-lg bg-gray-100 dark:bg-dark-bg text-sm whitespace-pre-wrap">{session.prompt}</div>
+                        )}
+                        {session.turns[0].code && (
+                            <div className="h-64">
+                                <CodeEditor value={session.turns[0].code} language={session.language} theme={theme} readOnly />
+                            </div>
+                        )}
+                        <div>
+                            {session.turns.map((turn, index) => (
+                                <div key={turn.id}>
+                                    {turn.displayPrompt && (
+                                        <div className="ml-auto my-4 max-w-[85%] w-fit p-3 rounded-lg bg-brand-primary/10 dark:bg-brand-primary/20 text-sm whitespace-pre-wrap">{turn.displayPrompt}</div>
+                                    )}
+                                    <MarkdownResponse content={formatTurnResponse(session, turn, index)} originalCode={turn.originalCode} language={session.language} theme={theme} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
         </div></div>
     );
@@ -915,8 +9200,34 @@ const CodeAssistant: React.FC<{ theme: Theme }> = ({ theme }) => {
 
 // --- BUNDLED: App.tsx ---
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState<boolean>(true);
+  const [resetToken] = useState<string | null>(() => new URLSearchParams(window.location.search).get('resetToken'));
   const [theme, setTheme] = useState<Theme>('dark');
+  // Settings saved before keys were encrypted may still hold a plain `apiKey`; it is moved into the vault on the next save.
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => {
+    try {
+      const saved = localStorage.getItem('providerSettings');
+      if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+      const settings: ProviderSettings = { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) };
+      // A provider this version doesn't know would leave no provider to send requests to; its model goes with it.
+      return Object.hasOwn(PROVIDER_OPTIONS, settings.providerId)
+        ? settings
+        : { ...settings, providerId: DEFAULT_PROVIDER_SETTINGS.providerId, model: DEFAULT_PROVIDER_SETTINGS.model };
+    } catch (e) {
+      console.error("Could not load provider settings:", e);
+      return DEFAULT_PROVIDER_SETTINGS;
+    }
+  });
+  const [areSecretsLoaded, setAreSecretsLoaded] = useState<boolean>(false);
+  // Undefined until the first check; null when the server could not be reached.
+  const [proxyConfigured, setProxyConfigured] = useState<boolean | null | undefined>(undefined);
+  const [isCheckingProxy, setIsCheckingProxy] = useState<boolean>(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  // A session opened from a share link is shown over the app, signed in or not, until it is closed or forked.
+  const [sharedLink, setSharedLink] = useState<{ shared: SharedSession | null; error: string | null } | null>(null);
+  const [forkedSession, setForkedSession] = useState<SessionExport | null>(null);
 
   useEffect(() => {
     const savedTheme = localStorage.getItem('theme') as Theme | null;
@@ -934,25 +9245,147 @@ const App: React.FC = () => {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  useEffect(() => {
+    loadProviderSecrets()
+      .then(secrets => setProviderSettings(prev => ({
+        ...prev,
+        apiKey: secrets.apiKey || prev.apiKey,
+        geminiApiKey: secrets.geminiApiKey || prev.geminiApiKey,
+      })))
+      .finally(() => setAreSecretsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    configureProvider(providerSettings);
+    const { apiKey, geminiApiKey, ...settings } = providerSettings;
+    localStorage.setItem('providerSettings', JSON.stringify(settings));
+    // Until the stored keys are loaded, saving would overwrite them with the empty defaults.
+    if (areSecretsLoaded) {
+      saveProviderSecrets({ apiKey, geminiApiKey }).catch(e => console.error("Could not save the API keys:", e));
+    }
+  }, [providerSettings, areSecretsLoaded]);
+
+  const checkProxy = useCallback(async () => {
+    setIsCheckingProxy(true);
+    setProxyConfigured(await fetchGeminiProxyStatus());
+    setIsCheckingProxy(false);
+  }, []);
+
+  useEffect(() => {
+    if (user) checkProxy();
+  }, [user, checkProxy]);
+
+  const needsKeySetup = areSecretsLoaded && providerSettings.providerId === 'gemini' && (
+    // An unreachable server can't proxy requests either, so it counts as not configured.
+    providerSettings.geminiKeySource === 'own-key' ? !providerSettings.geminiApiKey : proxyConfigured === false || proxyConfigured === null
+  );
+
+  useEffect(() => {
+    fetchCurrentUser().then(setUser).finally(() => setIsRestoringSession(false));
+  }, []);
+
+  useEffect(() => {
+    const openLink = () => {
+      if (!/^#(session|share)=/.test(window.location.hash)) return;
+      setSharedLink({ shared: null, error: null });
+      openShareLink(window.location.hash)
+        .then(shared => setSharedLink({ shared, error: null }))
+        .catch(e => setSharedLink({ shared: null, error: e.message }));
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+  }, []);
+
+  const closeSharedLink = useCallback(() => {
+    setSharedLink(null);
+    // Drop the link from the address bar so a reload opens the app.
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  // Signed-out users fork after signing in; the session waits until the assistant opens.
+  const handleFork = useCallback((session: SessionExport) => {
+    setForkedSession(session);
+    closeSharedLink();
+  }, [closeSharedLink]);
+
+  const clearForkedSession = useCallback(() => setForkedSession(null), []);
+
   const toggleTheme = useCallback(() => {
     setTheme(prevTheme => prevTheme === 'light' ? 'dark' : 'light');
   }, []);
 
-  const handleLogin = useCallback(() => setIsAuthenticated(true), []);
-  const handleSignup = useCallback(() => setIsAuthenticated(true), []);
-  const handleLogout = useCallback(() => setIsAuthenticated(false), []);
+  const handleLogin = useCallback(async (email: string, password: string) => setUser(await login(email, password)), []);
+  const handleSignup = useCallback(async (email: string, password: string) => setUser(await signup(email, password)), []);
+  const handleResetPassword = useCallback(async (token: string, password: string) => {
+    setUser(await resetPassword(token, password));
+    // Drop the single-use token from the address bar.
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+  const handleLogout = useCallback(async () => {
+    try {
+      await logout();
+    } catch (e) {
+      // Signed out here either way; the server session expires on its own.
+      console.error("Could not end the session on the server:", e);
+    }
+    setUser(null);
+  }, []);
 
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-dark-bg text-gray-800 dark:text-dark-text-primary font-sans">
-      {isAuthenticated ? (
+      {isRestoringSession ? (
+        <div className="flex items-center justify-center min-h-screen text-gray-500 dark:text-dark-text-secondary">
+          Restoring your session...
+        </div>
+      ) : user ? (
         <>
-          <Header onLogout={handleLogout} theme={theme} toggleTheme={toggleTheme} />
+          <Header userEmail={user.email} onLogout={handleLogout} theme={theme} toggleTheme={toggleTheme} onOpenSettings={() => setIsSettingsOpen(true)} onOpenUsage={() => setIsUsageOpen(true)} />
           <main>
-            <CodeAssistant theme={theme} />
+            {needsKeySetup ? (
+              <KeySetup
+                proxyConfigured={proxyConfigured ?? null}
+                isCheckingProxy={isCheckingProxy}
+                onCheckProxy={checkProxy}
+                onUseProxy={() => setProviderSettings(prev => ({ ...prev, geminiKeySource: 'proxy' }))}
+                onSaveKey={geminiApiKey => setProviderSettings(prev => ({ ...prev, geminiKeySource: 'own-key', geminiApiKey }))}
+                onChooseProvider={() => setIsSettingsOpen(true)}
+              />
+            ) : (
+              <CodeAssistant
+                theme={theme}
+                providerSettings={providerSettings}
+                onOpenSettings={() => setIsSettingsOpen(true)}
+                onOpenUsage={() => setIsUsageOpen(true)}
+                onToggleTheme={toggleTheme}
+                forkedSession={forkedSession}
+                onForkOpened={clearForkedSession}
+              />
+            )}
           </main>
+          {isSettingsOpen && (
+            <SettingsPanel settings={providerSettings} onSave={setProviderSettings} onClose={() => setIsSettingsOpen(false)} />
+          )}
+          {isUsageOpen && <UsageDashboard onClose={() => setIsUsageOpen(false)} />}
         </>
       ) : (
-        <Auth onLogin={handleLogin} onSignup={handleSignup} />
+        <Auth
+          onLogin={handleLogin}
+          onSignup={handleSignup}
+          onRequestPasswordReset={requestPasswordReset}
+          onResetPassword={handleResetPassword}
+          resetToken={resetToken}
+        />
+      )}
+      {sharedLink && (
+        <SharedSessionView
+          shared={sharedLink.shared}
+          error={sharedLink.error}
+          theme={theme}
+          isSignedIn={!!user}
+          onFork={handleFork}
+          onClose={closeSharedLink}
+        />
       )}
     </div>
   );
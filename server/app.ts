@@ -0,0 +1,78 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import path from 'node:path';
+import { createAuthHandlers } from './auth.ts';
+import { HttpError, sendJson } from './http.ts';
+import { createModelProxyHandlers } from './modelProxy.ts';
+import { createShareHandlers } from './shares.ts';
+import { createJsonStore } from './store.ts';
+
+export interface AppConfig {
+  /** Holds db.json and the shared sessions. */
+  dataDir: string;
+  /** Origin of the web app; https origins get Secure cookies. */
+  appOrigin: string;
+  geminiApiKey?: string;
+  authAttemptsPerWindow: number;
+  /** Proxies trusted to name the client in X-Forwarded-For; defaults to loopback, where the Vite dev server connects from. */
+  trustedProxies?: string[];
+  generateRequestsPerMinute: number;
+  countRequestsPerMinute: number;
+  shareMaxDays: number;
+  shareRequestsPerHour: number;
+}
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+/** The API server with all routes, not yet listening. */
+export const createAppServer = async (config: AppConfig): Promise<Server> => {
+  const store = await createJsonStore(config.dataDir);
+  const auth = createAuthHandlers(store, {
+    appOrigin: config.appOrigin,
+    secureCookies: config.appOrigin.startsWith('https:'),
+    attemptsPerWindow: config.authAttemptsPerWindow,
+    trustedProxies: config.trustedProxies ?? LOOPBACK_ADDRESSES,
+  });
+  const modelProxy = createModelProxyHandlers(auth.getSessionUser, {
+    geminiApiKey: config.geminiApiKey,
+    generateRequestsPerMinute: config.generateRequestsPerMinute,
+    countRequestsPerMinute: config.countRequestsPerMinute,
+  });
+  const shares = createShareHandlers(store, auth.getSessionUser, {
+    dir: path.join(config.dataDir, 'shares'),
+    maxDays: config.shareMaxDays,
+    createRequestsPerHour: config.shareRequestsPerHour,
+  });
+
+  const routes: Record<string, Handler> = {
+    'POST /api/auth/signup': auth.signup,
+    'POST /api/auth/login': auth.login,
+    'POST /api/auth/logout': auth.logout,
+    'GET /api/auth/session': auth.session,
+    'POST /api/auth/password-reset/request': auth.requestPasswordReset,
+    'POST /api/auth/password-reset/confirm': auth.resetPassword,
+    'GET /api/model/status': modelProxy.status,
+    'POST /api/model/gemini/stream': modelProxy.streamGemini,
+    'POST /api/model/gemini/count-tokens': modelProxy.countGeminiTokens,
+    'POST /api/shares': shares.create,
+    'GET /api/shares': shares.get,
+    'GET /api/shares/limits': shares.limits,
+  };
+
+  return createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const handler = routes[`${req.method} ${pathname}`];
+    try {
+      if (!handler) throw new HttpError(404, 'Not found.');
+      await handler(req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message }, error.headers);
+      } else {
+        console.error(`[server] ${req.method} ${pathname} failed:`, error);
+        sendJson(res, 500, { error: 'Internal server error.' });
+      }
+    }
+  });
+};
@@ -0,0 +1,222 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAppServer, type AppConfig } from './app.ts';
+
+let server: Server;
+let dataDir: string;
+let baseUrl: string;
+
+const startServer = async (overrides: Partial<AppConfig> = {}) => {
+  dataDir = await mkdtemp(path.join(tmpdir(), 'auth-test-'));
+  server = await createAppServer({
+    dataDir,
+    appOrigin: 'http://localhost:3000',
+    authAttemptsPerWindow: 100,
+    generateRequestsPerMinute: 20,
+    countRequestsPerMinute: 120,
+    shareMaxDays: 30,
+    shareRequestsPerHour: 30,
+    ...overrides,
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const stopServer = async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(dataDir, { recursive: true, force: true });
+};
+
+const request = (method: string, route: string, options: { body?: unknown; cookie?: string; forwardedFor?: string } = {}) => fetch(baseUrl + route, {
+  method,
+  headers: {
+    ...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    ...(options.cookie ? { Cookie: options.cookie } : {}),
+    ...(options.forwardedFor ? { 'X-Forwarded-For': options.forwardedFor } : {}),
+  },
+  body: options.body === undefined ? undefined : JSON.stringify(options.body),
+});
+
+/** The `name=value` part of the response's Set-Cookie header, ready to send back. */
+const sessionCookie = (response: Response): string => response.headers.get('set-cookie')!.split(';')[0];
+
+const signup = async (email = 'ada@example.com', password = 'correct horse') => {
+  const response = await request('POST', '/api/auth/signup', { body: { email, password } });
+  expect(response.status).toBe(201);
+  return sessionCookie(response);
+};
+
+/** Requests a reset link for `email` and returns its token, read from the server's log like an operator would. */
+const requestResetToken = async (email: string): Promise<string | null> => {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  try {
+    const response = await request('POST', '/api/auth/password-reset/request', { body: { email } });
+    expect(response.status).toBe(202);
+    const line = log.mock.calls.map(call => String(call[0])).find(message => message.includes('resetToken='));
+    return line ? line.slice(line.indexOf('resetToken=') + 'resetToken='.length) : null;
+  } finally {
+    log.mockRestore();
+  }
+};
+
+describe('auth', () => {
+  beforeEach(() => startServer());
+  afterEach(stopServer);
+
+  describe('signup', () => {
+    it('creates the account and signs it in', async () => {
+      const response = await request('POST', '/api/auth/signup', { body: { email: ' Ada@Example.com ', password: 'correct horse' } });
+      expect(response.status).toBe(201);
+      expect((await response.json()).user.email).toBe('ada@example.com');
+      expect(response.headers.get('set-cookie')).toMatch(/HttpOnly/);
+
+      const session = await request('GET', '/api/auth/session', { cookie: sessionCookie(response) });
+      expect(session.status).toBe(200);
+      expect((await session.json()).user.email).toBe('ada@example.com');
+    });
+
+    it('rejects an email that is already registered', async () => {
+      await signup();
+      const response = await request('POST', '/api/auth/signup', { body: { email: 'ADA@example.com', password: 'another one' } });
+      expect(response.status).toBe(409);
+    });
+
+    it('creates only one account when two signups race for the same email', async () => {
+      const body = { email: 'ada@example.com', password: 'correct horse' };
+      const statuses = (await Promise.all([request('POST', '/api/auth/signup', { body }), request('POST', '/api/auth/signup', { body })]))
+        .map(response => response.status)
+        .sort();
+      expect(statuses).toEqual([201, 409]);
+    });
+
+    it('validates the email and password', async () => {
+      expect((await request('POST', '/api/auth/signup', { body: { email: 'not an email', password: 'correct horse' } })).status).toBe(400);
+      expect((await request('POST', '/api/auth/signup', { body: { email: 'ada@example.com', password: 'short' } })).status).toBe(400);
+      expect((await request('POST', '/api/auth/signup', { body: { email: 'ada@example.com' } })).status).toBe(400);
+    });
+  });
+
+  describe('login', () => {
+    it('signs in with the right password', async () => {
+      await signup();
+      const response = await request('POST', '/api/auth/login', { body: { email: 'ada@example.com', password: 'correct horse' } });
+      expect(response.status).toBe(200);
+      expect((await request('GET', '/api/auth/session', { cookie: sessionCookie(response) })).status).toBe(200);
+    });
+
+    it('answers a wrong password and an unknown email with the same 401', async () => {
+      await signup();
+      const wrongPassword = await request('POST', '/api/auth/login', { body: { email: 'ada@example.com', password: 'wrong horse' } });
+      const unknownEmail = await request('POST', '/api/auth/login', { body: { email: 'bob@example.com', password: 'correct horse' } });
+      expect(wrongPassword.status).toBe(401);
+      expect(unknownEmail.status).toBe(401);
+      expect(await wrongPassword.json()).toEqual(await unknownEmail.json());
+    });
+  });
+
+  describe('logout', () => {
+    it('ends the session on the server and clears the cookie', async () => {
+      const cookie = await signup();
+      const response = await request('POST', '/api/auth/logout', { cookie });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('set-cookie')).toMatch(/Max-Age=0/);
+      expect((await request('GET', '/api/auth/session', { cookie })).status).toBe(401);
+    });
+  });
+
+  describe('password reset', () => {
+    it('sets a new password with a single-use link and signs out other sessions', async () => {
+      const oldCookie = await signup();
+      const token = await requestResetToken('ada@example.com');
+      expect(token).toBeTruthy();
+
+      const response = await request('POST', '/api/auth/password-reset/confirm', { body: { token, password: 'battery staple' } });
+      expect(response.status).toBe(200);
+      expect((await request('GET', '/api/auth/session', { cookie: sessionCookie(response) })).status).toBe(200);
+      expect((await request('GET', '/api/auth/session', { cookie: oldCookie })).status).toBe(401);
+
+      expect((await request('POST', '/api/auth/login', { body: { email: 'ada@example.com', password: 'correct horse' } })).status).toBe(401);
+      expect((await request('POST', '/api/auth/login', { body: { email: 'ada@example.com', password: 'battery staple' } })).status).toBe(200);
+      expect((await request('POST', '/api/auth/password-reset/confirm', { body: { token, password: 'another one' } })).status).toBe(400);
+    });
+
+    it('answers the same for unknown emails without creating a link', async () => {
+      expect(await requestResetToken('nobody@example.com')).toBeNull();
+    });
+
+    it('rejects an unknown token', async () => {
+      const response = await request('POST', '/api/auth/password-reset/confirm', { body: { token: 'made-up', password: 'battery staple' } });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('unauthenticated requests', () => {
+    it('get a 401 without a session cookie', async () => {
+      expect((await request('GET', '/api/auth/session')).status).toBe(401);
+      expect((await request('POST', '/api/model/gemini/stream', { body: {} })).status).toBe(401);
+      expect((await request('POST', '/api/shares', { body: {} })).status).toBe(401);
+    });
+
+    it('get a 401 with an unknown or malformed session cookie', async () => {
+      expect((await request('GET', '/api/auth/session', { cookie: 'cap_session=forged' })).status).toBe(401);
+      expect((await request('GET', '/api/auth/session', { cookie: 'other=%E0; cap_session=%E0' })).status).toBe(401);
+    });
+  });
+});
+
+describe('auth rate limit', () => {
+  beforeEach(() => startServer({ authAttemptsPerWindow: 2 }));
+  afterEach(stopServer);
+
+  it('refuses further login attempts with a 429 and Retry-After', async () => {
+    const body = { email: 'ada@example.com', password: 'wrong horse' };
+    expect((await request('POST', '/api/auth/login', { body })).status).toBe(401);
+    expect((await request('POST', '/api/auth/login', { body })).status).toBe(401);
+    const limited = await request('POST', '/api/auth/login', { body });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('does not count successful logins', async () => {
+    await signup();
+    const body = { email: 'ada@example.com', password: 'correct horse' };
+    for (let i = 0; i < 3; i++) {
+      expect((await request('POST', '/api/auth/login', { body })).status).toBe(200);
+    }
+  });
+
+  it('limits each client and email on its own', async () => {
+    await signup();
+    const wrong = { email: 'ada@example.com', password: 'wrong horse' };
+    for (let i = 0; i < 2; i++) await request('POST', '/api/auth/login', { body: wrong, forwardedFor: '203.0.113.7' });
+    expect((await request('POST', '/api/auth/login', { body: wrong, forwardedFor: '203.0.113.7' })).status).toBe(429);
+
+    const other = { email: 'bob@example.com', password: 'wrong horse' };
+    expect((await request('POST', '/api/auth/login', { body: other, forwardedFor: '203.0.113.7' })).status).toBe(401);
+    const right = { email: 'ada@example.com', password: 'correct horse' };
+    expect((await request('POST', '/api/auth/login', { body: right, forwardedFor: '198.51.100.2' })).status).toBe(200);
+  });
+
+  it('uses the address the trusted proxy appended, not one the client sent', async () => {
+    const body = { email: 'ada@example.com', password: 'wrong horse' };
+    expect((await request('POST', '/api/auth/login', { body, forwardedFor: '198.51.100.1, 203.0.113.7' })).status).toBe(401);
+    expect((await request('POST', '/api/auth/login', { body, forwardedFor: '198.51.100.2, 203.0.113.7' })).status).toBe(401);
+    expect((await request('POST', '/api/auth/login', { body, forwardedFor: '198.51.100.3, 203.0.113.7' })).status).toBe(429);
+  });
+});
+
+describe('auth behind an untrusted proxy', () => {
+  beforeEach(() => startServer({ authAttemptsPerWindow: 2, trustedProxies: [] }));
+  afterEach(stopServer);
+
+  it('ignores X-Forwarded-For', async () => {
+    const body = { email: 'ada@example.com', password: 'wrong horse' };
+    expect((await request('POST', '/api/auth/login', { body, forwardedFor: '198.51.100.1' })).status).toBe(401);
+    expect((await request('POST', '/api/auth/login', { body, forwardedFor: '198.51.100.2' })).status).toBe(401);
+    expect((await request('POST', '/api/auth/login', { body, forwardedFor: '198.51.100.3' })).status).toBe(429);
+  });
+});
@@ -0,0 +1,184 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { promisify } from 'node:util';
+import { HttpError, parseCookies, readJsonBody, requireString, sendJson, serializeCookie } from './http.ts';
+import { createRateLimiter } from './rateLimit.ts';
+import type { JsonStore, UserRecord } from './store.ts';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'cap_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 6;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface AuthConfig {
+  /** Origin of the web app, used to build password reset links. */
+  appOrigin: string;
+  secureCookies: boolean;
+  /** Failed logins, password reset requests and invalid reset links allowed per client address and email within 15 minutes. */
+  attemptsPerWindow: number;
+  /** Addresses of proxies whose X-Forwarded-For header names the client, like the Vite dev server's. */
+  trustedProxies: readonly string[];
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+// Compared against when the email is unknown so failed logins take the same time either way.
+const DUMMY_PASSWORD_HASH = await hashPassword(randomUUID());
+
+const validateCredentials = (email: string, password: string) => {
+  if (!EMAIL_PATTERN.test(email)) throw new HttpError(400, 'Please enter a valid email address.');
+  if (password.length < MIN_PASSWORD_LENGTH) throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+};
+
+const publicUser = (user: UserRecord) => ({ id: user.id, email: user.email });
+
+export const createAuthHandlers = (store: JsonStore, config: AuthConfig) => {
+  const attempts = createRateLimiter({ limit: config.attemptsPerWindow, windowMs: ATTEMPT_WINDOW_MS });
+
+  /** The client's address; behind a trusted proxy, the one it appended to X-Forwarded-For, since clients can forge the rest. */
+  const clientAddress = (req: IncomingMessage): string => {
+    const remoteAddress = req.socket.remoteAddress ?? 'unknown';
+    const forwardedFor = req.headers['x-forwarded-for'];
+    if (!forwardedFor || !config.trustedProxies.includes(remoteAddress)) return remoteAddress;
+    const forwarded = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor).split(',').map(address => address.trim());
+    return forwarded[forwarded.length - 1] || remoteAddress;
+  };
+
+  // Keyed on both, so a client guessing at one account neither locks out other clients of it nor other accounts behind the same address.
+  const attemptKey = (req: IncomingMessage, action: string, email = '') => `${action}:${clientAddress(req)}:${email}`;
+
+  const startSession = async (res: ServerResponse, user: UserRecord, status: number) => {
+    const token = randomBytes(32).toString('base64url');
+    await store.update(db => {
+      db.sessions = db.sessions.filter(session => session.expiresAt > Date.now());
+      db.sessions.push({ tokenHash: hashToken(token), userId: user.id, expiresAt: Date.now() + SESSION_TTL_MS });
+    });
+    sendJson(res, status, { user: publicUser(user) }, {
+      'Set-Cookie': serializeCookie(SESSION_COOKIE, token, { maxAgeSeconds: SESSION_TTL_MS / 1000, secure: config.secureCookies }),
+    });
+  };
+
+  /** The user owning the request's session cookie, or null when there is no valid session. */
+  const getSessionUser = (req: IncomingMessage): UserRecord | null => {
+    const token = parseCookies(req)[SESSION_COOKIE];
+    if (!token) return null;
+    const tokenHash = hashToken(token);
+    const { sessions, users } = store.read();
+    const session = sessions.find(s => s.tokenHash === tokenHash && s.expiresAt > Date.now());
+    return session ? users.find(user => user.id === session.userId) ?? null : null;
+  };
+
+  return {
+    getSessionUser,
+
+    async signup(req: IncomingMessage, res: ServerResponse) {
+      const body = await readJsonBody(req);
+      const email = requireString(body, 'email').trim().toLowerCase();
+      const password = requireString(body, 'password');
+      validateCredentials(email, password);
+      const emailTaken = (users: readonly UserRecord[]) => users.some(user => user.email === email);
+      if (emailTaken(store.read().users)) {
+        throw new HttpError(409, 'An account with this email already exists.');
+      }
+      const user: UserRecord = { id: randomUUID(), email, passwordHash: await hashPassword(password), createdAt: Date.now() };
+      // Checked again: another signup for the same email may have finished while the password was hashed.
+      await store.update(db => {
+        if (emailTaken(db.users)) throw new HttpError(409, 'An account with this email already exists.');
+        db.users.push(user);
+      });
+      await startSession(res, user, 201);
+    },
+
+    async login(req: IncomingMessage, res: ServerResponse) {
+      const body = await readJsonBody(req);
+      const email = requireString(body, 'email').trim().toLowerCase();
+      const password = requireString(body, 'password');
+      const key = attemptKey(req, 'login', email);
+      attempts.check(key);
+      const user = store.read().users.find(u => u.email === email);
+      const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+      if (!user || !valid) {
+        attempts.record(key);
+        throw new HttpError(401, 'Incorrect email or password.');
+      }
+      await startSession(res, user, 200);
+    },
+
+    async logout(req: IncomingMessage, res: ServerResponse) {
+      const token = parseCookies(req)[SESSION_COOKIE];
+      if (token) {
+        const tokenHash = hashToken(token);
+        await store.update(db => { db.sessions = db.sessions.filter(session => session.tokenHash !== tokenHash); });
+      }
+      sendJson(res, 200, { ok: true }, {
+        'Set-Cookie': serializeCookie(SESSION_COOKIE, '', { maxAgeSeconds: 0, secure: config.secureCookies }),
+      });
+    },
+
+    async session(req: IncomingMessage, res: ServerResponse) {
+      const user = getSessionUser(req);
+      if (!user) throw new HttpError(401, 'Not signed in.');
+      sendJson(res, 200, { user: publicUser(user) });
+    },
+
+    async requestPasswordReset(req: IncomingMessage, res: ServerResponse) {
+      const body = await readJsonBody(req);
+      const email = requireString(body, 'email').trim().toLowerCase();
+      attempts.consume(attemptKey(req, 'reset-request', email));
+      const user = store.read().users.find(u => u.email === email);
+      if (user) {
+        const token = randomBytes(32).toString('base64url');
+        await store.update(db => {
+          db.passwordResets = db.passwordResets.filter(reset => reset.userId !== user.id && reset.expiresAt > Date.now());
+          db.passwordResets.push({ tokenHash: hashToken(token), userId: user.id, expiresAt: Date.now() + PASSWORD_RESET_TTL_MS });
+        });
+        // There is no mail transport in the local service; the link is printed for the operator instead.
+        console.log(`[auth] Password reset link for ${email}: ${config.appOrigin}/?resetToken=${token}`);
+      }
+      // Same response whether or not the account exists, so this can't be used to discover emails.
+      sendJson(res, 202, { ok: true });
+    },
+
+    async resetPassword(req: IncomingMessage, res: ServerResponse) {
+      const body = await readJsonBody(req);
+      const tokenHash = hashToken(requireString(body, 'token'));
+      const password = requireString(body, 'password');
+      const key = attemptKey(req, 'reset');
+      attempts.check(key);
+      const reset = store.read().passwordResets.find(r => r.tokenHash === tokenHash && r.expiresAt > Date.now());
+      const user = reset && store.read().users.find(u => u.id === reset.userId);
+      if (!reset || !user) {
+        attempts.record(key);
+        throw new HttpError(400, 'This reset link is invalid or has expired.');
+      }
+      validateCredentials(user.email, password);
+      const passwordHash = await hashPassword(password);
+      await store.update(db => {
+        const record = db.users.find(u => u.id === user.id)!;
+        record.passwordHash = passwordHash;
+        db.passwordResets = db.passwordResets.filter(r => r.userId !== user.id);
+        // A password change signs the account out everywhere.
+        db.sessions = db.sessions.filter(session => session.userId !== user.id);
+      });
+      await startSession(res, user, 200);
+    },
+  };
+};
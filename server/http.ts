@@ -0,0 +1,58 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+export const readJsonBody = async <T = Record<string, unknown>>(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  if (size === 0) return {} as T;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string | string[]> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const parseCookies = (req: IncomingMessage): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index <= 0) continue;
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(value);
+    } catch {
+      // Malformed escapes (e.g. `%E0`) come from some other site's cookie; keep them as sent.
+      cookies[part.slice(0, index).trim()] = value;
+    }
+  }
+  return cookies;
+};
+
+export const serializeCookie = (name: string, value: string, options: { maxAgeSeconds: number; secure: boolean }): string => {
+  const parts = [`${name}=${encodeURIComponent(value)}`, 'Path=/', 'HttpOnly', 'SameSite=Lax', `Max-Age=${options.maxAgeSeconds}`];
+  if (options.secure) parts.push('Secure');
+  return parts.join('; ');
+};
+
+export const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `"${field}" is required.`);
+  return value;
+};
@@ -0,0 +1,40 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createAppServer } from './app.ts';
+
+// GEMINI_API_KEY is read from the app's .env.local; it stays on the server and never reaches the browser.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+// A mistyped number would otherwise become NaN, which turns a rate limit off instead of failing.
+const readPositiveInteger = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(`[server] ${name}="${raw}" is not a positive whole number; using ${fallback}.`);
+  return fallback;
+};
+
+const PORT = readPositiveInteger('SERVER_PORT', 8787);
+const DATA_DIR = process.env.DATA_DIR ?? path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+const APP_ORIGIN = process.env.APP_ORIGIN ?? 'http://localhost:3000';
+
+const server = await createAppServer({
+  dataDir: DATA_DIR,
+  appOrigin: APP_ORIGIN,
+  geminiApiKey: process.env.GEMINI_API_KEY || undefined,
+  authAttemptsPerWindow: readPositiveInteger('AUTH_RATE_LIMIT', 10),
+  trustedProxies: process.env.TRUSTED_PROXIES?.split(',').map(address => address.trim()).filter(Boolean),
+  generateRequestsPerMinute: readPositiveInteger('MODEL_RATE_LIMIT', 20),
+  countRequestsPerMinute: readPositiveInteger('COUNT_TOKENS_RATE_LIMIT', 120),
+  shareMaxDays: readPositiveInteger('SHARE_MAX_DAYS', 30),
+  shareRequestsPerHour: readPositiveInteger('SHARE_RATE_LIMIT', 30),
+});
+
+server.listen(PORT, () => {
+  console.log(`[server] Listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+  if (!process.env.GEMINI_API_KEY) {
+    console.log('[server] GEMINI_API_KEY is not set; the Gemini proxy refuses requests until it is set and the server restarted.');
+  }
+});
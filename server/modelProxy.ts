@@ -0,0 +1,132 @@
+import { ApiError, GoogleGenAI } from '@google/genai';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { HttpError, readJsonBody, sendJson } from './http.ts';
+import { createRateLimiter } from './rateLimit.ts';
+import type { UserRecord } from './store.ts';
+
+// Prompts can carry whole files; a million-token context is roughly 4 MB of text.
+const MAX_PROMPT_BYTES = 8 * 1024 * 1024;
+const MODEL_NAME_PATTERN = /^[\w.-]+$/;
+
+export interface ModelProxyConfig {
+  /** The key every proxied request is made with; without it the proxy refuses requests. */
+  geminiApiKey?: string;
+  /** Per signed-in user. Counting is cheaper and happens while typing, so it has its own limit. */
+  generateRequestsPerMinute: number;
+  countRequestsPerMinute: number;
+}
+
+interface GeminiRequest {
+  model: string;
+  contents: { role: 'user' | 'model'; parts: { text: string }[] }[];
+  config: { responseMimeType?: 'application/json'; responseJsonSchema?: Record<string, unknown> };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads one `{ role, parts: [{ text }] }` message; null when it has any other shape.
+const parseContent = (content: unknown): GeminiRequest['contents'][number] | null => {
+  if (!isRecord(content) || (content.role !== 'user' && content.role !== 'model') || !Array.isArray(content.parts)) return null;
+  const parts: { text: string }[] = [];
+  for (const part of content.parts) {
+    if (!isRecord(part) || typeof part.text !== 'string') return null;
+    parts.push({ text: part.text });
+  }
+  return { role: content.role, parts };
+};
+
+// Only the fields the app uses are forwarded, so the proxy can't be used to reach other Gemini features with our key.
+const parseGeminiRequest = (body: Record<string, unknown>): GeminiRequest => {
+  const { model, contents, config } = body;
+  if (typeof model !== 'string' || !MODEL_NAME_PATTERN.test(model)) throw new HttpError(400, '"model" must be a model name.');
+  const parsedContents = Array.isArray(contents) ? contents.map(parseContent) : [];
+  if (parsedContents.length === 0 || !parsedContents.every(content => content !== null)) {
+    throw new HttpError(400, '"contents" must be a list of text messages.');
+  }
+  const request: GeminiRequest = { model, contents: parsedContents, config: {} };
+  if (isRecord(config) && config.responseMimeType === 'application/json' && isRecord(config.responseJsonSchema)) {
+    request.config = { responseMimeType: 'application/json', responseJsonSchema: config.responseJsonSchema };
+  }
+  return request;
+};
+
+// Aborts the upstream request when the browser goes away, e.g. when the user presses Stop.
+const abortOnClose = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+const upstreamError = (error: unknown): HttpError => {
+  if (error instanceof ApiError) return new HttpError(error.status, error.message);
+  console.error('[model] Gemini request failed:', error);
+  return new HttpError(502, 'The request to Gemini failed.');
+};
+
+export const createModelProxyHandlers = (getSessionUser: (req: IncomingMessage) => UserRecord | null, config: ModelProxyConfig) => {
+  const client = config.geminiApiKey ? new GoogleGenAI({ apiKey: config.geminiApiKey }) : null;
+  const generateLimiter = createRateLimiter({ limit: config.generateRequestsPerMinute, windowMs: 60 * 1000 });
+  const countLimiter = createRateLimiter({ limit: config.countRequestsPerMinute, windowMs: 60 * 1000 });
+
+  const requireUser = (req: IncomingMessage): UserRecord => {
+    const user = getSessionUser(req);
+    if (!user) throw new HttpError(401, 'Not signed in.');
+    return user;
+  };
+
+  const authorize = (req: IncomingMessage, limiter: ReturnType<typeof createRateLimiter>): GoogleGenAI => {
+    const user = requireUser(req);
+    if (!client) throw new HttpError(401, 'API key missing: the server has no GEMINI_API_KEY configured.');
+    limiter.consume(user.id);
+    return client;
+  };
+
+  return {
+    async status(req: IncomingMessage, res: ServerResponse) {
+      requireUser(req);
+      sendJson(res, 200, { gemini: { configured: client !== null } });
+    },
+
+    /** Streams the answer as newline-delimited JSON chunks; a failure after the first chunk arrives as an `error` line. */
+    async streamGemini(req: IncomingMessage, res: ServerResponse) {
+      const gemini = authorize(req, generateLimiter);
+      const request = parseGeminiRequest(await readJsonBody(req, MAX_PROMPT_BYTES));
+      const signal = abortOnClose(res);
+      try {
+        // Errors up to here (bad key, quota) are still sent as a plain HTTP error with the upstream status.
+        const stream = await gemini.models.generateContentStream({ ...request, config: { ...request.config, abortSignal: signal } });
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+        for await (const chunk of stream) {
+          res.write(JSON.stringify({
+            text: chunk.text,
+            usageMetadata: chunk.usageMetadata,
+            promptFeedback: chunk.promptFeedback,
+            candidates: chunk.candidates?.map(candidate => ({ finishReason: candidate.finishReason })),
+          }) + '\n');
+        }
+        res.end();
+      } catch (error) {
+        if (signal.aborted) {
+          res.end();
+          return;
+        }
+        const { status, message } = upstreamError(error);
+        if (!res.headersSent) throw new HttpError(status, message);
+        res.end(JSON.stringify({ error: { status, message } }) + '\n');
+      }
+    },
+
+    async countGeminiTokens(req: IncomingMessage, res: ServerResponse) {
+      const gemini = authorize(req, countLimiter);
+      const { model, contents } = parseGeminiRequest(await readJsonBody(req, MAX_PROMPT_BYTES));
+      try {
+        const { totalTokens } = await gemini.models.countTokens({ model, contents, config: { abortSignal: abortOnClose(res) } });
+        sendJson(res, 200, { totalTokens });
+      } catch (error) {
+        throw upstreamError(error);
+      }
+    },
+  };
+};
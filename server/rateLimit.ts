@@ -0,0 +1,58 @@
+import { HttpError } from './http.ts';
+
+export interface RateLimitConfig {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * A sliding-window limiter kept in memory: each key may make `limit` requests within any `windowMs`.
+ * Like the JSON store, it assumes a single server process.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitConfig) => {
+  const requests = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  /** The key's requests within the window; keys with none left are dropped, at most once per window. */
+  const recentRequests = (key: string, now: number): number[] => {
+    if (now - lastSweep > windowMs) {
+      lastSweep = now;
+      for (const [other, times] of requests) {
+        if (times[times.length - 1] <= now - windowMs) requests.delete(other);
+      }
+    }
+    const recent = (requests.get(key) ?? []).filter(time => time > now - windowMs);
+    if (recent.length > 0) requests.set(key, recent);
+    else requests.delete(key);
+    return recent;
+  };
+
+  const limiter = {
+    /** Throws a 429 with a Retry-After header when `key` is over its limit, without counting a request. */
+    check(key: string) {
+      const now = Date.now();
+      const recent = recentRequests(key, now);
+      if (recent.length >= limit) {
+        const retryAfterSeconds = Math.ceil((recent[0] + windowMs - now) / 1000);
+        throw new HttpError(
+          429,
+          `Rate limit of ${limit} requests per ${windowMs / 1000} seconds reached. Try again in ${retryAfterSeconds}s.`,
+          { 'Retry-After': String(retryAfterSeconds) },
+        );
+      }
+    },
+
+    /** Counts a request by `key` without checking the limit. */
+    record(key: string) {
+      const now = Date.now();
+      requests.set(key, [...recentRequests(key, now), now]);
+    },
+
+    /** Counts a request by `key`, or throws a 429 with a Retry-After header when the key is over its limit. */
+    consume(key: string) {
+      limiter.check(key);
+      limiter.record(key);
+    },
+  };
+  return limiter;
+};
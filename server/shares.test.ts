@@ -0,0 +1,93 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAppServer } from './app.ts';
+
+let server: Server;
+let dataDir: string;
+let baseUrl: string;
+
+const request = (method: string, route: string, options: { body?: unknown; cookie?: string } = {}) => fetch(baseUrl + route, {
+  method,
+  headers: {
+    ...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    ...(options.cookie ? { Cookie: options.cookie } : {}),
+  },
+  body: options.body === undefined ? undefined : JSON.stringify(options.body),
+});
+
+const signup = async (): Promise<string> => {
+  const response = await request('POST', '/api/auth/signup', { body: { email: 'ada@example.com', password: 'correct horse' } });
+  return response.headers.get('set-cookie')!.split(';')[0];
+};
+
+const session = { mode: 'ASSIST', turns: [{ id: 't1', prompt: 'Explain this', response: 'It prints 1.' }] };
+
+describe('shares', () => {
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'shares-test-'));
+    server = await createAppServer({
+      dataDir,
+      appOrigin: 'http://localhost:3000',
+      authAttemptsPerWindow: 100,
+      generateRequestsPerMinute: 20,
+      countRequestsPerMinute: 120,
+      shareMaxDays: 7,
+      shareRequestsPerHour: 3,
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new Promise(resolve => server.close(resolve));
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('stores a session that anyone with the link can read until it expires', async () => {
+    const cookie = await signup();
+    const created = await request('POST', '/api/shares', { cookie, body: { session, expiresInDays: 1 } });
+    expect(created.status).toBe(201);
+    const { id, expiresAt } = await created.json();
+    expect(id).toMatch(/^[\w-]{22}$/);
+
+    const read = await request('GET', `/api/shares?id=${id}`);
+    expect(read.status).toBe(200);
+    expect(await read.json()).toEqual({ session, expiresAt });
+
+    vi.useFakeTimers({ now: expiresAt, toFake: ['Date'] });
+    expect((await request('GET', `/api/shares?id=${id}`)).status).toBe(404);
+  });
+
+  it('requires a signed-in user to create links', async () => {
+    expect((await request('POST', '/api/shares', { body: { session, expiresInDays: 1 } })).status).toBe(401);
+  });
+
+  it('validates the session and the lifetime against the configured maximum', async () => {
+    const cookie = await signup();
+    expect((await request('POST', '/api/shares', { cookie, body: { session: { turns: [] }, expiresInDays: 1 } })).status).toBe(400);
+    expect((await request('POST', '/api/shares', { cookie, body: { session, expiresInDays: 8 } })).status).toBe(400);
+    expect((await request('POST', '/api/shares', { cookie, body: { session, expiresInDays: 1.5 } })).status).toBe(400);
+  });
+
+  it('tells the app the longest lifetime it accepts', async () => {
+    expect(await (await request('GET', '/api/shares/limits')).json()).toEqual({ maxDays: 7 });
+  });
+
+  it('answers unknown and malformed ids with a 404', async () => {
+    expect((await request('GET', '/api/shares?id=AAAAAAAAAAAAAAAAAAAAAA')).status).toBe(404);
+    expect((await request('GET', '/api/shares?id=../db')).status).toBe(404);
+  });
+
+  it('limits how many links a user creates per hour', async () => {
+    const cookie = await signup();
+    for (let i = 0; i < 3; i++) {
+      expect((await request('POST', '/api/shares', { cookie, body: { session, expiresInDays: 1 } })).status).toBe(201);
+    }
+    expect((await request('POST', '/api/shares', { cookie, body: { session, expiresInDays: 1 } })).status).toBe(429);
+  });
+});
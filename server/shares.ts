@@ -0,0 +1,97 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { HttpError, readJsonBody, sendJson } from './http.ts';
+import { createRateLimiter } from './rateLimit.ts';
+import type { JsonStore, UserRecord } from './store.ts';
+
+// Only sessions too large for a link's URL fragment are stored here, so this has to fit whole files and responses.
+const MAX_SHARE_BYTES = 4 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 16 random bytes, base64url encoded: not guessable, so the link itself is the read permission.
+const SHARE_ID_PATTERN = /^[\w-]{22}$/;
+
+export interface ShareConfig {
+  /** Directory the shared sessions are written to, one JSON file each. */
+  dir: string;
+  /** Longest lifetime a link may ask for, in days. */
+  maxDays: number;
+  /** Per signed-in user. */
+  createRequestsPerHour: number;
+}
+
+/** The session from a create request: an object with at least one turn. The app validates the rest when it opens the link. */
+const requireSession = (body: Record<string, unknown>): Record<string, unknown> => {
+  const { session } = body;
+  const turns = session && typeof session === 'object' ? (session as Record<string, unknown>).turns : undefined;
+  if (!Array.isArray(turns) || turns.length === 0 || !turns.every(turn => turn && typeof turn === 'object')) {
+    throw new HttpError(400, '"session" must be a session with at least one turn.');
+  }
+  return session as Record<string, unknown>;
+};
+
+const requireDays = (body: Record<string, unknown>, maxDays: number): number => {
+  const { expiresInDays } = body;
+  if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > maxDays) {
+    throw new HttpError(400, `"expiresInDays" must be a whole number from 1 to ${maxDays}.`);
+  }
+  return expiresInDays;
+};
+
+export const createShareHandlers = (store: JsonStore, getSessionUser: (req: IncomingMessage) => UserRecord | null, config: ShareConfig) => {
+  const limiter = createRateLimiter({ limit: config.createRequestsPerHour, windowMs: 60 * 60 * 1000 });
+  const fileFor = (id: string) => path.join(config.dir, `${id}.json`);
+
+  const removeExpiredShares = async () => {
+    const now = Date.now();
+    const expired = store.read().shares.filter(share => share.expiresAt <= now);
+    if (expired.length === 0) return;
+    await store.update(db => {
+      db.shares = db.shares.filter(share => share.expiresAt > now);
+    });
+    await Promise.all(expired.map(share => rm(fileFor(share.id), { force: true })));
+  };
+
+  return {
+    /** Stores a session for `expiresInDays` days and returns the id of its read-only link. */
+    create: async (req: IncomingMessage, res: ServerResponse) => {
+      const user = getSessionUser(req);
+      if (!user) throw new HttpError(401, 'Sign in to share sessions.');
+      limiter.consume(user.id);
+      const body = await readJsonBody(req, MAX_SHARE_BYTES);
+      const session = requireSession(body);
+      const expiresInDays = requireDays(body, config.maxDays);
+      await removeExpiredShares();
+      const id = randomBytes(16).toString('base64url');
+      const createdAt = Date.now();
+      const expiresAt = createdAt + expiresInDays * DAY_MS;
+      await mkdir(config.dir, { recursive: true });
+      await writeFile(fileFor(id), JSON.stringify(session));
+      await store.update(db => {
+        db.shares.push({ id, userId: user.id, createdAt, expiresAt });
+      });
+      sendJson(res, 201, { id, expiresAt });
+    },
+
+    /** The longest lifetime a link may ask for, so the app only offers lifetimes that will be accepted. */
+    limits: async (_req: IncomingMessage, res: ServerResponse) => {
+      sendJson(res, 200, { maxDays: config.maxDays });
+    },
+
+    /** Returns the session shared as `?id=`. Anyone with the link may read it until it expires. */
+    get: async (req: IncomingMessage, res: ServerResponse) => {
+      const id = new URL(req.url ?? '/', 'http://localhost').searchParams.get('id') ?? '';
+      const share = SHARE_ID_PATTERN.test(id) ? store.read().shares.find(candidate => candidate.id === id) : undefined;
+      if (!share || share.expiresAt <= Date.now()) throw new HttpError(404, 'This share link has expired or does not exist.');
+      let session: unknown;
+      try {
+        session = JSON.parse(await readFile(fileFor(id), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new HttpError(404, 'This share link has expired or does not exist.');
+        throw error;
+      }
+      sendJson(res, 200, { session, expiresAt: share.expiresAt });
+    },
+  };
+};
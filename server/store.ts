@@ -0,0 +1,79 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  /** `scrypt$<salt>$<hash>`, both hex encoded. */
+  passwordHash: string;
+  createdAt: number;
+}
+
+export interface SessionRecord {
+  /** SHA-256 of the session token; the token itself only ever lives in the client's cookie. */
+  tokenHash: string;
+  userId: string;
+  expiresAt: number;
+}
+
+export interface PasswordResetRecord {
+  tokenHash: string;
+  userId: string;
+  expiresAt: number;
+}
+
+/** A shared session; its content is stored in a file of its own so this file stays small. */
+export interface ShareRecord {
+  id: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface Database {
+  users: UserRecord[];
+  sessions: SessionRecord[];
+  passwordResets: PasswordResetRecord[];
+  shares: ShareRecord[];
+}
+
+const emptyDatabase = (): Database => ({ users: [], sessions: [], passwordResets: [], shares: [] });
+
+/**
+ * A JSON file on disk, loaded once and rewritten atomically after every mutation. Plenty for a local,
+ * single-process service; swap for a real database before running this for many users.
+ */
+export const createJsonStore = async (dataDir: string) => {
+  const file = path.join(dataDir, 'db.json');
+  await mkdir(dataDir, { recursive: true });
+  let data: Database;
+  try {
+    data = { ...emptyDatabase(), ...JSON.parse(await readFile(file, 'utf8')) };
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+    data = emptyDatabase();
+  }
+
+  let writeQueue = Promise.resolve();
+  const persist = () => {
+    // A failed write is reported to its own caller only; later writes still run and save the current data.
+    writeQueue = writeQueue.catch(() => {}).then(async () => {
+      const temp = `${file}.tmp`;
+      await writeFile(temp, JSON.stringify(data, null, 2));
+      await rename(temp, file);
+    });
+    return writeQueue;
+  };
+
+  return {
+    read: (): Readonly<Database> => data,
+    /** Applies `mutate` to the in-memory data and persists the result. */
+    update: async <T>(mutate: (db: Database) => T): Promise<T> => {
+      const result = mutate(data);
+      await persist();
+      return result;
+    },
+  };
+};
+
+export type JsonStore = Awaited<ReturnType<typeof createJsonStore>>;